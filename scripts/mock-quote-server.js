@@ -0,0 +1,198 @@
+// scripts/mock-quote-server.js
+//
+// Local WebSocket quote server for developing live quotes offline. Speaks the
+// generic protocol in src/QuoteStream.ts and streams a random walk for every
+// subscribed symbol. No dependencies beyond Node itself.
+//
+//   npm run mock-quotes
+//   PORT=9000 TICK_MS=250 npm run mock-quotes
+//
+// Settings > Live Quotes > Custom WebSocket, ws://localhost:8787 by default.
+
+const crypto = require('crypto');
+const http = require('http');
+
+const PORT = parseInt(process.env.PORT || '8787', 10);
+const TICK_MS = parseInt(process.env.TICK_MS || '1000', 10);
+// Per-tick standard deviation of the log price
+const VOLATILITY = parseFloat(process.env.VOLATILITY || '0.0008');
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const STARTING_PRICES = {
+  AAPL: 190,
+  MSFT: 420,
+  GOOGL: 170,
+  AMZN: 180,
+  NVDA: 120,
+  META: 500,
+  TSLA: 180,
+  SPY: 540,
+  QQQ: 470
+};
+
+// One shared walk per symbol, so every client sees the same prices
+const prices = new Map();
+
+function priceFor(symbol) {
+  if (!prices.has(symbol)) {
+    const hash = crypto.createHash('md5').update(symbol).digest().readUInt32BE(0);
+    prices.set(symbol, STARTING_PRICES[symbol] || 20 + (hash % 48000) / 100);
+  }
+  return prices.get(symbol);
+}
+
+function randomNormal() {
+  const u1 = Math.random() || Number.MIN_VALUE;
+  const u2 = Math.random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+function nextTrade(symbol) {
+  const price = priceFor(symbol) * Math.exp(VOLATILITY * randomNormal());
+  prices.set(symbol, price);
+  return {
+    type: 'trade',
+    symbol,
+    price: Math.round(price * 100) / 100,
+    size: 100 * (1 + Math.floor(Math.random() * 20)),
+    timestamp: Date.now()
+  };
+}
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Complete frames at the start of `buffer`, and whatever is left over.
+// Client frames are always masked; fragmented messages are not supported.
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (buffer.length < cursor + 4 + length) break;
+    const mask = buffer.subarray(cursor, cursor + 4);
+    const payload = Buffer.from(buffer.subarray(cursor + 4, cursor + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = cursor + 4 + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function handleClient(socket) {
+  const symbols = new Set();
+  let pending = Buffer.alloc(0);
+
+  const send = message => {
+    if (!socket.destroyed) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+  };
+
+  const timer = setInterval(() => {
+    symbols.forEach(symbol => send(nextTrade(symbol)));
+  }, TICK_MS);
+
+  const handleMessage = text => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch (error) {
+      send({ type: 'error', message: 'Messages must be JSON' });
+      return;
+    }
+    if (message.type === 'subscribe' || message.type === 'unsubscribe') {
+      (message.symbols || []).forEach(symbol => {
+        const normalized = String(symbol).toUpperCase();
+        if (message.type === 'subscribe') {
+          symbols.add(normalized);
+          // Start each subscription with a trade so the client updates right away
+          send(nextTrade(normalized));
+        } else {
+          symbols.delete(normalized);
+        }
+      });
+      console.log(`[mock-quotes] ${socket.remoteAddress} subscribed to ${Array.from(symbols).join(', ') || 'nothing'}`);
+    }
+  };
+
+  socket.on('data', chunk => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === OPCODE_TEXT) {
+        handleMessage(payload.toString('utf8'));
+      } else if (opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, payload));
+      } else if (opcode === OPCODE_CLOSE) {
+        socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+      }
+    });
+  });
+
+  socket.on('close', () => clearInterval(timer));
+  socket.on('error', () => clearInterval(timer));
+}
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('Mock quote server: connect with a WebSocket client.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || (req.headers.upgrade || '').toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  handleClient(socket);
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-quotes] ws://localhost:${PORT} (a trade every ${TICK_MS} ms per symbol)`);
+});
+
+process.on('SIGINT', () => {
+  server.close();
+  process.exit(0);
+});
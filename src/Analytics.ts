@@ -6,8 +6,27 @@ import {
   StressTestScenario, 
   StressTestResult, 
   PerformanceMetrics, 
-  RegimeAnalysis 
+  CorrelationMatrix,
+  RegimeAnalysis,
+  RegimeSwitchingParams,
+  GarchFit
 } from './types';
+import { TRADING_DAYS_PER_YEAR } from './TimeRange';
+import { Random } from './Random';
+
+// Two-state Gaussian hidden Markov model, states in fitting order
+interface HiddenMarkovModel {
+  initial: number[];
+  transition: number[][];
+  means: number[];
+  variances: number[];
+}
+
+interface HiddenMarkovPass {
+  gamma: number[][]; // per return, probability of each state
+  transitions: number[][]; // expected count of each state change
+  logLikelihood: number;
+}
 
 export class Analytics {
   // Validation constants
@@ -15,6 +34,8 @@ export class Analytics {
   private static readonly MAX_VARIANCE = 1e4;
   private static readonly MIN_PRICE = 0.01;
   private static readonly RISK_FREE_RATE = 0.02; // 2% annual risk-free rate
+  private static readonly MIN_PROBABILITY = 1e-6; // keeps HMM states reachable
+  private static readonly MAX_PERSISTENCE = 0.998; // fitted alpha + beta stays stationary
 
   static validateParams(params: AnalyticsParams): void {
     if (params.alpha < 0 || params.alpha > 1) {
@@ -38,12 +59,30 @@ export class Analytics {
     if (params.numSteps < 10 || params.numSteps > 1000) {
       throw new Error('Number of steps must be between 10 and 1000');
     }
+    if (params.barsPerYear !== undefined && !(params.barsPerYear > 0)) {
+      throw new Error('Bars per year must be positive');
+    }
+    if (params.eventJumps && !(params.eventJumps.stdDev >= 0 && params.eventJumps.stdDev < 1)) {
+      throw new Error('Event jump size must be between 0 and 1');
+    }
+    if (params.seed !== undefined && !Random.isSeed(params.seed)) {
+      throw new Error('Seed must be an integer between 0 and 4294967295');
+    }
+    if (params.regimes && ![params.regimes.bull, params.regimes.bear].every(r => r.volatility > 0 && isFinite(r.drift))) {
+      throw new Error('Regime volatilities must be positive and drifts finite');
+    }
   }
 
-  static calculateReturns(prices: PricePoint[]): number[] {
+  // Log returns. With `elapsedBars` (see TradingCalendar.barGaps), a return
+  // spanning several bars, e.g. across a missing session, is scaled back to
+  // one bar's variance.
+  static calculateReturns(prices: PricePoint[], elapsedBars?: number[]): number[] {
     if (prices.length < 2) {
       throw new Error('Need at least 2 price points to calculate returns');
     }
+    if (elapsedBars && elapsedBars.length !== prices.length - 1) {
+      throw new Error('Elapsed bars must have one entry per return');
+    }
 
     const returns: number[] = [];
     for (let i = 1; i < prices.length; i++) {
@@ -51,7 +90,7 @@ export class Analytics {
         throw new Error('Invalid price data: non-positive close price');
       }
       const ret = Math.log(prices[i].close / prices[i - 1].close);
-      returns.push(ret);
+      returns.push(elapsedBars ? ret / Math.sqrt(Math.max(1, elapsedBars[i - 1])) : ret);
     }
     return returns;
   }
@@ -98,6 +137,49 @@ export class Analytics {
     return volatilities;
   }
 
+  // GARCH(1,1) by Gaussian maximum likelihood on the demeaned returns.
+  // Nelder-Mead searches an unconstrained reparametrization that keeps ω > 0,
+  // α, β ≥ 0 and α + β below MAX_PERSISTENCE; standard errors come from the
+  // inverse of the numerical Hessian of the log-likelihood.
+  static fitGARCH(returns: number[]): GarchFit {
+    if (returns.length < 10) {
+      throw new Error('Need at least 10 returns to fit GARCH');
+    }
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const residuals = returns.map(r => r - mean);
+    const variance = Math.max(
+      residuals.reduce((sum, e) => sum + e * e, 0) / (returns.length - 1),
+      this.MIN_VARIANCE
+    );
+
+    const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+    const logit = (p: number) => Math.log(p / (1 - p));
+    const toParams = ([logOmega, persistence, share]: number[]) => {
+      const p = this.MAX_PERSISTENCE * logistic(persistence);
+      return [Math.exp(logOmega), p * logistic(share), p * (1 - logistic(share))];
+    };
+
+    // Start from the textbook daily fit, α = 0.05 and β = 0.9, at the sample variance
+    const start = [Math.log(variance * 0.05), logit(0.95 / this.MAX_PERSISTENCE), logit(0.05 / 0.95)];
+    const best = this.nelderMead(x => -this.garchLogLikelihood(residuals, variance, toParams(x)), start);
+    const [omega, alpha, beta] = toParams(best);
+
+    const errors = this.inverse(this.hessian(x => this.garchLogLikelihood(residuals, variance, x), [omega, alpha, beta]))
+      // A diagonal that is not negative means no curvature to measure: NaN
+      .map((row, i) => (row[i] < 0 ? Math.sqrt(-row[i]) : NaN));
+
+    return {
+      omega,
+      alpha,
+      beta,
+      standardErrors: { omega: errors[0], alpha: errors[1], beta: errors[2] },
+      logLikelihood: this.garchLogLikelihood(residuals, variance, [omega, alpha, beta]),
+      persistence: alpha + beta,
+      longRunVolatility: Math.sqrt(omega / (1 - alpha - beta))
+    };
+  }
+
   static calculateTrendAndDrift(prices: PricePoint[], theta: number): { trend: number; drift: number } {
     if (prices.length < 2) {
       throw new Error('Need at least 2 price points to calculate trend');
@@ -142,7 +224,7 @@ export class Analytics {
     return { trend, drift };
   }
 
-  static generateMarkovRegime(returns: number[], switchProb: number): number[] {
+  static generateMarkovRegime(returns: number[], switchProb: number, random: Random = new Random(Random.randomSeed())): number[] {
     if (returns.length === 0) {
       throw new Error('No returns data provided');
     }
@@ -161,7 +243,7 @@ export class Analytics {
       regimes[t] = currentRegime;
       
       // Switch regime with probability switchProb
-      if (Math.random() < switchProb) {
+      if (random.next() < switchProb) {
         currentRegime = -currentRegime;
       }
     }
@@ -169,6 +251,45 @@ export class Analytics {
     return regimes;
   }
 
+  // Bull and bear parameters from history. Each return belongs to the regime
+  // of its trailing `window`-bar mean; each regime's drift and volatility are
+  // then measured on its own returns. A regime with too few returns takes
+  // the whole sample's.
+  static estimateRegimeParams(
+    returns: number[],
+    barsPerYear: number = TRADING_DAYS_PER_YEAR,
+    window: number = 20
+  ): RegimeSwitchingParams {
+    if (returns.length < 2) {
+      throw new Error('Need at least 2 returns to estimate regimes');
+    }
+
+    const bullish = returns.map((_, t) => {
+      const trailing = returns.slice(Math.max(0, t - window + 1), t + 1);
+      return trailing.reduce((sum, r) => sum + r, 0) >= 0;
+    });
+    const measure = (sample: number[]) => {
+      const data = sample.length >= 2 ? sample : returns;
+      const mean = data.reduce((sum, r) => sum + r, 0) / data.length;
+      const variance = Math.max(
+        data.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (data.length - 1),
+        this.MIN_VARIANCE
+      );
+      // Annualized the way runMonteCarloSimulation applies drift
+      return { drift: (mean + 0.5 * variance) * barsPerYear, volatility: Math.sqrt(variance) };
+    };
+
+    return {
+      bull: measure(returns.filter((_, t) => bullish[t])),
+      bear: measure(returns.filter((_, t) => !bullish[t])),
+      initial: bullish[bullish.length - 1] ? 'bull' : 'bear'
+    };
+  }
+
+  // With params.regimes the paths follow a two-state Markov chain: each path
+  // starts in the regime estimated from history and, after each step, leaves
+  // it with probability switchProb. The regime sets the drift (in place of
+  // `drift`) and the GARCH long-run variance.
   static runMonteCarloSimulation(
     initialPrice: number,
     params: AnalyticsParams,
@@ -186,43 +307,76 @@ export class Analytics {
       throw new Error('Initial volatility must be positive');
     }
 
-    const { numPaths, numSteps, alpha, beta } = params;
+    const { numPaths, numSteps, alpha, beta, regimes, switchProb } = params;
+    const seed = params.seed ?? Random.randomSeed();
+    const random = new Random(seed);
     const paths: number[][] = [];
-    const dt = 1 / 252; // Daily time step
+    // One step per bar. GARCH volatility is already per-bar, so only the
+    // annual drift is scaled by the step size.
+    const dt = 1 / (params.barsPerYear ?? TRADING_DAYS_PER_YEAR);
     
     // Calculate omega for GARCH
     const omega = initialVolatility * initialVolatility * (1 - alpha - beta);
+    const regimeOmega = regimes && {
+      bull: regimes.bull.volatility * regimes.bull.volatility * (1 - alpha - beta),
+      bear: regimes.bear.volatility * regimes.bear.volatility * (1 - alpha - beta)
+    };
+    const jumpSteps = new Set(params.eventJumps?.steps ?? []);
+    const jumpStdDev = params.eventJumps?.stdDev ?? 0;
+    const regimeOccupancy: number[] = [];
     
     for (let path = 0; path < numPaths; path++) {
       const pathPrices: number[] = [initialPrice];
       let currentPrice = initialPrice;
       let currentVolatility = initialVolatility;
+      let regime = regimes?.initial ?? 'bull';
+      let bullSteps = 0;
       
       for (let step = 0; step < numSteps; step++) {
+        if (regime === 'bull') bullSteps++;
+        const stepDrift = regimes ? regimes[regime].drift : drift;
+
         // Generate random normal variable
-        const z = this.randomNormal();
+        const z = random.normal();
         
-        // Calculate return: ret = drift·dt - 0.5·σ²·dt + σ·√dt·Z
-        const ret = drift * dt - 0.5 * currentVolatility * currentVolatility * dt + 
-                   currentVolatility * Math.sqrt(dt) * z;
+        // Calculate return: ret = drift·dt - 0.5·σ² + σ·Z. σ is the per-bar
+        // GARCH volatility of calculateGARCHVolatility, already one step's
+        // size, so it takes no √dt; σ·√barsPerYear is the annualized
+        // volatility, as in TechnicalAnalysis.calculateVolatility.
+        const shock = currentVolatility * z;
+        const ret = stepDrift * dt - 0.5 * currentVolatility * currentVolatility + shock;
+
+        // Scheduled events add a one-off move. It stays out of the GARCH
+        // update so a single earnings day doesn't read as a volatility regime.
+        const jump = jumpSteps.has(step + 1)
+          ? -0.5 * jumpStdDev * jumpStdDev + jumpStdDev * random.normal()
+          : 0;
         
         // Update price with bounds checking
-        currentPrice = currentPrice * Math.exp(ret);
+        currentPrice = currentPrice * Math.exp(ret + jump);
         if (currentPrice < this.MIN_PRICE) {
           currentPrice = this.MIN_PRICE; // Prevent negative prices
         }
         pathPrices.push(currentPrice);
         
-        // Update volatility using GARCH with bounds
-        const variance = omega + alpha * Math.pow(ret, 2) + beta * Math.pow(currentVolatility, 2);
+        // Update volatility using GARCH with bounds. Only the shock feeds it,
+        // as in fitGARCH's demeaned residuals, so drift doesn't read as volatility.
+        const variance = (regimeOmega ? regimeOmega[regime] : omega) + alpha * Math.pow(shock, 2) + beta * Math.pow(currentVolatility, 2);
         const boundedVariance = Math.max(Math.min(variance, this.MAX_VARIANCE), this.MIN_VARIANCE);
         currentVolatility = Math.sqrt(boundedVariance);
+
+        // The next bar leaves this regime with probability switchProb
+        if (regimes && random.next() < switchProb) {
+          regime = regime === 'bull' ? 'bear' : 'bull';
+        }
       }
       
       paths.push(pathPrices);
+      regimeOccupancy.push(bullSteps / numSteps);
     }
     
-    return this.calculateStatistics(paths, initialPrice);
+    const result = this.calculateStatistics(paths, initialPrice, seed);
+    return regimes ? { ...result, regimeOccupancy } : result;
   }
 
   // Advanced Analytics Methods
@@ -237,8 +391,17 @@ export class Analytics {
     const results: StressTestResult[] = [];
     
     for (const scenario of scenarios) {
-      // Apply stress test parameters
-      const stressedParams = { ...params };
+      // Apply stress test parameters, to each regime when switching
+      const stressedParams: AnalyticsParams = params.regimes
+        ? {
+            ...params,
+            regimes: {
+              ...params.regimes,
+              bull: { drift: params.regimes.bull.drift + scenario.driftShock, volatility: params.regimes.bull.volatility * scenario.volatilityShock },
+              bear: { drift: params.regimes.bear.drift + scenario.driftShock, volatility: params.regimes.bear.volatility * scenario.volatilityShock }
+            }
+          }
+        : { ...params };
       const stressedVolatility = initialVolatility * scenario.volatilityShock;
       const stressedDrift = drift + scenario.driftShock;
       
@@ -269,14 +432,20 @@ export class Analytics {
     return results;
   }
 
-  static calculatePerformanceMetrics(prices: PricePoint[], benchmarkReturns?: number[]): PerformanceMetrics {
+  // Annualized with barsPerYear(interval, calendar): 252 daily bars for
+  // equities, 365 for crypto and 260 for FX
+  static calculatePerformanceMetrics(
+    prices: PricePoint[],
+    benchmarkReturns?: number[],
+    barsPerYear: number = TRADING_DAYS_PER_YEAR
+  ): PerformanceMetrics {
     const returns = this.calculateReturns(prices);
     const meanReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
     const volatility = Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - meanReturn, 2), 0) / (returns.length - 1));
     
     // Annualize returns and volatility
-    const annualizedReturn = meanReturn * 252;
-    const annualizedVolatility = volatility * Math.sqrt(252);
+    const annualizedReturn = meanReturn * barsPerYear;
+    const annualizedVolatility = volatility * Math.sqrt(barsPerYear);
     
     // Sharpe Ratio
     const sharpeRatio = (annualizedReturn - this.RISK_FREE_RATE) / annualizedVolatility;
@@ -284,7 +453,7 @@ export class Analytics {
     // Sortino Ratio (using downside deviation)
     const downsideReturns = returns.filter(r => r < meanReturn);
     const downsideDeviation = Math.sqrt(downsideReturns.reduce((sum, r) => sum + Math.pow(r - meanReturn, 2), 0) / downsideReturns.length);
-    const sortinoRatio = (annualizedReturn - this.RISK_FREE_RATE) / (downsideDeviation * Math.sqrt(252));
+    const sortinoRatio = (annualizedReturn - this.RISK_FREE_RATE) / (downsideDeviation * Math.sqrt(barsPerYear));
     
     // Maximum Drawdown
     const maxDrawdown = this.calculateMaxDrawdownFromPrices(prices);
@@ -310,11 +479,11 @@ export class Analytics {
       covariance /= (returns.length - 1);
       
       beta = covariance / benchmarkVar;
-      alpha = annualizedReturn - (this.RISK_FREE_RATE + beta * (benchmarkMean * 252 - this.RISK_FREE_RATE));
+      alpha = annualizedReturn - (this.RISK_FREE_RATE + beta * (benchmarkMean * barsPerYear - this.RISK_FREE_RATE));
       
       // Information Ratio
       const trackingError = Math.sqrt(returns.reduce((sum, r, i) => sum + Math.pow(r - benchmarkReturns[i], 2), 0) / returns.length);
-      informationRatio = (annualizedReturn - benchmarkMean * 252) / (trackingError * Math.sqrt(252));
+      informationRatio = (annualizedReturn - benchmarkMean * barsPerYear) / (trackingError * Math.sqrt(barsPerYear));
       
       // Treynor Ratio
       treynorRatio = (annualizedReturn - this.RISK_FREE_RATE) / beta;
@@ -332,6 +501,45 @@ export class Analytics {
     };
   }
 
+  // Pearson correlation of log returns. The series must share their bar
+  // dates (see alignByDate) so returns line up index by index.
+  static calculateCorrelationMatrix(
+    series: Record<string, PricePoint[]>,
+    assets: string[] = Object.keys(series)
+  ): CorrelationMatrix {
+    const returns = assets.map(asset => {
+      if (!series[asset]) {
+        throw new Error(`No prices for ${asset}`);
+      }
+      return this.calculateReturns(series[asset]);
+    });
+    if (returns.some(r => r.length !== returns[0].length)) {
+      throw new Error('Price series must be aligned by date');
+    }
+
+    const correlation = (a: number[], b: number[]) => {
+      const meanA = a.reduce((sum, r) => sum + r, 0) / a.length;
+      const meanB = b.reduce((sum, r) => sum + r, 0) / b.length;
+      let covariance = 0;
+      let varianceA = 0;
+      let varianceB = 0;
+      for (let i = 0; i < a.length; i++) {
+        covariance += (a[i] - meanA) * (b[i] - meanB);
+        varianceA += Math.pow(a[i] - meanA, 2);
+        varianceB += Math.pow(b[i] - meanB, 2);
+      }
+      // A flat series moves with nothing
+      const scale = Math.sqrt(varianceA * varianceB);
+      return scale > 0 ? covariance / scale : 0;
+    };
+
+    const matrix = returns.map((a, i) => returns.map((b, j) => (i === j ? 1 : correlation(a, b))));
+    const pairs = matrix.flatMap((row, i) => row.slice(i + 1));
+    const averageCorrelation = pairs.length > 0 ? pairs.reduce((sum, c) => sum + c, 0) / pairs.length : 0;
+
+    return { assets, matrix, averageCorrelation };
+  }
+
   static analyzeRegime(returns: number[], regimes: number[]): RegimeAnalysis {
     if (returns.length !== regimes.length) {
       throw new Error('Returns and regimes arrays must have the same length');
@@ -395,17 +603,281 @@ export class Analytics {
       bear: bearReturns.length > 0 ? Math.sqrt(bearReturns.reduce((sum, r) => sum + Math.pow(r - bearMean, 2), 0) / (bearReturns.length - 1)) : 0
     };
     
+    // Observed share of each regime's bars followed by each regime
+    const changes = [[0, 0], [0, 0]];
+    for (let i = 1; i < regimes.length; i++) {
+      changes[regimes[i - 1] > 0 ? 0 : 1][regimes[i] > 0 ? 0 : 1]++;
+    }
+    const transitionMatrix = changes.map((row, i) => {
+      const total = row[0] + row[1];
+      return total > 0 ? row.map(count => count / total) : [i === 0 ? 1 : 0, i === 0 ? 0 : 1];
+    });
+
     return {
       bullMarketProbability,
       bearMarketProbability,
       regimeDuration,
       regimeVolatility,
-      regimeReturns
+      regimeReturns,
+      regimes,
+      bullProbabilities: regimes.map(r => (r > 0 ? 1 : 0)),
+      transitionMatrix
+    };
+  }
+
+  // Bull and bear regimes inferred from the returns: a two-state Gaussian
+  // hidden Markov model fitted by Baum-Welch, with the most likely regime of
+  // each bar from Viterbi. The state with the higher mean return is bull.
+  // Durations are expected run lengths, 1 / (1 - chance of staying).
+  static detectRegimes(returns: number[], maxIterations: number = 200, tolerance: number = 1e-6): RegimeAnalysis {
+    if (returns.length < 2) {
+      throw new Error('Need at least 2 returns to detect regimes');
+    }
+
+    // Start one state above the mean and calmer, the other below and wilder
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = Math.max(
+      returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1),
+      this.MIN_VARIANCE
+    );
+    let model: HiddenMarkovModel = {
+      initial: [0.5, 0.5],
+      transition: [[0.95, 0.05], [0.05, 0.95]],
+      means: [mean + 0.5 * Math.sqrt(variance), mean - 0.5 * Math.sqrt(variance)],
+      variances: [0.5 * variance, 1.5 * variance]
+    };
+
+    let pass = this.hiddenMarkovPass(returns, model);
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      model = this.hiddenMarkovUpdate(returns, model, pass);
+      const next = this.hiddenMarkovPass(returns, model);
+      const improvement = next.logLikelihood - pass.logLikelihood;
+      pass = next;
+      if (improvement < tolerance) break;
+    }
+
+    const bull = model.means[0] >= model.means[1] ? 0 : 1;
+    const order = [bull, 1 - bull];
+    const transitionMatrix = order.map(i => order.map(j => model.transition[i][j]));
+    const bullProbabilities = pass.gamma.map(g => g[bull]);
+    const bullMarketProbability = bullProbabilities.reduce((sum, p) => sum + p, 0) / bullProbabilities.length;
+
+    return {
+      bullMarketProbability,
+      bearMarketProbability: 1 - bullMarketProbability,
+      regimeDuration: {
+        bull: 1 / Math.max(1 - transitionMatrix[0][0], this.MIN_PROBABILITY),
+        bear: 1 / Math.max(1 - transitionMatrix[1][1], this.MIN_PROBABILITY)
+      },
+      regimeVolatility: {
+        bull: Math.sqrt(model.variances[bull]),
+        bear: Math.sqrt(model.variances[1 - bull])
+      },
+      regimeReturns: {
+        bull: model.means[bull],
+        bear: model.means[1 - bull]
+      },
+      regimes: this.viterbi(returns, model).map(state => (state === bull ? 1 : -1)),
+      bullProbabilities,
+      transitionMatrix,
+      logLikelihood: pass.logLikelihood
     };
   }
 
   // Helper methods
 
+  private static logNormalDensity(x: number, mean: number, variance: number): number {
+    return -0.5 * (Math.log(2 * Math.PI * variance) + Math.pow(x - mean, 2) / variance);
+  }
+
+  // Scaled forward-backward: smoothed state probabilities, expected state
+  // changes and the log-likelihood. Densities are taken relative to the
+  // likelier state of each bar so an outlier can't underflow both.
+  private static hiddenMarkovPass(returns: number[], model: HiddenMarkovModel): HiddenMarkovPass {
+    const n = returns.length;
+    const states = [0, 1];
+    let logLikelihood = 0;
+    const emission = returns.map(x => {
+      const logs = states.map(j => this.logNormalDensity(x, model.means[j], model.variances[j]));
+      const shift = Math.max(...logs);
+      logLikelihood += shift;
+      return logs.map(l => Math.exp(l - shift));
+    });
+
+    const forward: number[][] = [];
+    const scale: number[] = [];
+    for (let t = 0; t < n; t++) {
+      const prior = t === 0
+        ? model.initial
+        : states.map(j => states.reduce((sum, i) => sum + forward[t - 1][i] * model.transition[i][j], 0));
+      const joint = states.map(j => prior[j] * emission[t][j]);
+      scale[t] = joint[0] + joint[1];
+      forward[t] = joint.map(p => p / scale[t]);
+      logLikelihood += Math.log(scale[t]);
+    }
+
+    const backward: number[][] = [];
+    backward[n - 1] = [1, 1];
+    for (let t = n - 2; t >= 0; t--) {
+      backward[t] = states.map(i => states.reduce(
+        (sum, j) => sum + model.transition[i][j] * emission[t + 1][j] * backward[t + 1][j], 0
+      ) / scale[t + 1]);
+    }
+
+    const gamma = forward.map((f, t) => {
+      const joint = states.map(j => f[j] * backward[t][j]);
+      return joint.map(p => p / (joint[0] + joint[1]));
+    });
+    const transitions = [[0, 0], [0, 0]];
+    for (let t = 0; t < n - 1; t++) {
+      states.forEach(i => states.forEach(j => {
+        transitions[i][j] += forward[t][i] * model.transition[i][j] * emission[t + 1][j] * backward[t + 1][j] / scale[t + 1];
+      }));
+    }
+
+    return { gamma, transitions, logLikelihood };
+  }
+
+  // Baum-Welch re-estimate. Probabilities are floored so neither state
+  // becomes unreachable, and a state with no weight keeps its distribution.
+  private static hiddenMarkovUpdate(returns: number[], model: HiddenMarkovModel, pass: HiddenMarkovPass): HiddenMarkovModel {
+    const floor = (p: number[]) => {
+      const floored = p.map(v => Math.max(v, this.MIN_PROBABILITY));
+      const total = floored[0] + floored[1];
+      return floored.map(v => v / total);
+    };
+    const means = [...model.means];
+    const variances = [...model.variances];
+    [0, 1].forEach(j => {
+      const weight = pass.gamma.reduce((sum, g) => sum + g[j], 0);
+      if (weight < this.MIN_PROBABILITY) return;
+      means[j] = returns.reduce((sum, r, t) => sum + pass.gamma[t][j] * r, 0) / weight;
+      variances[j] = Math.max(
+        returns.reduce((sum, r, t) => sum + pass.gamma[t][j] * Math.pow(r - means[j], 2), 0) / weight,
+        this.MIN_VARIANCE
+      );
+    });
+
+    return {
+      initial: floor(pass.gamma[0]),
+      transition: pass.transitions.map((row, i) => (row[0] + row[1] > 0 ? floor(row) : model.transition[i])),
+      means,
+      variances
+    };
+  }
+
+  // Gaussian log-likelihood of GARCH(1,1) residuals, started at the sample variance
+  private static garchLogLikelihood(residuals: number[], initialVariance: number, [omega, alpha, beta]: number[]): number {
+    let variance = initialVariance;
+    let logLikelihood = 0;
+    residuals.forEach((e, t) => {
+      if (t > 0) {
+        variance = Math.max(omega + alpha * residuals[t - 1] * residuals[t - 1] + beta * variance, this.MIN_VARIANCE);
+      }
+      logLikelihood -= 0.5 * (Math.log(2 * Math.PI * variance) + (e * e) / variance);
+    });
+    return logLikelihood;
+  }
+
+  // Minimizes f by the Nelder-Mead simplex method
+  private static nelderMead(f: (x: number[]) => number, start: number[], maxIterations: number = 1000, tolerance: number = 1e-10): number[] {
+    const simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + 0.5 : v)))]
+      .map(x => ({ x, value: f(x) }));
+    const along = (from: number[], to: number[], t: number) => from.map((v, i) => v + t * (to[i] - v));
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      simplex.sort((a, b) => a.value - b.value);
+      const worst = simplex[simplex.length - 1];
+      if (Math.abs(worst.value - simplex[0].value) < tolerance) break;
+
+      const others = simplex.slice(0, -1);
+      const centroid = start.map((_, i) => others.reduce((sum, point) => sum + point.x[i], 0) / others.length);
+      const reflected = along(centroid, worst.x, -1);
+      const reflectedValue = f(reflected);
+
+      if (reflectedValue < simplex[0].value) {
+        const expanded = along(centroid, worst.x, -2);
+        const expandedValue = f(expanded);
+        simplex[simplex.length - 1] = expandedValue < reflectedValue
+          ? { x: expanded, value: expandedValue }
+          : { x: reflected, value: reflectedValue };
+      } else if (reflectedValue < simplex[simplex.length - 2].value) {
+        simplex[simplex.length - 1] = { x: reflected, value: reflectedValue };
+      } else {
+        const contracted = along(centroid, worst.x, 0.5);
+        const contractedValue = f(contracted);
+        if (contractedValue < worst.value) {
+          simplex[simplex.length - 1] = { x: contracted, value: contractedValue };
+        } else {
+          // Shrink towards the best point
+          for (let i = 1; i < simplex.length; i++) {
+            const x = along(simplex[0].x, simplex[i].x, 0.5);
+            simplex[i] = { x, value: f(x) };
+          }
+        }
+      }
+    }
+
+    simplex.sort((a, b) => a.value - b.value);
+    return simplex[0].x;
+  }
+
+  // Second derivatives of f by central differences, with steps relative to each coordinate
+  private static hessian(f: (x: number[]) => number, x: number[]): number[][] {
+    const steps = x.map(v => 1e-4 * Math.max(Math.abs(v), 1e-6));
+    const at = (di: number, i: number, dj: number, j: number) =>
+      f(x.map((v, k) => v + (k === i ? di * steps[i] : 0) + (k === j ? dj * steps[j] : 0)));
+    return x.map((_, i) => x.map((__, j) =>
+      (at(1, i, 1, j) - at(1, i, -1, j) - at(-1, i, 1, j) + at(-1, i, -1, j)) / (4 * steps[i] * steps[j])
+    ));
+  }
+
+  // Inverse of a square matrix by Gauss-Jordan elimination; NaN when singular
+  private static inverse(matrix: number[][]): number[][] {
+    const n = matrix.length;
+    const rows = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+    for (let col = 0; col < n; col++) {
+      let pivot = col;
+      for (let r = col + 1; r < n; r++) {
+        if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+      }
+      if (rows[pivot][col] === 0) {
+        return matrix.map(row => row.map(() => NaN));
+      }
+      [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+      const scale = rows[col][col];
+      rows[col] = rows[col].map(v => v / scale);
+      for (let r = 0; r < n; r++) {
+        if (r !== col) {
+          const factor = rows[r][col];
+          rows[r] = rows[r].map((v, k) => v - factor * rows[col][k]);
+        }
+      }
+    }
+    return rows.map(row => row.slice(n));
+  }
+
+  // Most likely state sequence, in log space
+  private static viterbi(returns: number[], model: HiddenMarkovModel): number[] {
+    const states = [0, 1];
+    const logTransition = model.transition.map(row => row.map(p => Math.log(p)));
+    const scores = [states.map(j => Math.log(model.initial[j]) + this.logNormalDensity(returns[0], model.means[j], model.variances[j]))];
+    const from: number[][] = [];
+    for (let t = 1; t < returns.length; t++) {
+      const previous = scores[t - 1];
+      from[t] = states.map(j => (previous[0] + logTransition[0][j] >= previous[1] + logTransition[1][j] ? 0 : 1));
+      scores[t] = states.map(j => previous[from[t][j]] + logTransition[from[t][j]][j] + this.logNormalDensity(returns[t], model.means[j], model.variances[j]));
+    }
+    const score = scores[returns.length - 1];
+
+    const path: number[] = [];
+    path[returns.length - 1] = score[0] >= score[1] ? 0 : 1;
+    for (let t = returns.length - 1; t > 0; t--) {
+      path[t - 1] = from[t][path[t]];
+    }
+    return path;
+  }
+
   private static calculateMaxDrawdown(paths: number[][], initialPrice: number): number {
     let maxDrawdown = 0;
     
@@ -448,14 +920,7 @@ export class Analytics {
     return maxDrawdown;
   }
 
-  private static randomNormal(): number {
-    // Box-Muller transform for normal random variables
-    const u = Math.random();
-    const v = Math.random();
-    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
-  }
-
-  private static calculateStatistics(paths: number[][], initialPrice: number): AnalyticsResult {
+  private static calculateStatistics(paths: number[][], initialPrice: number, seed: number): AnalyticsResult {
     const numPaths = paths.length;
     const finalPrices = paths.map(path => path[path.length - 1]);
     
@@ -514,7 +979,8 @@ export class Analytics {
       expectedShortfall99,
       currentVolatility: 0, // Will be set by caller
       trend: 0, // Will be set by caller
-      drift: 0 // Will be set by caller
+      drift: 0, // Will be set by caller
+      seed
     };
   }
 
@@ -530,7 +996,6 @@ export class Analytics {
       const returns = this.calculateReturns(prices);
       const volatilities = this.calculateGARCHVolatility(returns, 0.1, 0.8);
       const { drift } = this.calculateTrendAndDrift(prices, 0.05);
-      const regimes = this.generateMarkovRegime(returns, 0.05);
       
       const params: AnalyticsParams = {
         alpha: 0.1,
@@ -577,8 +1042,8 @@ export class Analytics {
         errors.push('Invalid Sharpe ratio');
       }
       
-      const regimeAnalysis = this.analyzeRegime(returns, regimes);
-      if (regimeAnalysis.bullMarketProbability + regimeAnalysis.bearMarketProbability !== 1) {
+      const regimeAnalysis = this.detectRegimes(returns);
+      if (Math.abs(regimeAnalysis.bullMarketProbability + regimeAnalysis.bearMarketProbability - 1) > 1e-9) {
         errors.push('Invalid regime probabilities');
       }
       
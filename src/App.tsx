@@ -1,13 +1,73 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import './App.css';
-import { DataFetcher } from './DataFetch';
+import { DataFetcher, QuoteSource } from './DataFetch';
+import { PriceImporter } from './PriceImport';
+import { CorporateActions } from './CorporateActions';
+import { SchedulerStatus } from './RateLimiter';
+import { barsPerYear, resolveRange, sliceToRange, TRADING_DAYS_PER_YEAR } from './TimeRange';
+import { EventCalendar } from './EventCalendar';
+import { Report } from './Report';
+import { Format } from './Format';
+import { fixtureFxRates } from './providers/FixtureFxRates';
+import { AssetClass } from './AssetClass';
+import { MAX_SEED, Random } from './Random';
+import { AuthError, NetworkError, PartialDataError, RateLimitError, UnknownTickerError } from './DataErrors';
 import { TechnicalAnalysis } from './TechnicalAnalysis';
-import { StockData, AnalyticsResult, AnalyticsParams, TechnicalIndicators, RecommendationAnalysis } from './types';
+import { Analytics } from './Analytics';
+import { LiveSeries, LiveSnapshot } from './LiveSeries';
+import { MOCK_QUOTE_SERVER_URL, QuoteStreamStatus } from './QuoteStream';
+import { BarInterval, CorporateAction, Dataset, PriceAdjustment, StockData, AnalyticsResult, AnalyticsParams, TechnicalIndicators, RecommendationAnalysis, WorkerMessage, WorkerResponse, GarchFit, RegimeAnalysis } from './types';
 import { VolatilityChart, MonteCarloPathsChart, DistributionChart } from './Charts';
 import { EducationalMetrics } from './EnhancedCharts';
 import { StunningHistoricalChart, StunningRecommendationsChart } from './StunningCharts';
 import { ImprovedTechnicalChart } from './ImprovedCharts';
 import { InfoIcon } from './components/Tooltip';
+import { CorporateActionsPanel } from './components/CorporateActionsPanel';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { DataSourcePanel } from './components/DataSourcePanel';
+import { FundamentalsPanel } from './components/FundamentalsPanel';
+import { EventCalendarPanel } from './components/EventCalendarPanel';
+import { RegimeOccupancyPanel } from './components/RegimeOccupancyPanel';
+import { TickerSearch } from './components/TickerSearch';
+import { CredentialsPanel } from './components/CredentialsPanel';
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.ceil(minutes / 60)} h`;
+};
+
+// Set when the active provider failed and the bars came from a fallback
+const failoverNotice = (data: StockData, providerName: (id: string) => string): string | null => {
+  const failure = data.providerFailures?.find(f => f.dataset === 'prices');
+  if (!failure || !data.sources?.prices) return null;
+  return `${providerName(failure.provider)}: ${failure.message}. Showing data from ${providerName(data.sources.prices)}.`;
+};
+
+const DATASET_LABELS: Record<Dataset, string> = {
+  prices: 'Prices',
+  fundamentals: 'Fundamentals',
+  corporateActions: 'Corporate actions',
+  earnings: 'Earnings dates'
+};
+
+// Trades arrive faster than it is worth re-rendering the charts
+const LIVE_RENDER_MS = 1000;
+
+// Fitted alpha + beta from here up means volatility shocks barely decay
+const GARCH_PERSISTENCE_WARNING = 0.98;
+// Highest alpha + beta the sliders allow, short of the non-stationary 1
+const GARCH_SLIDER_PERSISTENCE = 0.99;
+
+const QUOTE_STATUS_LABELS: Record<QuoteStreamStatus, string> = {
+  connecting: 'Connecting',
+  live: 'Live',
+  reconnecting: 'Reconnecting',
+  closed: 'Offline',
+  error: 'Quotes unavailable'
+};
 
 function App() {
   const [stockData, setStockData] = useState<StockData | null>(null);
@@ -22,7 +82,14 @@ function App() {
   const [helpOpen, setHelpOpen] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [selectedTimeline, setSelectedTimeline] = useState('1y');
+  const [selectedInterval, setSelectedInterval] = useState<BarInterval>('daily');
+  const [priceAdjustment, setPriceAdjustment] = useState<PriceAdjustment>('split');
+  const [manualActions, setManualActions] = useState<CorporateAction[]>([]);
   const [apiWarning, setApiWarning] = useState<string | null>(null);
+  const [importedFileName, setImportedFileName] = useState<string | null>(null);
+  const [importedData, setImportedData] = useState<StockData | null>(null);
+  const [cacheMessage, setCacheMessage] = useState<string | null>(null);
+  const [queueStatus, setQueueStatus] = useState<SchedulerStatus | null>(null);
   const [showIndicators, setShowIndicators] = useState({
     rsi: false,
     macd: false,
@@ -38,13 +105,47 @@ function App() {
     numPaths: 1000,
     numSteps: 252
   });
+  const [eventJumpRisk, setEventJumpRisk] = useState(true);
+  // Opt-in: regimes replace the trend drift and current volatility
+  const [regimeSwitching, setRegimeSwitching] = useState(false);
+  // Maximum-likelihood GARCH fit behind the alpha and beta sliders, if auto-fitted
+  const [garchFit, setGarchFit] = useState<GarchFit | null>(null);
+  // Blank draws a new seed for every run. The field's text only becomes the
+  // seed on blur or Enter, so typing a seed doesn't start a run per digit.
+  const [seedInput, setSeedInput] = useState('');
+  const [seedDraft, setSeedDraft] = useState('');
 
   const workerRef = useRef<Worker | null>(null);
+  // Parameters of the simulation behind analyticsResult, for exported reports
+  const analysisParamsRef = useRef<AnalyticsParams>(simulationParams);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
   const dataFetcherRef = useRef<DataFetcher>(new DataFetcher());
+  // Each fetch or import takes a new id, so data still loading for an earlier
+  // one doesn't replace what is shown
+  const fetchIdRef = useRef(0);
+  const [activeProvider, setActiveProvider] = useState(() => dataFetcherRef.current.getProvider());
+  const [providerOrder, setProviderOrder] = useState(() => dataFetcherRef.current.getProviderOrder());
+  const [activeExchange, setActiveExchange] = useState(() => dataFetcherRef.current.getExchange());
+  const [reportingCurrency, setReportingCurrency] = useState(() => dataFetcherRef.current.getReportingCurrency());
+  const [quoteSource, setQuoteSource] = useState<QuoteSource>(() => dataFetcherRef.current.getQuoteSource());
+  const [quoteUrl, setQuoteUrl] = useState(() => dataFetcherRef.current.getQuoteUrl());
+  const [quoteStatus, setQuoteStatus] = useState<QuoteStreamStatus | null>(null);
+  const [liveSnapshot, setLiveSnapshot] = useState<LiveSnapshot | null>(null);
+
+  // Surface rate-limit queueing instead of failing the request
+  useEffect(() => {
+    return dataFetcherRef.current.onQueueStatus((status) => {
+      setQueueStatus(status.queued > 0 ? status : null);
+    });
+  }, []);
+
+  const providerName = useCallback((id: string) => {
+    return dataFetcherRef.current.getProviders().find(provider => provider.id === id)?.name || id;
+  }, []);
 
   // Fetch stock data
-  const fetchData = useCallback(async (symbol: string, timeline: string = '1y') => {
-    if (!dataFetcherRef.current.hasApiKey()) {
+  const fetchData = useCallback(async (symbol: string, timeline: string = '1y', interval: BarInterval = 'daily') => {
+    if (!dataFetcherRef.current.canFetch()) {
       setError('Please set up your API key in Settings to fetch stock data');
       return;
     }
@@ -52,29 +153,109 @@ function App() {
     setLoading(true);
     setError(null);
     setApiWarning(null);
-    
+    const fetchId = ++fetchIdRef.current;
+
+    const show = (data: StockData, warning: string | null) => {
+      if (fetchId !== fetchIdRef.current) return;
+      const manual = CorporateActions.loadManual(symbol);
+      setManualActions(manual);
+      setStockData(CorporateActions.applyTo(data, manual, priceAdjustment));
+      setImportedFileName(null);
+      setImportedData(null);
+      setApiWarning(warning);
+      setLoading(false);
+    };
+    // Check for API limitations
+    const dataWarning = (data: StockData) => data.prices.length < 10
+      ? 'Limited data available. Consider upgrading to a paid API tier for more historical data.'
+      : failoverNotice(data, providerName);
+
     try {
-      const data = await dataFetcherRef.current.fetchStockData(symbol, timeline);
-      setStockData(data);
-      
-      // Check for API limitations
-      if (data.prices.length < 10) {
-        setApiWarning('Limited data available. Consider upgrading to a paid API tier for more historical data.');
+      // The chart shows as soon as the bars are in; fundamentals and earnings dates follow
+      const { data, secondary } = await dataFetcherRef.current.loadStockData(symbol, timeline, interval);
+      show(data, dataWarning(data));
+      if (secondary) {
+        const completed = await secondary;
+        show(completed, dataWarning(completed));
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch data';
-      setError(errorMessage);
-      
-      // Check for specific API errors
-      if (errorMessage.includes('rate limit') || errorMessage.includes('quota')) {
-        setApiWarning('API rate limit reached. Consider upgrading to a paid tier for higher limits.');
-      } else if (errorMessage.includes('subscription')) {
-        setApiWarning('This data requires a paid subscription. Please upgrade your API plan.');
+      if (err instanceof PartialDataError) {
+        // Price history loaded; analysis can proceed without the missing pieces
+        show(err.data, [failoverNotice(err.data, providerName), `${err.message}. Related metrics are shown as N/A.`].filter(Boolean).join(' '));
+      } else if (err instanceof RateLimitError) {
+        const wait = err.retryAfterMs !== null ? ` Try again in about ${formatDuration(err.retryAfterMs)}.` : '';
+        setError(err.message);
+        setApiWarning(`API rate limit reached.${wait} Consider upgrading to a paid tier for higher limits.`);
+      } else if (err instanceof AuthError) {
+        setError(`${err.message} Open Settings to update your API key.`);
+      } else if (err instanceof UnknownTickerError) {
+        setError(`No data found for "${err.ticker}". Check the ticker symbol and try again.`);
+      } else if (err instanceof NetworkError) {
+        setError(`${err.message} Requests were retried automatically before giving up.`);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to fetch data');
       }
+    } finally {
+      if (fetchId === fetchIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [priceAdjustment, providerName]);
+
+  // Import a local CSV/JSON price file instead of fetching from a provider
+  const importFile = useCallback(async (file: File) => {
+    setLoading(true);
+    setError(null);
+    setApiWarning(null);
+    fetchIdRef.current++;
+
+    try {
+      const text = await file.text();
+      const result = PriceImporter.parseFile(text, file.name);
+      const baseName = file.name.replace(/\.[^.]+$/, '');
+      // BTC-USD.csv names a pair, not the BTC listing
+      const symbol = AssetClass.detect(baseName) !== 'equity' ? baseName : baseName.split(/[\s_-]/)[0] || 'IMPORTED';
+      const data = await dataFetcherRef.current.toReportingCurrency(
+        PriceImporter.toStockData(result, symbol, dataFetcherRef.current.getCalendar(symbol), file.name)
+      );
+
+      // Imported files are treated as unadjusted; splits can be entered manually
+      const manual = CorporateActions.loadManual(data.ticker);
+      setTicker(data.ticker);
+      setManualActions(manual);
+      setStockData(CorporateActions.applyTo(data, manual, priceAdjustment));
+      setImportedData(data);
+      setImportedFileName(file.name);
+      setSelectedTimeline('max');
+      setSelectedInterval(data.interval || 'daily');
+      setIsAnalyzing(true);
+
+      if (result.errors.length > 0) {
+        const skipped = result.totalRows - result.prices.length;
+        const details = result.errors.slice(0, 3).map(e => `row ${e.row}: ${e.message}`).join('; ');
+        setApiWarning(`Imported ${result.prices.length} of ${result.totalRows} rows (${skipped} skipped). ${details}${result.errors.length > 3 ? '; ...' : ''}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import file');
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [priceAdjustment]);
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      importFile(file);
+    }
+    // Allow re-importing the same file after edits
+    e.target.value = '';
+  };
+
+  // Crypto and FX pairs keep their own hours; equities follow the chosen exchange
+  const exchangeCalendar = useMemo(
+    () => AssetClass.calendar(stockData?.assetType ?? 'equity', activeExchange),
+    [stockData?.assetType, activeExchange]
+  );
 
   // Calculate technical indicators
   const calculateTechnicalAnalysis = useCallback(() => {
@@ -89,14 +270,15 @@ function App() {
         stockData.prices,
         indicators,
         stockData.fundamentals,
-        stockData.currentPrice
+        stockData.currentPrice,
+        barsPerYear(stockData.interval, exchangeCalendar)
       );
       setRecommendations(recommendations);
     } catch (error) {
       console.error('Error calculating technical analysis:', error);
       setError('Failed to calculate technical indicators');
     }
-  }, [stockData]);
+  }, [stockData, exchangeCalendar]);
 
   // Calculate technical analysis when stock data changes
   useEffect(() => {
@@ -105,6 +287,91 @@ function App() {
     }
   }, [stockData, calculateTechnicalAnalysis]);
 
+  // Earnings releases inside the simulation horizon, and the size of a
+  // typical earnings-day move measured from past releases
+  const horizonEvents = useMemo(() => {
+    if (!stockData?.earnings || stockData.prices.length === 0) return [];
+    return EventCalendar.horizonEvents(
+      stockData.earnings,
+      stockData.prices[stockData.prices.length - 1].date,
+      simulationParams.numSteps,
+      exchangeCalendar,
+      stockData.interval
+    );
+  }, [stockData, simulationParams.numSteps, exchangeCalendar]);
+
+  const marketEvents = useMemo(
+    () => (stockData ? EventCalendar.events(stockData.earnings || [], stockData.corporateActions || [], stockData.currency ?? null) : []),
+    [stockData]
+  );
+
+  // Bull and bear regimes inferred from the loaded history, one per bar (the
+  // first bar takes the first return's)
+  const regimeDetection = useMemo((): { analysis: RegimeAnalysis | null; error: string | null } => {
+    if (!stockData || stockData.prices.length < 3) return { analysis: null, error: null };
+    try {
+      const elapsedBars = exchangeCalendar.barGaps(stockData.prices, stockData.interval);
+      return { analysis: Analytics.detectRegimes(Analytics.calculateReturns(stockData.prices, elapsedBars)), error: null };
+    } catch (error) {
+      return { analysis: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [stockData, exchangeCalendar]);
+  const regimeAnalysis = regimeDetection.analysis;
+  const regimeBars = regimeAnalysis ? [regimeAnalysis.regimes[0], ...regimeAnalysis.regimes] : [];
+
+  const earningsJump = useMemo(() => {
+    if (!stockData?.earnings) return null;
+    return EventCalendar.estimateJumpStdDev(stockData.prices, stockData.earnings, exchangeCalendar);
+  }, [stockData, exchangeCalendar]);
+
+  // An auto-fit describes the ticker it was fitted to
+  useEffect(() => {
+    setGarchFit(null);
+  }, [stockData]);
+
+  // Stream trades for the loaded ticker into its last candle. The loaded
+  // series, and the simulation built from it, stay as fetched; only the price,
+  // charts and indicators on screen follow the live copy.
+  useEffect(() => {
+    setLiveSnapshot(null);
+    setQuoteStatus(null);
+    if (!stockData || importedData) return;
+
+    const stream = dataFetcherRef.current.createQuoteStream();
+    if (!stream) return;
+
+    const series = new LiveSeries(stockData.ticker, stockData.prices, exchangeCalendar, stockData.interval);
+    // Trades arrive in the trading currency; restate them like the loaded bars
+    const fxRate = stockData.fx?.rate ?? 1;
+    let renderTimer: ReturnType<typeof setTimeout> | null = null;
+    const stopQuotes = stream.onQuote(quote => {
+      if (series.apply({ ...quote, price: quote.price * fxRate }) && renderTimer === null) {
+        renderTimer = setTimeout(() => {
+          renderTimer = null;
+          setLiveSnapshot(series.snapshot());
+        }, LIVE_RENDER_MS);
+      }
+    });
+    const stopStatus = stream.onStatus((status, error) => {
+      setQuoteStatus(status);
+      if (status === 'error' && error) {
+        setApiWarning(`Live quotes stopped: ${error.message}`);
+      }
+    });
+    stream.subscribe(stockData.ticker);
+    stream.connect();
+
+    return () => {
+      if (renderTimer !== null) clearTimeout(renderTimer);
+      stopQuotes();
+      stopStatus();
+      stream.close();
+    };
+  }, [stockData, importedData, exchangeCalendar, quoteSource, quoteUrl, activeProvider]);
+
+  const chartPrices = liveSnapshot?.prices ?? stockData?.prices ?? [];
+  const chartIndicators = liveSnapshot?.indicators ?? technicalIndicators;
+
   // Run Monte Carlo simulation
   const runSimulation = useCallback(async () => {
     if (!stockData) return;
@@ -116,179 +383,20 @@ function App() {
       // Calculate technical indicators first
       calculateTechnicalAnalysis();
 
-      // Create Web Worker for Monte Carlo simulation
-      const workerCode = `
-        // Simple Monte Carlo simulation for Web Worker
-        function randomNormal() {
-          const u = Math.random();
-          const v = Math.random();
-          return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
-        }
-
-        function calculateReturns(prices) {
-          if (prices.length < 2) throw new Error('Need at least 2 price points');
-          const returns = [];
-          for (let i = 1; i < prices.length; i++) {
-            if (prices[i - 1].close <= 0) throw new Error('Invalid price data');
-            returns.push(Math.log(prices[i].close / prices[i - 1].close));
-          }
-          return returns;
-        }
-
-        function calculateGARCHVolatility(returns, alpha, beta) {
-          if (returns.length === 0) throw new Error('No returns data');
-          if (alpha < 0 || beta < 0 || alpha + beta >= 1) throw new Error('Invalid GARCH parameters');
-          
-          const n = returns.length;
-          const volatilities = [];
-          const meanReturn = returns.reduce((sum, r) => sum + r, 0) / n;
-          const sampleVar = returns.reduce((sum, r) => sum + Math.pow(r - meanReturn, 2), 0) / (n - 1);
-          const omega = Math.max(sampleVar, 1e-8) * (1 - alpha - beta);
-          
-          volatilities[0] = Math.sqrt(Math.max(sampleVar, 1e-8));
-          for (let t = 1; t < n; t++) {
-            const variance = omega + alpha * Math.pow(returns[t - 1], 2) + beta * Math.pow(volatilities[t - 1], 2);
-            volatilities[t] = Math.sqrt(Math.max(Math.min(variance, 1e4), 1e-8));
-          }
-          return volatilities;
-        }
-
-        function calculateTrendAndDrift(prices, theta) {
-          if (prices.length < 2) throw new Error('Need at least 2 price points');
-          if (theta < 0 || theta > 1) throw new Error('Theta must be between 0 and 1');
-          
-          const n = prices.length;
-          const logPrices = prices.map(p => Math.log(p.close));
-          const xMean = (n - 1) / 2;
-          const yMean = logPrices.reduce((sum, y) => sum + y, 0) / n;
-          
-          let numerator = 0, denominator = 0;
-          for (let i = 0; i < n; i++) {
-            const x = i, y = logPrices[i];
-            numerator += (x - xMean) * (y - yMean);
-            denominator += Math.pow(x - xMean, 2);
-          }
-          
-          if (Math.abs(denominator) < 1e-10) {
-            return { trend: prices[n - 1].close, drift: 0 };
-          }
-          
-          const slope = numerator / denominator;
-          const trend = Math.exp(slope * n);
-          const currentPrice = prices[n - 1].close;
-          const drift = theta * (trend - currentPrice) / currentPrice;
-          return { trend, drift };
-        }
+      // Every run has a seed, shown with the results, so it can be repeated exactly
+      const seed = seedInput === '' ? Random.randomSeed() : Number(seedInput);
+      if (!Random.isSeed(seed)) {
+        throw new Error(`Seed must be a whole number up to ${MAX_SEED}`);
+      }
 
-        function runMonteCarloSimulation(initialPrice, params, initialVolatility, drift) {
-          if (initialPrice <= 0) throw new Error('Initial price must be positive');
-          if (initialVolatility <= 0) throw new Error('Initial volatility must be positive');
-          
-          const { numPaths, numSteps, alpha, beta } = params;
-          const paths = [];
-          const dt = 1 / 252;
-          const omega = initialVolatility * initialVolatility * (1 - alpha - beta);
-          
-          for (let path = 0; path < numPaths; path++) {
-            const pathPrices = [initialPrice];
-            let currentPrice = initialPrice;
-            let currentVolatility = initialVolatility;
-            
-            for (let step = 0; step < numSteps; step++) {
-              const z = randomNormal();
-              const ret = drift * dt - 0.5 * currentVolatility * currentVolatility * dt + 
-                         currentVolatility * Math.sqrt(dt) * z;
-              
-              currentPrice = currentPrice * Math.exp(ret);
-              if (currentPrice < 0.01) currentPrice = 0.01;
-              pathPrices.push(currentPrice);
-              
-              const variance = omega + alpha * Math.pow(ret, 2) + beta * Math.pow(currentVolatility, 2);
-              currentVolatility = Math.sqrt(Math.max(Math.min(variance, 1e4), 1e-8));
-            }
-            paths.push(pathPrices);
-          }
-          
-          // Calculate statistics
-          const finalPrices = paths.map(path => path[path.length - 1]);
-          const sortedPrices = finalPrices.slice().sort((a, b) => a - b);
-          
-          const upside20Count = finalPrices.filter(price => price >= initialPrice * 1.2).length;
-          const downside10Count = finalPrices.filter(price => price <= initialPrice * 0.9).length;
-          
-          const var95Index = Math.floor(0.05 * numPaths);
-          const var99Index = Math.floor(0.01 * numPaths);
-          
-          const histogram = [];
-          const minPrice = sortedPrices[0];
-          const maxPrice = sortedPrices[sortedPrices.length - 1];
-          const binSize = (maxPrice - minPrice) / 50;
-          
-          for (let i = 0; i < 50; i++) {
-            histogram.push({ bin: minPrice + i * binSize, count: 0 });
-          }
-          
-          finalPrices.forEach(price => {
-            const binIndex = Math.min(Math.floor((price - minPrice) / binSize), 49);
-            histogram[binIndex].count++;
-          });
-          
-          const percentiles = {};
-          [5, 10, 25, 50, 75, 90, 95].forEach(p => {
-            const index = Math.floor((p / 100) * (numPaths - 1));
-            percentiles['p' + p] = sortedPrices[index];
-          });
-          
-          return {
-            paths,
-            probabilities: {
-              upside20: upside20Count / numPaths,
-              downside10: downside10Count / numPaths
-            },
-            histogram,
-            percentiles,
-            var95: initialPrice - sortedPrices[var95Index],
-            var99: initialPrice - sortedPrices[var99Index],
-            expectedShortfall95: initialPrice - sortedPrices.slice(0, var95Index + 1).reduce((sum, price) => sum + price, 0) / (var95Index + 1),
-            expectedShortfall99: initialPrice - sortedPrices.slice(0, var99Index + 1).reduce((sum, price) => sum + price, 0) / (var99Index + 1),
-            currentVolatility: 0,
-            trend: 0,
-            drift: 0
-          };
-        }
+      // One module worker, created on first use, runs the shared Analytics code
+      workerRef.current ??= new Worker(new URL('./SimulationWorker.ts', import.meta.url));
 
-        self.onmessage = function(e) {
-          try {
-            const returns = calculateReturns(e.data.stockData.prices);
-            const volatilities = calculateGARCHVolatility(returns, e.data.params.alpha, e.data.params.beta);
-            const trendDrift = calculateTrendAndDrift(e.data.stockData.prices, e.data.params.theta);
-            
-            const result = runMonteCarloSimulation(
-              e.data.stockData.currentPrice,
-              e.data.params,
-              volatilities[volatilities.length - 1],
-              trendDrift.drift
-            );
-            
-            result.currentVolatility = volatilities[volatilities.length - 1];
-            result.trend = trendDrift.trend;
-            result.drift = trendDrift.drift;
-            
-            self.postMessage({ success: true, result });
-          } catch (error) {
-            self.postMessage({ success: false, error: error.message });
-          }
-        };
-      `;
-
-      const blob = new Blob([workerCode], { type: 'application/javascript' });
-      workerRef.current = new Worker(URL.createObjectURL(blob));
-
-      workerRef.current.onmessage = (e) => {
-        if (e.data.success) {
-          setAnalyticsResult(e.data.result);
+      workerRef.current.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        if (e.data.type === 'SIMULATION_COMPLETE') {
+          setAnalyticsResult(e.data.payload);
         } else {
-          setError(e.data.error);
+          setError(e.data.payload);
         }
         setLoading(false);
       };
@@ -298,16 +406,51 @@ function App() {
         setLoading(false);
       };
 
-      workerRef.current.postMessage({
-        stockData,
-        params: simulationParams
-      });
+      // Returns across missing sessions are rescaled to one bar
+      const elapsedBars = exchangeCalendar.barGaps(stockData.prices, stockData.interval);
+      // Step size follows the bar interval so intraday paths scale correctly
+      const bars = barsPerYear(stockData.interval, exchangeCalendar);
+      const params: AnalyticsParams = {
+        ...simulationParams,
+        barsPerYear: bars,
+        eventJumps: eventJumpRisk && horizonEvents.length > 0 && earningsJump !== null
+          ? { steps: horizonEvents.map(h => h.step), stdDev: earningsJump }
+          : undefined,
+        seed,
+        regimes: regimeSwitching
+          ? Analytics.estimateRegimeParams(Analytics.calculateReturns(stockData.prices, elapsedBars), bars)
+          : undefined
+      };
+      analysisParamsRef.current = params;
+
+      const message: WorkerMessage = {
+        type: 'RUN_SIMULATION',
+        payload: {
+          initialPrice: stockData.currentPrice,
+          prices: stockData.prices,
+          elapsedBars,
+          params
+        }
+      };
+      workerRef.current.postMessage(message);
 
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Simulation failed');
       setLoading(false);
     }
-  }, [stockData, simulationParams, calculateTechnicalAnalysis]);
+  }, [stockData, simulationParams, eventJumpRisk, regimeSwitching, horizonEvents, earningsJump, seedInput, exchangeCalendar, calculateTechnicalAnalysis]);
+
+  // Save the analysis, with where its data came from, as a JSON file
+  const exportReport = useCallback(() => {
+    if (!stockData) return;
+    const report = Report.build(stockData, analyticsResult, analysisParamsRef.current, recommendations);
+    const url = URL.createObjectURL(new Blob([Report.toJSON(report)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = Report.fileName(report);
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [stockData, analyticsResult, recommendations]);
 
   // Cleanup worker on unmount
   useEffect(() => {
@@ -325,8 +468,8 @@ function App() {
     }
   }, [stockData, runSimulation]);
 
-  const handleTickerChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setTicker(e.target.value.toUpperCase());
+  const handleTickerChange = (value: string) => {
+    setTicker(value.toUpperCase());
   };
 
   const handleTickerSubmit = (e: React.FormEvent) => {
@@ -334,14 +477,63 @@ function App() {
     if (ticker.trim()) {
       setIsAnalyzing(true);
       setApiWarning(null);
-      fetchData(ticker, selectedTimeline);
+      fetchData(ticker, selectedTimeline, selectedInterval);
     }
   };
 
+  // Picking an autocomplete result analyzes it straight away
+  const handleTickerSelect = (symbol: string) => {
+    setTicker(symbol);
+    setIsAnalyzing(true);
+    setApiWarning(null);
+    fetchData(symbol, selectedTimeline, selectedInterval);
+  };
+
+  const searchSymbols = useCallback(
+    (query: string) => dataFetcherRef.current.searchSymbols(query),
+    []
+  );
+
   const handleTimelineChange = (timeline: string) => {
     setSelectedTimeline(timeline);
+    if (importedData) {
+      // Imported files are windowed locally with the same trading-day ranges
+      const sliced = { ...importedData, prices: sliceToRange(importedData.prices, resolveRange(timeline, new Date(), dataFetcherRef.current.getCalendar(importedData.ticker)), importedData.interval) };
+      setStockData(CorporateActions.applyTo(sliced, manualActions, priceAdjustment));
+    } else if (stockData) {
+      fetchData(ticker, timeline, selectedInterval);
+    }
+  };
+
+  const handleIntervalChange = (interval: BarInterval) => {
+    setSelectedInterval(interval);
+    if (stockData && !importedData) {
+      fetchData(ticker, selectedTimeline, interval);
+    }
+  };
+
+  // Adjustments are re-derived from the raw bars, so no refetch is needed
+  const handleAdjustmentChange = (adjustment: PriceAdjustment) => {
+    setPriceAdjustment(adjustment);
     if (stockData) {
-      fetchData(ticker, timeline);
+      setStockData(CorporateActions.applyTo(stockData, manualActions, adjustment));
+    }
+  };
+
+  const handleManualActionsChange = (actions: CorporateAction[]) => {
+    setManualActions(actions);
+    if (stockData) {
+      CorporateActions.saveManual(stockData.ticker, actions);
+      setStockData(CorporateActions.applyTo(stockData, actions, priceAdjustment));
+    }
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await dataFetcherRef.current.clearCache();
+      setCacheMessage('Cached price history cleared.');
+    } catch (err) {
+      setCacheMessage(err instanceof Error ? `Failed to clear cache: ${err.message}` : 'Failed to clear cache');
     }
   };
 
@@ -352,6 +544,76 @@ function App() {
     }));
   };
 
+  // Moving alpha or beta pulls the other down to keep alpha + beta stationary
+  const updateGarchParam = (param: 'alpha' | 'beta', value: number) => {
+    const other = param === 'alpha' ? 'beta' : 'alpha';
+    setSimulationParams((prev: AnalyticsParams) => ({
+      ...prev,
+      [param]: value,
+      [other]: Math.min(prev[other], Number((GARCH_SLIDER_PERSISTENCE - value).toFixed(2)))
+    }));
+  };
+
+  // Fill alpha and beta with the maximum-likelihood GARCH fit to the loaded
+  // ticker, rounded for the sliders (the fit keeps alpha + beta <= 0.998, so
+  // the rounded values stay below 1)
+  const autoFitGarch = () => {
+    if (!stockData) return;
+    try {
+      const elapsedBars = exchangeCalendar.barGaps(stockData.prices, stockData.interval);
+      const fit = Analytics.fitGARCH(Analytics.calculateReturns(stockData.prices, elapsedBars));
+      setGarchFit(fit);
+      setSimulationParams((prev: AnalyticsParams) => ({
+        ...prev,
+        alpha: Number(fit.alpha.toFixed(3)),
+        beta: Number(fit.beta.toFixed(3))
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? `GARCH fit failed: ${err.message}` : 'GARCH fit failed');
+    }
+  };
+
+  // Fits on a boundary have no standard error to show
+  const standardError = (value: number, format: (se: number) => string) => (isFinite(value) ? format(value) : 'n/a');
+
+  // VaR and the simulated paths change meaning when earnings fall inside the horizon
+  const horizonEventNotice = horizonEvents.length > 0 && (
+    <div className="api-warning">
+      <div className="warning-icon">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+      </div>
+      <p className="warning-text">
+        The {simulationParams.numSteps}-bar horizon crosses earnings on{' '}
+        {horizonEvents.map(h => h.session.toISOString().split('T')[0]).join(', ')}.{' '}
+        {eventJumpRisk && earningsJump !== null
+          ? `Simulated paths include an earnings-day jump of ±${Format.percent(earningsJump)}.`
+          : 'Earnings jump risk is off, so VaR may understate the risk; enable it under Advanced Simulation in Settings.'}
+      </p>
+    </div>
+  );
+
+  // The seed behind the results on screen
+  const seedNotice = analyticsResult && (
+    <p className="text-sm text-secondary flex items-center gap-2">
+      Seed <span className="font-mono">{analyticsResult.seed}</span>
+      <InfoIcon content="Running again with this seed, on the same data and settings, reproduces these paths and risk figures exactly. The seed is saved with exported reports." />
+      {seedInput !== String(analyticsResult.seed) && (
+        <button
+          type="button"
+          className="text-accent-primary underline"
+          onClick={() => {
+            setSeedInput(String(analyticsResult.seed));
+            setSeedDraft(String(analyticsResult.seed));
+          }}
+        >
+          Keep this seed
+        </button>
+      )}
+    </p>
+  );
+
   return (
     <div className="min-h-screen">
       {/* Header */}
@@ -370,12 +632,13 @@ function App() {
             <div className="header-controls">
               {/* Ticker Input */}
               <form onSubmit={handleTickerSubmit} className="search-form">
-                <input
-                  type="text"
+                <TickerSearch
                   value={ticker}
                   onChange={handleTickerChange}
+                  onSelect={handleTickerSelect}
+                  search={searchSymbols}
                   placeholder="Enter ticker..."
-                  className="search-input"
+                  inputClassName="search-input"
                 />
                 <button
                   type="submit"
@@ -393,6 +656,25 @@ function App() {
                 </button>
               </form>
 
+              {/* Import Button */}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+                onChange={handleFileSelected}
+                style={{ display: 'none' }}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={loading}
+                className="import-button"
+                title="Import CSV/JSON price file"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+              </button>
+
               {/* Help Button */}
               <button
                 onClick={() => setHelpOpen(true)}
@@ -434,6 +716,17 @@ function App() {
             </div>
           )}
 
+          {queueStatus && (
+            <div className="queue-status">
+              <div className="loading-spinner w-4 h-4"></div>
+              <p className="queue-status-text">
+                Waiting for {dataFetcherRef.current.getProviders().find(p => p.id === queueStatus.provider)?.name || queueStatus.provider} rate limit:
+                {' '}{queueStatus.queued} request{queueStatus.queued === 1 ? '' : 's'} queued
+                {queueStatus.waitMs > 0 && `, next in ~${Math.ceil(queueStatus.waitMs / 1000)}s`}
+              </p>
+            </div>
+          )}
+
           {/* Welcome State - Centered Ticker Input */}
           {!stockData && !loading && (
             <div className="welcome-container">
@@ -448,12 +741,13 @@ function App() {
               </p>
               
               <form onSubmit={handleTickerSubmit} className="centered-search-form">
-                <input
-                  type="text"
+                <TickerSearch
                   value={ticker}
                   onChange={handleTickerChange}
-                  placeholder="Enter ticker symbol (e.g., AAPL, MSFT, TSLA)..."
-                  className="centered-search-input"
+                  onSelect={handleTickerSelect}
+                  search={searchSymbols}
+                  placeholder="Search by ticker or company name (e.g., AAPL, Microsoft)..."
+                  inputClassName="centered-search-input"
                 />
                 <button
                   type="submit"
@@ -470,6 +764,17 @@ function App() {
                   )}
                 </button>
               </form>
+              <p className="text-sm text-secondary mt-4">
+                or{' '}
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="text-accent-primary hover:underline"
+                >
+                  import a CSV/JSON price file
+                </button>
+                {' '}— no API key required
+              </p>
             </div>
           )}
 
@@ -482,68 +787,127 @@ function App() {
                   <div className="stock-ticker">
                     <h2 className="ticker-symbol">{stockData.ticker}</h2>
                     <div className="status-badge">
-                      Active
+                      {importedFileName ? 'Imported' : 'Active'}
                     </div>
+                    {quoteStatus && quoteStatus !== 'closed' && (
+                      <div className={`live-badge live-badge-${quoteStatus}`}>
+                        {QUOTE_STATUS_LABELS[quoteStatus]}
+                      </div>
+                    )}
+                    {stockData.cache && stockData.cache.status !== 'miss' && (
+                      <div
+                        className="cache-badge"
+                        title={`Fetched ${stockData.cache.fetchedAt.toLocaleString()}`}
+                      >
+                        {stockData.cache.status === 'hit' ? 'Cached' : 'Cached + updated'}
+                      </div>
+                    )}
+                    {stockData.sources?.prices && (
+                      <div
+                        className="cache-badge"
+                        title={(Object.keys(DATASET_LABELS) as Dataset[])
+                          .map(dataset => `${DATASET_LABELS[dataset]}: ${stockData.sources![dataset] ? providerName(stockData.sources![dataset]!) : 'not available'}`)
+                          .join('\n')}
+                      >
+                        via {providerName(stockData.sources.prices)}
+                      </div>
+                    )}
                   </div>
                   <p className="current-price">
-                    ${stockData.currentPrice.toFixed(2)}
+                    {Format.money(liveSnapshot?.currentPrice ?? stockData.currentPrice, stockData.currency)}
                   </p>
-                  <p className="price-label">Current Price</p>
+                  <p className="price-label">
+                    {importedFileName
+                      ? `Last close in ${importedFileName}`
+                      : liveSnapshot?.quote
+                        ? `Last trade ${liveSnapshot.quote.timestamp.toLocaleTimeString()}`
+                        : 'Current Price'}
+                  </p>
+                  {stockData.fx && (
+                    <p className="price-label" title={`Rate as of ${stockData.fx.asOf.toLocaleString()}`}>
+                      Converted from {stockData.fx.base} at {Format.number(stockData.fx.rate, 4)}
+                      {stockData.fx.source === fixtureFxRates.id ? ' (reference rate)' : ` (${providerName(stockData.fx.source)})`}
+                    </p>
+                  )}
                 </div>
                 
-                <div className="metrics-section">
-                  <h3 className="metrics-title">
-                    Valuation Metrics
-                    <InfoIcon content="Key financial ratios that help determine if a stock is overvalued or undervalued relative to its earnings, assets, and growth potential." />
-                  </h3>
-                  <div className="metrics-grid">
-                    <div className="metric-row">
-                      <span className="metric-label">P/E Ratio</span>
-                      <span className="metric-value">
-                        {stockData.fundamentals.pe?.toFixed(2) || 'N/A'}
-                      </span>
-                    </div>
-                    <div className="metric-row">
-                      <span className="metric-label">Market Cap</span>
-                      <span className="metric-value">
-                        ${(stockData.fundamentals.marketCap ? stockData.fundamentals.marketCap / 1e9 : 0).toFixed(2)}B
-                      </span>
-                    </div>
-                    <div className="metric-row">
-                      <span className="metric-label">Dividend Yield</span>
-                      <span className="metric-value">
-                        {stockData.fundamentals.dividendYield?.toFixed(2) || 'N/A'}%
-                      </span>
+                {/* Crypto and FX pairs have no valuation ratios */}
+                {AssetClass.hasFundamentals(stockData.assetType) && (
+                  <>
+                    <div className="metrics-section">
+                      <h3 className="metrics-title">
+                        Valuation Metrics
+                        <InfoIcon content="Key financial ratios that help determine if a stock is overvalued or undervalued relative to its earnings, assets, and growth potential." />
+                      </h3>
+                      <div className="metrics-grid">
+                        <div className="metric-row">
+                          <span className="metric-label">P/E Ratio</span>
+                          <span className="metric-value">
+                            {Format.number(stockData.fundamentals.pe)}
+                          </span>
+                        </div>
+                        <div className="metric-row">
+                          <span className="metric-label">Market Cap</span>
+                          <span className="metric-value">
+                            {Format.compactMoney(stockData.fundamentals.marketCap, stockData.currency)}
+                          </span>
+                        </div>
+                        <div className="metric-row">
+                          <span className="metric-label">Dividend Yield</span>
+                          <span className="metric-value">
+                            {Format.percent(stockData.fundamentals.dividendYield, 2)}
+                          </span>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </div>
 
-                <div className="metrics-section">
-                  <h3 className="metrics-title">
-                    Additional Metrics
-                    <InfoIcon content="Additional financial indicators including price-to-book ratio, PEG ratio for growth valuation, and earnings per share." />
-                  </h3>
-                  <div className="metrics-grid">
-                    <div className="metric-row">
-                      <span className="metric-label">P/B Ratio</span>
-                      <span className="metric-value">
-                        {stockData.fundamentals.pb?.toFixed(2) || 'N/A'}
-                      </span>
-                    </div>
-                    <div className="metric-row">
-                      <span className="metric-label">PEG Ratio</span>
-                      <span className="metric-value">
-                        {stockData.fundamentals.peg?.toFixed(2) || 'N/A'}
-                      </span>
-                    </div>
-                    <div className="metric-row">
-                      <span className="metric-label">EPS</span>
-                      <span className="metric-value">
-                        {stockData.fundamentals.eps?.toFixed(2) || 'N/A'}
-                      </span>
+                    <div className="metrics-section">
+                      <h3 className="metrics-title">
+                        Additional Metrics
+                        <InfoIcon content="Additional financial indicators including price-to-book ratio, PEG ratio for growth valuation, and earnings per share." />
+                      </h3>
+                      <div className="metrics-grid">
+                        <div className="metric-row">
+                          <span className="metric-label">P/B Ratio</span>
+                          <span className="metric-value">
+                            {Format.number(stockData.fundamentals.pb)}
+                          </span>
+                        </div>
+                        <div className="metric-row">
+                          <span className="metric-label">PEG Ratio</span>
+                          <span className="metric-value">
+                            {Format.number(stockData.fundamentals.peg)}
+                          </span>
+                        </div>
+                        <div className="metric-row">
+                          <span className="metric-label">EPS</span>
+                          <span className="metric-value">
+                            {Format.money(stockData.fundamentals.eps, stockData.currency)}
+                          </span>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </div>
+                  </>
+                )}
+              </div>
+
+              <div className="stock-details">
+                <CorporateActionsPanel
+                  providerActions={stockData.corporateActions || []}
+                  manualActions={manualActions}
+                  adjustment={priceAdjustment}
+                  currency={stockData.currency ?? null}
+                  onAdjustmentChange={handleAdjustmentChange}
+                  onManualActionsChange={handleManualActionsChange}
+                />
+                {stockData.quality && <DataQualityPanel report={stockData.quality} />}
+                {stockData.provenance && (
+                  <DataSourcePanel provenance={stockData.provenance} providerName={providerName} onExport={exportReport} />
+                )}
+                {!importedData && AssetClass.hasFundamentals(stockData.assetType) && (
+                  <FundamentalsPanel fundamentals={stockData.fundamentals} currency={stockData.currency ?? null} />
+                )}
+                {!importedData && AssetClass.hasFundamentals(stockData.assetType) && <EventCalendarPanel events={marketEvents} />}
               </div>
             </div>
 
@@ -665,6 +1029,28 @@ function App() {
                       </button>
                     ))}
                   </div>
+                  <h4 className="controls-title">
+                    Bar Interval
+                    <InfoIcon content="Bar size for the price history. Intraday bars make the 1 Day and 1 Week periods useful; volatility and simulations are scaled to the interval." />
+                  </h4>
+                  <div className="timeline-grid">
+                    {([
+                      { value: '1min', label: '1m' },
+                      { value: '5min', label: '5m' },
+                      { value: '15min', label: '15m' },
+                      { value: '60min', label: '1h' },
+                      { value: 'daily', label: '1D' }
+                    ] as { value: BarInterval; label: string }[]).map((interval) => (
+                      <button
+                        key={interval.value}
+                        onClick={() => handleIntervalChange(interval.value)}
+                        disabled={!!importedData}
+                        className={`timeline-button ${selectedInterval === interval.value ? 'active' : ''}`}
+                      >
+                        {interval.label}
+                      </button>
+                    ))}
+                  </div>
                 </div>
 
                 {/* API Warning */}
@@ -712,17 +1098,32 @@ function App() {
                     </div>
                     
                     <StunningHistoricalChart
-                      prices={stockData.prices}
-                      indicators={technicalIndicators || { rsi: [], macd: { macd: [], signal: [], histogram: [] }, bollingerBands: { upper: [], middle: [], lower: [] }, movingAverages: { sma20: [], sma50: [], ema12: [], ema26: [] }, volume: { volumeSMA: [], volumeRatio: [] }, supportResistance: { support: [], resistance: [] } }}
+                      prices={chartPrices}
+                      rawPrices={stockData.adjustment !== 'raw' ? stockData.rawPrices : undefined}
+                      indicators={chartIndicators || { rsi: [], macd: { macd: [], signal: [], histogram: [] }, bollingerBands: { upper: [], middle: [], lower: [] }, movingAverages: { sma20: [], sma50: [], ema12: [], ema26: [] }, volume: { volumeSMA: [], volumeRatio: [] }, supportResistance: { support: [], resistance: [] } }}
+                      events={marketEvents}
+                      regimes={regimeBars}
+                      currency={stockData.currency}
                       trend={analyticsResult.trend}
                       showIndicators={showIndicators}
                     />
+                    {regimeAnalysis && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Shaded by regime: green bull ({Format.percent(regimeAnalysis.regimeReturns.bull, 2)} a bar, volatility {Format.percent(regimeAnalysis.regimeVolatility.bull, 2)}),
+                        red bear ({Format.percent(regimeAnalysis.regimeReturns.bear, 2)} a bar, volatility {Format.percent(regimeAnalysis.regimeVolatility.bear, 2)}).
+                        Latest bar is bull with probability {Format.percent(regimeAnalysis.bullProbabilities[regimeAnalysis.bullProbabilities.length - 1])}.
+                        <InfoIcon content="A two-state hidden Markov model fitted to the log returns. Each regime has its own mean and volatility, and a bar's shading is its most likely regime given the whole history. Regimes last about as long as 1 / (1 - chance of staying), from the fitted transition matrix." />
+                      </p>
+                    )}
+                    {regimeDetection.error && (
+                      <p className="text-xs text-gray-500 mt-2">Regimes unavailable: {regimeDetection.error}</p>
+                    )}
                   </>
                 )}
-                {activeTab === 'technical' && technicalIndicators && (
+                {activeTab === 'technical' && chartIndicators && (
                   <ImprovedTechnicalChart
-                    prices={stockData.prices}
-                    indicators={technicalIndicators}
+                    prices={chartPrices}
+                    indicators={chartIndicators}
                   />
                 )}
                 {activeTab === 'recommendations' && recommendations && (
@@ -761,15 +1162,15 @@ function App() {
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                         <div className="bg-white p-4 rounded-xl border border-green-200">
                           <div className="text-sm text-green-600 font-medium">Conservative Target</div>
-                          <div className="text-xl font-bold text-green-700">${recommendations.overall.priceTargets.conservative.toFixed(2)}</div>
+                          <div className="text-xl font-bold text-green-700">{Format.money(recommendations.overall.priceTargets.conservative, stockData.currency)}</div>
                         </div>
                         <div className="bg-white p-4 rounded-xl border border-blue-200">
                           <div className="text-sm text-blue-600 font-medium">Moderate Target</div>
-                          <div className="text-xl font-bold text-blue-700">${recommendations.overall.priceTargets.moderate.toFixed(2)}</div>
+                          <div className="text-xl font-bold text-blue-700">{Format.money(recommendations.overall.priceTargets.moderate, stockData.currency)}</div>
                         </div>
                         <div className="bg-white p-4 rounded-xl border border-purple-200">
                           <div className="text-sm text-purple-600 font-medium">Aggressive Target</div>
-                          <div className="text-xl font-bold text-purple-700">${recommendations.overall.priceTargets.aggressive.toFixed(2)}</div>
+                          <div className="text-xl font-bold text-purple-700">{Format.money(recommendations.overall.priceTargets.aggressive, stockData.currency)}</div>
                         </div>
                       </div>
                     </div>
@@ -854,14 +1255,17 @@ function App() {
                     fundamentals={stockData.fundamentals}
                     recommendations={recommendations}
                     currentPrice={stockData.currentPrice}
+                    barsPerYear={barsPerYear(stockData.interval, exchangeCalendar)}
+                    hasFundamentals={AssetClass.hasFundamentals(stockData.assetType)}
                   />
                 )}
                 {activeTab === 'volatility' && (
                   <VolatilityChart
                     prices={stockData.prices}
                     volatilities={[]} // TODO: Calculate volatilities
-                    regimes={[]} // TODO: Calculate regimes
+                    regimes={regimeBars}
                     isDarkMode={false}
+                    currency={stockData.currency}
                   />
                 )}
                 {activeTab === 'monte-carlo' && (
@@ -899,11 +1303,23 @@ function App() {
                       </div>
                     </div>
                     
+                    {horizonEventNotice}
+                    {seedNotice}
+
                     <MonteCarloPathsChart
                       paths={analyticsResult.paths}
                       initialPrice={stockData.currentPrice}
                       isDarkMode={false}
+                      currency={stockData.currency}
                     />
+
+                    {analyticsResult.regimeOccupancy && analysisParamsRef.current.regimes && (
+                      <RegimeOccupancyPanel
+                        occupancy={analyticsResult.regimeOccupancy}
+                        regimes={analysisParamsRef.current.regimes}
+                        barsPerYear={analysisParamsRef.current.barsPerYear ?? TRADING_DAYS_PER_YEAR}
+                      />
+                    )}
                   </div>
                 )}
                 {activeTab === 'distribution' && (
@@ -911,6 +1327,7 @@ function App() {
                     histogram={analyticsResult.histogram}
                     initialPrice={stockData.currentPrice}
                     isDarkMode={false}
+                    currency={stockData.currency}
                   />
                 )}
                 {activeTab === 'metrics' && (
@@ -919,14 +1336,16 @@ function App() {
                       Risk Analysis
                       <InfoIcon content="Risk metrics help quantify the potential losses and gains. VaR shows maximum expected loss, while probability metrics show the likelihood of significant price movements." />
                     </h3>
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                    {horizonEventNotice}
+                    {seedNotice}
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-6">
                       <div className="metric-card border-red-200 bg-red-50">
                         <h4 className="text-sm font-medium text-red-700 mb-2 flex items-center gap-1">
                           VaR (95%)
                           <InfoIcon content="Value at Risk: 95% confidence that losses won't exceed this amount in a given time period." />
                         </h4>
                         <p className="metric-value text-red-700">
-                          ${analyticsResult.var95.toFixed(2)}
+                          {Format.money(analyticsResult.var95, stockData.currency)}
                         </p>
                         <p className="metric-label text-red-600">Maximum Expected Loss</p>
                       </div>
@@ -936,17 +1355,37 @@ function App() {
                           <InfoIcon content="Extreme Value at Risk: 99% confidence level for worst-case scenario losses." />
                         </h4>
                         <p className="metric-value text-orange-700">
-                          ${analyticsResult.var99.toFixed(2)}
+                          {Format.money(analyticsResult.var99, stockData.currency)}
                         </p>
                         <p className="metric-label text-orange-600">Extreme Risk</p>
                       </div>
+                      <div className="metric-card border-red-200 bg-red-50">
+                        <h4 className="text-sm font-medium text-red-700 mb-2 flex items-center gap-1">
+                          Expected Shortfall (95%)
+                          <InfoIcon content="Average loss in the worst 5% of simulated outcomes, i.e. how bad losses are once they exceed VaR (95%)." />
+                        </h4>
+                        <p className="metric-value text-red-700">
+                          {Format.money(analyticsResult.expectedShortfall95, stockData.currency)}
+                        </p>
+                        <p className="metric-label text-red-600">Average Tail Loss</p>
+                      </div>
+                      <div className="metric-card border-orange-200 bg-orange-50">
+                        <h4 className="text-sm font-medium text-orange-700 mb-2 flex items-center gap-1">
+                          Expected Shortfall (99%)
+                          <InfoIcon content="Average loss in the worst 1% of simulated outcomes." />
+                        </h4>
+                        <p className="metric-value text-orange-700">
+                          {Format.money(analyticsResult.expectedShortfall99, stockData.currency)}
+                        </p>
+                        <p className="metric-label text-orange-600">Extreme Tail Loss</p>
+                      </div>
                       <div className="metric-card border-green-200 bg-green-50">
                         <h4 className="text-sm font-medium text-green-700 mb-2 flex items-center gap-1">
                           Upside 20%
                           <InfoIcon content="Probability of the stock gaining 20% or more from current price." />
                         </h4>
                         <p className="metric-value text-green-700">
-                          {(analyticsResult.probabilities.upside20 * 100).toFixed(1)}%
+                          {Format.percent(analyticsResult.probabilities.upside20)}
                         </p>
                         <p className="metric-label text-green-600">Growth Probability</p>
                       </div>
@@ -956,7 +1395,7 @@ function App() {
                           <InfoIcon content="Probability of the stock losing 10% or more from current price." />
                         </h4>
                         <p className="metric-value text-blue-700">
-                          {(analyticsResult.probabilities.downside10 * 100).toFixed(1)}%
+                          {Format.percent(analyticsResult.probabilities.downside10)}
                         </p>
                         <p className="metric-label text-blue-600">Decline Probability</p>
                       </div>
@@ -1031,41 +1470,133 @@ function App() {
                   <div className="space-y-4">
                     <div>
                       <label className="block text-sm font-medium text-primary mb-2">
-                        Alpha Vantage API Key
+                        Data Provider
                       </label>
-                      <input
-                        type="password"
-                        placeholder="Enter your Alpha Vantage API key"
+                      <select
+                        value={activeProvider}
+                        onChange={(e) => {
+                          dataFetcherRef.current.setProvider(e.target.value);
+                          setActiveProvider(e.target.value);
+                          setProviderOrder(dataFetcherRef.current.getProviderOrder());
+                        }}
                         className="w-full px-4 py-3 bg-secondary border border-light rounded-xl focus:outline-none focus:ring-2 focus:ring-accent-primary focus:border-transparent transition-colors"
+                      >
+                        {dataFetcherRef.current.getProviders().map((provider) => (
+                          <option key={provider.id} value={provider.id}>{provider.name}</option>
+                        ))}
+                      </select>
+                      {dataFetcherRef.current.getProviders().length > 1 && (
+                        <div className="mt-2 space-y-1">
+                          <span className="block text-xs text-secondary">Fall back to, in order, when {providerName(activeProvider)} fails:</span>
+                          {dataFetcherRef.current.getProviders()
+                            .filter(provider => provider.id !== activeProvider)
+                            .map(provider => (
+                              <label key={provider.id} className="flex items-center gap-2 text-sm text-primary">
+                                <input
+                                  type="checkbox"
+                                  checked={providerOrder.includes(provider.id)}
+                                  onChange={(e) => {
+                                    const order = e.target.checked
+                                      ? [...providerOrder, provider.id]
+                                      : providerOrder.filter(id => id !== provider.id);
+                                    dataFetcherRef.current.setProviderOrder(order);
+                                    setProviderOrder(dataFetcherRef.current.getProviderOrder());
+                                  }}
+                                />
+                                {provider.name}
+                              </label>
+                            ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-primary mb-2">
+                        Exchange Calendar
+                      </label>
+                      <select
+                        value={activeExchange}
                         onChange={(e) => {
-                          if (e.target.value) {
-                            dataFetcherRef.current.setApiKey(e.target.value, 'alphavantage');
-                          }
+                          dataFetcherRef.current.setExchange(e.target.value);
+                          setActiveExchange(e.target.value);
                         }}
-                      />
+                        className="w-full px-4 py-3 bg-secondary border border-light rounded-xl focus:outline-none focus:ring-2 focus:ring-accent-primary focus:border-transparent transition-colors"
+                      >
+                        {AssetClass.exchanges().map((calendar) => (
+                          <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+                        ))}
+                      </select>
                       <p className="text-xs text-tertiary mt-1">
-                        Get your free API key at <a href="https://www.alphavantage.co" target="_blank" rel="noopener noreferrer" className="text-accent-primary hover:underline">alphavantage.co</a>
+                        Sets trading days, holidays and early closes used for time windows and gap detection. Crypto and FX pairs keep their own 24/7 and 24/5 calendars.
                       </p>
                     </div>
 
                     <div>
                       <label className="block text-sm font-medium text-primary mb-2">
-                        Polygon API Key
+                        Reporting Currency
                       </label>
-                      <input
-                        type="password"
-                        placeholder="Enter your Polygon API key"
+                      <select
+                        value={reportingCurrency || ''}
+                        onChange={(e) => {
+                          const currency = e.target.value || null;
+                          dataFetcherRef.current.setReportingCurrency(currency);
+                          setReportingCurrency(currency);
+                        }}
                         className="w-full px-4 py-3 bg-secondary border border-light rounded-xl focus:outline-none focus:ring-2 focus:ring-accent-primary focus:border-transparent transition-colors"
+                      >
+                        <option value="">Trading currency (no conversion)</option>
+                        {fixtureFxRates.currencies().map((currency) => (
+                          <option key={currency} value={currency}>{currency}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-tertiary mt-1">
+                        Converts prices, fundamentals, VaR and expected shortfall at the latest rate from a provider that offers FX, or bundled reference rates as of {fixtureFxRates.asOf.toLocaleDateString(undefined, { timeZone: 'UTC' })}. Applies to the next ticker you load.
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-primary mb-2">
+                        Live Quotes
+                      </label>
+                      <select
+                        value={quoteSource}
                         onChange={(e) => {
-                          if (e.target.value) {
-                            dataFetcherRef.current.setApiKey(e.target.value, 'polygon');
-                          }
+                          const source = e.target.value as QuoteSource;
+                          dataFetcherRef.current.setQuoteSource(source);
+                          setQuoteSource(source);
                         }}
-                      />
+                        className="w-full px-4 py-3 bg-secondary border border-light rounded-xl focus:outline-none focus:ring-2 focus:ring-accent-primary focus:border-transparent transition-colors"
+                      >
+                        <option value="off">Off</option>
+                        {dataFetcherRef.current.getProviders()
+                          .filter(provider => provider.id === activeProvider)
+                          .map(provider => (
+                            <option key={provider.id} value="provider" disabled={!provider.capabilities.streaming}>
+                              {provider.name} stream{provider.capabilities.streaming ? '' : ' (not available)'}
+                            </option>
+                          ))}
+                        <option value="custom">Custom WebSocket</option>
+                      </select>
+                      {quoteSource === 'custom' && (
+                        <input
+                          type="text"
+                          defaultValue={quoteUrl}
+                          placeholder={MOCK_QUOTE_SERVER_URL}
+                          // Reconnect once editing is done, not on every keystroke
+                          onBlur={(e) => {
+                            const url = e.target.value.trim() || MOCK_QUOTE_SERVER_URL;
+                            dataFetcherRef.current.setQuoteSource('custom', url);
+                            setQuoteUrl(url);
+                          }}
+                          className="w-full mt-2 px-4 py-3 bg-secondary border border-light rounded-xl focus:outline-none focus:ring-2 focus:ring-accent-primary focus:border-transparent transition-colors"
+                        />
+                      )}
                       <p className="text-xs text-tertiary mt-1">
-                        Get your free API key at <a href="https://polygon.io" target="_blank" rel="noopener noreferrer" className="text-accent-primary hover:underline">polygon.io</a>
+                        Moves the price, the last candle and the indicators as trades arrive. Run <code>npm run mock-quotes</code> for an offline test feed at {MOCK_QUOTE_SERVER_URL}.
                       </p>
                     </div>
+
+                    <CredentialsPanel fetcher={dataFetcherRef.current} />
                   </div>
                 </div>
 
@@ -1077,6 +1608,36 @@ function App() {
                   </p>
                   
                   <div className="space-y-4">
+                    <div>
+                      <button
+                        type="button"
+                        onClick={autoFitGarch}
+                        disabled={!stockData}
+                        className="w-full px-4 py-3 text-center text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 rounded-xl transition-colors"
+                      >
+                        Auto-fit α and β{stockData ? ` to ${stockData.ticker}` : ''}
+                      </button>
+                      {garchFit && (
+                        <div className="text-xs text-tertiary mt-2 space-y-1">
+                          <p>
+                            α = {Format.number(garchFit.alpha, 3)} ± {standardError(garchFit.standardErrors.alpha, se => Format.number(se, 3))},
+                            β = {Format.number(garchFit.beta, 3)} ± {standardError(garchFit.standardErrors.beta, se => Format.number(se, 3))},
+                            ω = {garchFit.omega.toExponential(2)} ± {standardError(garchFit.standardErrors.omega, se => se.toExponential(1))}
+                          </p>
+                          <p>
+                            Log-likelihood {Format.number(garchFit.logLikelihood, 1)} · long-run volatility {Format.percent(garchFit.longRunVolatility, 2)} a bar
+                          </p>
+                          {garchFit.persistence >= GARCH_PERSISTENCE_WARNING && (
+                            <p className="text-amber-700">
+                              Persistence α + β = {Format.number(garchFit.persistence, 3)} is close to 1: a volatility shock takes
+                              about {Math.round(Math.log(0.5) / Math.log(garchFit.persistence))} bars to halve, so simulated volatility
+                              can stay far from its long-run level. This often means a break in the history rather than true persistence.
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
                     <div>
                       <label className="block text-sm font-medium text-primary mb-2 flex items-center gap-2">
                         Alpha (α): {simulationParams.alpha}
@@ -1084,11 +1645,11 @@ function App() {
                       </label>
                       <input
                         type="range"
-                        min="0.01"
-                        max="0.3"
+                        min="0"
+                        max="0.99"
                         step="0.01"
                         value={simulationParams.alpha}
-                        onChange={(e) => updateSimulationParam('alpha', parseFloat(e.target.value))}
+                        onChange={(e) => updateGarchParam('alpha', parseFloat(e.target.value))}
                         className="w-full bg-secondary border border-light rounded-lg"
                       />
                       <p className="text-xs text-tertiary mt-1">
@@ -1103,11 +1664,11 @@ function App() {
                       </label>
                       <input
                         type="range"
-                        min="0.5"
-                        max="0.95"
+                        min="0"
+                        max="0.99"
                         step="0.01"
                         value={simulationParams.beta}
-                        onChange={(e) => updateSimulationParam('beta', parseFloat(e.target.value))}
+                        onChange={(e) => updateGarchParam('beta', parseFloat(e.target.value))}
                         className="w-full bg-secondary border border-light rounded-lg"
                       />
                       <p className="text-xs text-tertiary mt-1">
@@ -1136,8 +1697,8 @@ function App() {
 
                     <div>
                       <label className="block text-sm font-medium text-primary mb-2 flex items-center gap-2">
-                        Regime Switch: {(simulationParams.switchProb * 100).toFixed(1)}%
-                        <InfoIcon content="Probability of switching between bull and bear market regimes. Higher values create more dramatic market shifts." />
+                        Regime Switch: {Format.percent(simulationParams.switchProb)}
+                        <InfoIcon content="Chance per bar that a simulated path leaves its bull or bear regime. Each regime has its own drift and volatility, measured from the loaded history." />
                       </label>
                       <input
                         type="range"
@@ -1151,6 +1712,20 @@ function App() {
                       <p className="text-xs text-tertiary mt-1">
                         Market regime change probability
                       </p>
+                      <label className="flex items-center space-x-3 mt-2">
+                        <input
+                          type="checkbox"
+                          checked={regimeSwitching}
+                          onChange={(e) => setRegimeSwitching(e.target.checked)}
+                          className="w-4 h-4 text-accent-primary rounded focus:ring-accent-primary"
+                        />
+                        <span className="text-sm font-medium text-primary">Regime switching</span>
+                      </label>
+                      <p className="text-xs text-tertiary mt-1">
+                        {regimeSwitching
+                          ? 'Paths switch between bull and bear drift and volatility'
+                          : 'One regime: the trend drift and current volatility'}
+                      </p>
                     </div>
 
                     <div>
@@ -1171,6 +1746,48 @@ function App() {
                         More paths = more accurate results (slower computation)
                       </p>
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-primary mb-2 flex items-center gap-2">
+                        Random Seed
+                        <InfoIcon content="Fixes the random numbers behind the simulated paths, so two people running the same ticker with the same settings get identical VaR figures." />
+                      </label>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={seedDraft}
+                        onChange={(e) => setSeedDraft(e.target.value.replace(/[^0-9]/g, ''))}
+                        onBlur={() => setSeedInput(seedDraft)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') setSeedInput(seedDraft);
+                        }}
+                        placeholder="New seed each run"
+                        className="w-full px-4 py-3 bg-secondary border border-light rounded-xl focus:outline-none focus:ring-2 focus:ring-accent-primary focus:border-transparent transition-colors"
+                      />
+                      <p className="text-xs text-tertiary mt-1">
+                        Leave blank for a new seed each run; press Enter to apply
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="flex items-center space-x-3">
+                        <input
+                          type="checkbox"
+                          checked={eventJumpRisk}
+                          onChange={(e) => setEventJumpRisk(e.target.checked)}
+                          className="w-4 h-4 text-accent-primary rounded focus:ring-accent-primary"
+                        />
+                        <span className="text-sm font-medium text-primary flex items-center gap-2">
+                          Earnings jump risk
+                          <InfoIcon content="Adds a one-off price jump on each earnings date inside the simulation horizon, sized from how much this stock has moved on past earnings days." />
+                        </span>
+                      </label>
+                      <p className="text-xs text-tertiary mt-1">
+                        {earningsJump !== null
+                          ? `Typical earnings-day move: ±${Format.percent(earningsJump)}`
+                          : 'Needs earnings dates from the data provider'}
+                      </p>
+                    </div>
                   </div>
                 </div>
 
@@ -1197,9 +1814,15 @@ function App() {
                 <div className="space-y-4">
                   <h3 className="text-lg font-semibold text-primary">Data Management</h3>
                   <div className="space-y-3">
-                    <button className="w-full px-4 py-3 text-center text-sm font-bold bg-red-500 text-white hover:bg-red-600 rounded-xl transition-colors">
+                    <button
+                      onClick={handleClearCache}
+                      className="w-full px-4 py-3 text-center text-sm font-bold bg-red-500 text-white hover:bg-red-600 rounded-xl transition-colors"
+                    >
                       Clear all cached data
                     </button>
+                    {cacheMessage && (
+                      <p className="text-xs text-tertiary">{cacheMessage}</p>
+                    )}
                     <button className="w-full px-4 py-3 text-center text-sm font-bold bg-red-500 text-white hover:bg-red-600 rounded-xl transition-colors">
                       Clear API keys
                     </button>
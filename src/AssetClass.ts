@@ -0,0 +1,62 @@
+// src/AssetClass.ts
+import { AssetType } from './types';
+import { getCalendar, listCalendars, TradingCalendar } from './TradingCalendar';
+import { SymbolDirectory } from './SymbolDirectory';
+import { fixtureFxRates } from './providers/FixtureFxRates';
+
+export interface AssetPair {
+  base: string;
+  quote: string;
+}
+
+// Coins recognised as the base of a pair such as BTC-USD or ETH/EUR
+const CRYPTO_ASSETS = new Set([
+  'BTC', 'ETH', 'SOL', 'XRP', 'ADA', 'DOGE', 'LTC', 'BCH', 'DOT', 'AVAX',
+  'LINK', 'MATIC', 'TRX', 'XLM', 'ATOM', 'UNI', 'ETC', 'USDT', 'USDC', 'BNB'
+]);
+
+// calendar: null follows the exchange chosen in Settings
+export const ASSET_TYPES: Record<AssetType, { label: string; calendar: string | null; fundamentals: boolean }> = {
+  equity: { label: 'stock', calendar: null, fundamentals: true },
+  crypto: { label: 'crypto', calendar: 'CRYPTO', fundamentals: false },
+  fx: { label: 'FX', calendar: 'FX', fundamentals: false }
+};
+
+export class AssetClass {
+  // Base and quote of a pair ticker: BTC-USD, EUR/USD or EURUSD=X
+  static pair(ticker: string): AssetPair | null {
+    const symbol = ticker.trim().toUpperCase();
+    const match = /^([A-Z0-9]{2,10})[-/]([A-Z]{3,4})$/.exec(symbol) || /^([A-Z]{3})([A-Z]{3})=X$/.exec(symbol);
+    return match ? { base: match[1], quote: match[2] } : null;
+  }
+
+  // Tickers that are not recognisable pairs are equities, including class
+  // shares written with a dash (BRK-B)
+  static detect(ticker: string): AssetType {
+    const pair = this.pair(ticker);
+    if (!pair) return 'equity';
+    if (CRYPTO_ASSETS.has(pair.base)) return 'crypto';
+    const fiat = fixtureFxRates.currencies();
+    return fiat.includes(pair.base) && fiat.includes(pair.quote) ? 'fx' : 'equity';
+  }
+
+  static calendar(assetType: AssetType, exchange: string): TradingCalendar {
+    return getCalendar(ASSET_TYPES[assetType].calendar ?? exchange);
+  }
+
+  // Calendars an equity can be listed on, without the around-the-clock ones
+  static exchanges(): TradingCalendar[] {
+    const assetCalendars = Object.values(ASSET_TYPES).map(type => type.calendar);
+    return listCalendars().filter(calendar => !assetCalendars.includes(calendar.id));
+  }
+
+  static hasFundamentals(assetType: AssetType = 'equity'): boolean {
+    return ASSET_TYPES[assetType].fundamentals;
+  }
+
+  // Pairs are priced in their quote currency; listings in their bundled one
+  static currency(ticker: string): string | null {
+    const pair = this.detect(ticker) === 'equity' ? null : this.pair(ticker);
+    return pair ? pair.quote : SymbolDirectory.lookup(ticker)?.currency ?? null;
+  }
+}
@@ -3,6 +3,9 @@ import React, { useEffect, useRef } from 'react';
 import { PricePoint } from './DataFetch';
 import { PerformanceMetrics, StressTestResult, RegimeAnalysis } from './types';
 
+// Axis title naming the currency of the values, when it is known
+const amountTitle = (title: string, currency?: string | null) => (currency ? `${title} (${currency})` : title);
+
 // Declare Plotly as global
 declare global {
   interface Window {
@@ -14,9 +17,10 @@ interface HistoricalChartProps {
   prices: PricePoint[];
   trend: number;
   isDarkMode: boolean;
+  currency?: string | null;
 }
 
-export const HistoricalChart: React.FC<HistoricalChartProps> = ({ prices, trend, isDarkMode }) => {
+export const HistoricalChart: React.FC<HistoricalChartProps> = ({ prices, trend, isDarkMode, currency }) => {
   const chartRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -58,14 +62,14 @@ export const HistoricalChart: React.FC<HistoricalChartProps> = ({ prices, trend,
     const layout = {
       title: 'Historical Price with Trend',
       xaxis: { title: 'Date' },
-      yaxis: { title: 'Price ($)' },
+      yaxis: { title: amountTitle('Price', currency) },
       paper_bgcolor: isDarkMode ? '#1a1a1a' : 'white',
       plot_bgcolor: isDarkMode ? '#2d2d2d' : 'white',
       font: { color: isDarkMode ? 'white' : 'black' }
     };
 
     window.Plotly.newPlot(chartRef.current, [candlestickTrace, trendTrace], layout);
-  }, [prices, trend, isDarkMode]);
+  }, [prices, trend, isDarkMode, currency]);
 
   return <div ref={chartRef} className="w-full h-96" />;
 };
@@ -75,10 +79,11 @@ interface VolatilityChartProps {
   volatilities: number[];
   regimes: number[];
   isDarkMode: boolean;
+  currency?: string | null;
 }
 
 export const VolatilityChart: React.FC<VolatilityChartProps> = ({ 
-  prices, volatilities, regimes, isDarkMode 
+  prices, volatilities, regimes, isDarkMode, currency 
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
 
@@ -147,7 +152,7 @@ export const VolatilityChart: React.FC<VolatilityChartProps> = ({
     const layout = {
       title: 'Price with Rolling Volatility and Regime Detection',
       xaxis: { title: 'Date' },
-      yaxis: { title: 'Price ($)', side: 'left' },
+      yaxis: { title: amountTitle('Price', currency), side: 'left' },
       yaxis2: {
         title: 'Volatility (%)',
         overlaying: 'y',
@@ -160,7 +165,7 @@ export const VolatilityChart: React.FC<VolatilityChartProps> = ({
     };
 
     window.Plotly.newPlot(chartRef.current, [priceTrace, volatilityTrace], layout);
-  }, [prices, volatilities, regimes, isDarkMode]);
+  }, [prices, volatilities, regimes, isDarkMode, currency]);
 
   return <div ref={chartRef} className="w-full h-96" />;
 };
@@ -169,10 +174,11 @@ interface MonteCarloPathsProps {
   paths: number[][];
   initialPrice: number;
   isDarkMode: boolean;
+  currency?: string | null;
 }
 
 export const MonteCarloPathsChart: React.FC<MonteCarloPathsProps> = ({ 
-  paths, initialPrice, isDarkMode 
+  paths, initialPrice, isDarkMode, currency 
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
 
@@ -215,14 +221,14 @@ export const MonteCarloPathsChart: React.FC<MonteCarloPathsProps> = ({
     const layout = {
       title: 'Monte Carlo Price Paths (50 sample paths)',
       xaxis: { title: 'Days' },
-      yaxis: { title: 'Price ($)' },
+      yaxis: { title: amountTitle('Price', currency) },
       paper_bgcolor: isDarkMode ? '#1a1a1a' : 'white',
       plot_bgcolor: isDarkMode ? '#2d2d2d' : 'white',
       font: { color: isDarkMode ? 'white' : 'black' }
     };
 
     window.Plotly.newPlot(chartRef.current, [...traces, upsideLine, downsideLine], layout);
-  }, [paths, initialPrice, isDarkMode]);
+  }, [paths, initialPrice, isDarkMode, currency]);
 
   return <div ref={chartRef} className="w-full h-96" />;
 };
@@ -231,10 +237,11 @@ interface DistributionChartProps {
   histogram: { bin: number; count: number; }[];
   initialPrice: number;
   isDarkMode: boolean;
+  currency?: string | null;
 }
 
 export const DistributionChart: React.FC<DistributionChartProps> = ({ 
-  histogram, initialPrice, isDarkMode 
+  histogram, initialPrice, isDarkMode, currency 
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
 
@@ -269,7 +276,7 @@ export const DistributionChart: React.FC<DistributionChartProps> = ({
 
     const layout = {
       title: 'Distribution of Final Prices',
-      xaxis: { title: 'Price ($)' },
+      xaxis: { title: amountTitle('Price', currency) },
       yaxis: { title: 'Frequency' },
       paper_bgcolor: isDarkMode ? '#1a1a1a' : 'white',
       plot_bgcolor: isDarkMode ? '#2d2d2d' : 'white',
@@ -277,7 +284,7 @@ export const DistributionChart: React.FC<DistributionChartProps> = ({
     };
 
     window.Plotly.newPlot(chartRef.current, [histogramTrace, upsideLine, downsideLine], layout);
-  }, [histogram, initialPrice, isDarkMode]);
+  }, [histogram, initialPrice, isDarkMode, currency]);
 
   return <div ref={chartRef} className="w-full h-96" />;
 };
@@ -335,10 +342,11 @@ export const PerformanceMetricsChart: React.FC<PerformanceMetricsChartProps> = (
 interface StressTestChartProps {
   results: StressTestResult[];
   isDarkMode: boolean;
+  currency?: string | null;
 }
 
 export const StressTestChart: React.FC<StressTestChartProps> = ({ 
-  results, isDarkMode 
+  results, isDarkMode, currency 
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
 
@@ -368,7 +376,7 @@ export const StressTestChart: React.FC<StressTestChartProps> = ({
     const layout = {
       title: 'Stress Test Results',
       xaxis: { title: 'Scenario' },
-      yaxis: { title: 'Value at Risk ($)' },
+      yaxis: { title: amountTitle('Value at Risk', currency) },
       barmode: 'group',
       paper_bgcolor: isDarkMode ? '#1a1a1a' : 'white',
       plot_bgcolor: isDarkMode ? '#2d2d2d' : 'white',
@@ -376,7 +384,7 @@ export const StressTestChart: React.FC<StressTestChartProps> = ({
     };
 
     window.Plotly.newPlot(chartRef.current, [var95Trace, var99Trace], layout);
-  }, [results, isDarkMode]);
+  }, [results, isDarkMode, currency]);
 
   return <div ref={chartRef} className="w-full h-96" />;
 };
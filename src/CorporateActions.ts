@@ -0,0 +1,131 @@
+// src/CorporateActions.ts
+import { CorporateAction, PriceAdjustment, PricePoint, StockData } from './types';
+
+const MANUAL_STORAGE_PREFIX = 'finance-corporate-actions:';
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+export class CorporateActions {
+  // Back-adjust raw bars so that returns across corporate actions are real
+  // price moves. The latest bar is left unchanged.
+  static adjust(prices: PricePoint[], actions: CorporateAction[], mode: PriceAdjustment): PricePoint[] {
+    if (mode === 'raw' || prices.length === 0) return prices;
+
+    const splitFactors = this.splitFactors(prices, actions);
+    const dividendFactors = mode === 'total'
+      ? this.dividendFactors(prices, actions)
+      : prices.map(() => 1);
+
+    return prices.map((bar, i) => {
+      const priceFactor = dividendFactors[i] / splitFactors[i];
+      return {
+        ...bar,
+        open: bar.open * priceFactor,
+        high: bar.high * priceFactor,
+        low: bar.low * priceFactor,
+        close: bar.close * priceFactor,
+        volume: bar.volume * splitFactors[i]
+      };
+    });
+  }
+
+  // Reverse a provider's split adjustment to recover the prices as traded
+  static unadjustSplits(prices: PricePoint[], actions: CorporateAction[]): PricePoint[] {
+    const splitFactors = this.splitFactors(prices, actions);
+    return prices.map((bar, i) => ({
+      ...bar,
+      open: bar.open * splitFactors[i],
+      high: bar.high * splitFactors[i],
+      low: bar.low * splitFactors[i],
+      close: bar.close * splitFactors[i],
+      volume: bar.volume / splitFactors[i]
+    }));
+  }
+
+  // Re-derive `prices` from the raw bars with provider and manual events
+  static applyTo(data: StockData, manual: CorporateAction[], mode: PriceAdjustment): StockData {
+    const rawPrices = data.rawPrices || data.prices;
+    const actions = this.merge(data.corporateActions || [], manual);
+    return {
+      ...data,
+      rawPrices,
+      prices: this.adjust(rawPrices, actions, mode),
+      adjustment: mode,
+      provenance: data.provenance && { ...data.provenance, adjustment: mode }
+    };
+  }
+
+  // Combine event lists; a manual event replaces a provider event of the
+  // same type on the same day
+  static merge(provider: CorporateAction[], manual: CorporateAction[]): CorporateAction[] {
+    const byKey = new Map<string, CorporateAction>();
+    [...provider, ...manual].forEach(action => byKey.set(`${action.type}:${dayKey(action.date)}`, action));
+    return Array.from(byKey.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  static loadManual(ticker: string): CorporateAction[] {
+    try {
+      const stored = localStorage.getItem(MANUAL_STORAGE_PREFIX + ticker.toUpperCase());
+      if (!stored) return [];
+      return (JSON.parse(stored) as any[])
+        .map(action => ({ ...action, date: new Date(action.date), source: 'manual' as const }))
+        .filter(action => this.isValid(action));
+    } catch {
+      return [];
+    }
+  }
+
+  static saveManual(ticker: string, actions: CorporateAction[]): void {
+    const key = MANUAL_STORAGE_PREFIX + ticker.toUpperCase();
+    if (actions.length === 0) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(actions.map(action => ({ ...action, date: dayKey(action.date) }))));
+    }
+  }
+
+  static isValid(action: CorporateAction): boolean {
+    return !isNaN(action.date.getTime())
+      && (action.type === 'split' || action.type === 'dividend')
+      && isFinite(action.value)
+      && action.value > 0;
+  }
+
+  // Cumulative ratio of every split taking effect after each bar's session
+  private static splitFactors(prices: PricePoint[], actions: CorporateAction[]): number[] {
+    // Splits after the last bar (e.g. announced but not yet effective) don't apply yet
+    const lastDay = prices.length > 0 ? dayKey(prices[prices.length - 1].date) : '';
+    const splits = actions.filter(a => a.type === 'split' && a.value > 0 && dayKey(a.date) <= lastDay);
+    return prices.map(bar => {
+      const day = dayKey(bar.date);
+      return splits
+        .filter(split => dayKey(split.date) > day)
+        .reduce((factor, split) => factor * split.value, 1);
+    });
+  }
+
+  // Each dividend scales earlier bars by (1 - D / close before the ex-date),
+  // using the raw close so dividend and price are on the same share basis
+  private static dividendFactors(prices: PricePoint[], actions: CorporateAction[]): number[] {
+    const factors = prices.map(() => 1);
+
+    actions
+      .filter(a => a.type === 'dividend' && a.value > 0)
+      .forEach(dividend => {
+        const exDay = dayKey(dividend.date);
+        let last = -1;
+        for (let i = 0; i < prices.length && dayKey(prices[i].date) < exDay; i++) {
+          last = i;
+        }
+        // Dividends outside the series, or larger than the price, are ignored
+        if (last === -1 || last === prices.length - 1 || dividend.value >= prices[last].close) return;
+
+        const factor = 1 - dividend.value / prices[last].close;
+        for (let i = 0; i <= last; i++) {
+          factors[i] *= factor;
+        }
+      });
+
+    return factors;
+  }
+}
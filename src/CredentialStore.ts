@@ -0,0 +1,192 @@
+// src/CredentialStore.ts
+import { ApiProvider } from './types';
+
+// Keys for the current tab, readable without the passphrase
+const SESSION_KEY = 'finance-api-keys';
+// Keys remembered across sessions, encrypted with the user's passphrase
+const VAULT_KEY = 'finance-credentials';
+// Earlier versions kept one key, for whichever provider was active
+const LEGACY_KEY = 'finance-api-key';
+const LEGACY_PROVIDER = 'finance-api-provider';
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+
+interface Vault {
+  salt: string;
+  iv: string;
+  data: string; // AES-GCM ciphertext of the provider → key map
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode.apply(null, Array.from(bytes)));
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+// One API key per provider. Keys live in sessionStorage for the tab; with a
+// passphrase they are also kept, AES-GCM encrypted, in localStorage and
+// restored by unlocking with the same passphrase.
+export class CredentialStore {
+  private keys = new Map<ApiProvider, string>();
+  // Derived from the passphrase once unlocked; every change re-encrypts the vault
+  private vaultKey: CryptoKey | null = null;
+  private salt: Uint8Array | null = null;
+
+  constructor(
+    private crypto: Crypto | undefined = typeof window !== 'undefined' ? window.crypto : undefined,
+    private iterations: number = PBKDF2_ITERATIONS
+  ) {
+    try {
+      Object.entries(JSON.parse(sessionStorage.getItem(SESSION_KEY) || '{}'))
+        .forEach(([provider, key]) => typeof key === 'string' && this.keys.set(provider, key));
+    } catch {
+      // A corrupt entry just means re-entering the keys
+    }
+
+    const legacyKey = sessionStorage.getItem(LEGACY_KEY);
+    if (legacyKey) {
+      const provider = sessionStorage.getItem(LEGACY_PROVIDER);
+      if (provider && !this.keys.has(provider)) {
+        this.keys.set(provider, legacyKey);
+        this.writeSession();
+      }
+      sessionStorage.removeItem(LEGACY_KEY);
+    }
+  }
+
+  get(provider: ApiProvider): string | null {
+    return this.keys.get(provider) || null;
+  }
+
+  has(provider: ApiProvider): boolean {
+    return this.keys.has(provider);
+  }
+
+  providers(): ApiProvider[] {
+    return Array.from(this.keys.keys());
+  }
+
+  // An empty key removes the entry
+  async set(provider: ApiProvider, key: string): Promise<void> {
+    const trimmed = key.trim();
+    if (trimmed) {
+      this.keys.set(provider, trimmed);
+    } else {
+      this.keys.delete(provider);
+    }
+    await this.save();
+  }
+
+  async remove(provider: ApiProvider): Promise<void> {
+    this.keys.delete(provider);
+    await this.save();
+  }
+
+  // Drop every key, including the encrypted copy
+  clear(): void {
+    this.keys.clear();
+    this.forget();
+    this.writeSession();
+  }
+
+  isEncryptionSupported(): boolean {
+    return !!this.crypto?.subtle;
+  }
+
+  // Keys were remembered on this device, in this session or an earlier one
+  hasVault(): boolean {
+    return localStorage.getItem(VAULT_KEY) !== null;
+  }
+
+  // Remembered keys exist but the passphrase has not been entered this session
+  isLocked(): boolean {
+    return this.hasVault() && !this.vaultKey;
+  }
+
+  // Encrypt the current keys into localStorage under a new passphrase
+  async remember(passphrase: string): Promise<void> {
+    if (!passphrase) {
+      throw new Error('A passphrase is required to remember keys');
+    }
+    const salt = this.webCrypto().getRandomValues(new Uint8Array(16));
+    this.vaultKey = await this.deriveKey(passphrase, salt);
+    this.salt = salt;
+    await this.writeVault();
+  }
+
+  // Restore remembered keys. Keys entered this session win over stored ones.
+  async unlock(passphrase: string): Promise<void> {
+    const stored = localStorage.getItem(VAULT_KEY);
+    if (!stored) {
+      throw new Error('No remembered keys on this device');
+    }
+
+    const vault: Vault = JSON.parse(stored);
+    const salt = fromBase64(vault.salt);
+    const key = await this.deriveKey(passphrase, salt);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await this.webCrypto().subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+        key,
+        fromBase64(vault.data)
+      );
+    } catch {
+      // AES-GCM authentication fails for any other passphrase
+      throw new Error('Wrong passphrase');
+    }
+
+    const remembered: Record<ApiProvider, string> = JSON.parse(new TextDecoder().decode(plaintext));
+    Object.entries(remembered).forEach(([provider, value]) => {
+      if (!this.keys.has(provider)) this.keys.set(provider, value);
+    });
+    this.vaultKey = key;
+    this.salt = salt;
+    await this.save();
+  }
+
+  // Delete the encrypted copy; keys stay available for this session
+  forget(): void {
+    this.vaultKey = null;
+    this.salt = null;
+    localStorage.removeItem(VAULT_KEY);
+  }
+
+  private async save(): Promise<void> {
+    this.writeSession();
+    if (this.vaultKey) {
+      await this.writeVault();
+    }
+  }
+
+  private writeSession(): void {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(Object.fromEntries(this.keys)));
+  }
+
+  private async writeVault(): Promise<void> {
+    // A fresh IV for every encryption under the same key
+    const iv = this.webCrypto().getRandomValues(new Uint8Array(12));
+    const plaintext = new TextEncoder().encode(JSON.stringify(Object.fromEntries(this.keys)));
+    const ciphertext = await this.webCrypto().subtle.encrypt({ name: 'AES-GCM', iv }, this.vaultKey!, plaintext);
+    const vault: Vault = { salt: toBase64(this.salt!), iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+    localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+    const subtle = this.webCrypto().subtle;
+    const material = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: this.iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private webCrypto(): Crypto {
+    if (!this.crypto?.subtle) {
+      throw new Error('Encrypted storage needs a browser with WebCrypto (HTTPS or localhost)');
+    }
+    return this.crypto;
+  }
+}
@@ -0,0 +1,88 @@
+// src/Currency.ts
+import { FinancialStatement, FxRate, PricePoint, StockData } from './types';
+
+// Listings quoted in a minor unit (London in pence) convert through the
+// major currency. Case matters: GBp is pence, GBP is pounds.
+const MINOR_UNITS: Record<string, { major: string; per: number }> = {
+  GBX: { major: 'GBP', per: 100 },
+  GBp: { major: 'GBP', per: 100 },
+  ZAC: { major: 'ZAR', per: 100 },
+  ILA: { major: 'ILS', per: 100 }
+};
+
+export class Currency {
+  static isCode(code: string): boolean {
+    return /^[A-Z]{3}$/.test(code) || code in MINOR_UNITS;
+  }
+
+  static isMinorUnit(code: string): boolean {
+    return code in MINOR_UNITS;
+  }
+
+  // The currency to request rates for, and how many of `code` make one of it
+  static major(code: string): { currency: string; per: number } {
+    const minor = MINOR_UNITS[code];
+    return minor ? { currency: minor.major, per: minor.per } : { currency: code, per: 1 };
+  }
+
+  // Restate every monetary figure at one rate. Returns, ratios, volumes and
+  // share counts are unchanged, so the analysis is the same in any currency.
+  static convert(data: StockData, fx: FxRate): StockData {
+    const { rate } = fx;
+    const scale = (value: number | null) => (value === null ? null : value * rate);
+    const bars = (prices: PricePoint[]) => prices.map(bar => ({
+      ...bar,
+      open: bar.open * rate,
+      high: bar.high * rate,
+      low: bar.low * rate,
+      close: bar.close * rate
+    }));
+    const statement = (s: FinancialStatement): FinancialStatement => ({
+      ...s,
+      revenue: scale(s.revenue),
+      grossProfit: scale(s.grossProfit),
+      operatingIncome: scale(s.operatingIncome),
+      netIncome: scale(s.netIncome),
+      eps: scale(s.eps),
+      totalAssets: scale(s.totalAssets),
+      totalLiabilities: scale(s.totalLiabilities),
+      shareholderEquity: scale(s.shareholderEquity),
+      totalDebt: scale(s.totalDebt),
+      operatingCashFlow: scale(s.operatingCashFlow),
+      capitalExpenditures: scale(s.capitalExpenditures),
+      freeCashFlow: scale(s.freeCashFlow)
+    });
+    const { fundamentals } = data;
+
+    return {
+      ...data,
+      currentPrice: data.currentPrice * rate,
+      prices: bars(data.prices),
+      rawPrices: data.rawPrices && bars(data.rawPrices),
+      corporateActions: data.corporateActions?.map(action =>
+        action.type === 'dividend' ? { ...action, value: action.value * rate } : action
+      ),
+      earnings: data.earnings?.map(event => ({
+        ...event,
+        epsEstimate: scale(event.epsEstimate),
+        epsActual: scale(event.epsActual)
+      })),
+      fundamentals: {
+        ...fundamentals,
+        marketCap: scale(fundamentals.marketCap),
+        eps: scale(fundamentals.eps),
+        revenue: scale(fundamentals.revenue),
+        freeCashFlow: scale(fundamentals.freeCashFlow),
+        forwardEps: scale(fundamentals.forwardEps),
+        targetPrice: scale(fundamentals.targetPrice),
+        history: {
+          quarterly: fundamentals.history.quarterly.map(statement),
+          annual: fundamentals.history.annual.map(statement)
+        },
+        currency: fx.quote
+      },
+      currency: fx.quote,
+      fx
+    };
+  }
+}
@@ -0,0 +1,143 @@
+// src/DataErrors.ts
+import { ApiProvider, StockData } from './types';
+
+export interface DataFetchErrorOptions {
+  provider?: ApiProvider;
+  retryAfterMs?: number | null;
+  cause?: unknown;
+}
+
+// Base class for every error surfaced by DataFetcher. `retryable` marks
+// transient failures that withRetry() may attempt again.
+export class DataFetchError extends Error {
+  readonly retryable: boolean = false;
+  readonly provider: ApiProvider | undefined;
+  readonly retryAfterMs: number | null;
+  readonly cause: unknown;
+
+  constructor(message: string, options: DataFetchErrorOptions = {}) {
+    super(message);
+    // Keep instanceof working when classes are transpiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.provider = options.provider;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+    this.cause = options.cause;
+  }
+}
+
+export class RateLimitError extends DataFetchError {
+  readonly retryable: boolean = true;
+}
+
+// The provider's daily quota is spent: nothing succeeds until it resets, so
+// retrying only wastes requests. retryAfterMs is the time until the reset.
+export class QuotaExceededError extends RateLimitError {
+  readonly retryable: boolean = false;
+}
+
+export class AuthError extends DataFetchError {}
+
+export class UnknownTickerError extends DataFetchError {
+  constructor(readonly ticker: string, message?: string, options: DataFetchErrorOptions = {}) {
+    super(message || `Unknown ticker symbol: ${ticker}`, options);
+  }
+}
+
+export class NetworkError extends DataFetchError {
+  readonly retryable = true;
+}
+
+// Price history loaded but some secondary data (e.g. fundamentals) did not.
+// `data` holds everything that was fetched successfully.
+export class PartialDataError extends DataFetchError {
+  constructor(
+    readonly data: StockData,
+    readonly missing: string[],
+    options: DataFetchErrorOptions = {}
+  ) {
+    super(`Some data could not be loaded: ${missing.join(', ')}`, options);
+  }
+}
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  onRetry?: (error: DataFetchError, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// Daily quotas reset at midnight UTC
+export function msUntilUtcMidnight(now: number = Date.now()): number {
+  const current = new Date(now);
+  return Date.UTC(current.getUTCFullYear(), current.getUTCMonth(), current.getUTCDate() + 1) - now;
+}
+
+export function isRetryable(error: unknown): error is DataFetchError {
+  return error instanceof DataFetchError && error.retryable;
+}
+
+// Exponential backoff with full jitter; a server-provided retry-after wins
+// when it is longer than the computed delay.
+export function backoffDelay(attempt: number, options: RetryOptions, retryAfterMs: number | null = null): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt - 1));
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> {
+  const resolved = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= resolved.maxAttempts) {
+        throw error;
+      }
+      // Waiting longer than the backoff ceiling is better left to the user
+      if (error.retryAfterMs !== null && error.retryAfterMs > resolved.maxDelayMs) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt, resolved, error.retryAfterMs);
+      resolved.onRetry?.(error, attempt, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Map an HTTP response status onto the error hierarchy (null when OK)
+export function errorFromResponse(response: Response, provider?: ApiProvider): DataFetchError | null {
+  if (response.ok) return null;
+
+  if (response.status === 429) {
+    const header = response.headers?.get('Retry-After');
+    const seconds = header ? parseFloat(header) : NaN;
+    // Without a hint, the retry waits on the provider's request scheduler,
+    // which is drained when a rate-limited request is retried
+    return new RateLimitError('Rate limit exceeded. Please wait and try again.', {
+      provider,
+      retryAfterMs: isFinite(seconds) ? seconds * 1000 : null
+    });
+  }
+  if (response.status === 401 || response.status === 403) {
+    return new AuthError('The API key was rejected. Check your key in Settings.', { provider });
+  }
+  if (response.status === 404) {
+    // Let the provider decide; some return 404 for unknown tickers with a JSON body
+    return null;
+  }
+  if (response.status >= 500) {
+    return new NetworkError(`Provider returned HTTP ${response.status}`, { provider });
+  }
+  return null;
+}
@@ -1,250 +1,810 @@
 // src/DataFetch.ts
-export type ApiProvider = 'alphavantage' | 'polygon';
-
-export interface PricePoint {
-  date: Date;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
+import {
+  ApiProvider,
+  BarInterval,
+  CacheInfo,
+  CorporateAction,
+  Dataset,
+  DataSources,
+  EarningsEvent,
+  FieldAvailability,
+  Fundamentals,
+  FxRate,
+  MarketDataProvider,
+  PricePoint,
+  ProviderCapabilities,
+  ProviderFailure,
+  ScheduledFetch,
+  StockData,
+  SymbolMatch
+} from './types';
+import { providerRegistry, ProviderRegistry } from './providers';
+import { fixtureFxRates } from './providers/FixtureFxRates';
+import { CacheEntry, PriceCache } from './PriceCache';
+import { CorporateActions } from './CorporateActions';
+import { PriceValidator } from './PriceValidation';
+import { FundamentalAnalysis } from './FundamentalAnalysis';
+import { DEFAULT_EXCHANGE, getCalendar, TradingCalendar } from './TradingCalendar';
+import { isIntraday, resolveRange, sliceToRange } from './TimeRange';
+import { ProviderQuota, RequestScheduler, SchedulerListener } from './RateLimiter';
+import { CredentialStore } from './CredentialStore';
+import { SymbolDirectory } from './SymbolDirectory';
+import { AssetClass, ASSET_TYPES } from './AssetClass';
+import { Provenance } from './Provenance';
+import { Currency } from './Currency';
+import { genericQuoteProtocol, MOCK_QUOTE_SERVER_URL, QuoteStream } from './QuoteStream';
+import {
+  AuthError,
+  DataFetchError,
+  NetworkError,
+  PartialDataError,
+  QuotaExceededError,
+  RateLimitError,
+  RetryOptions,
+  errorFromResponse,
+  withRetry
+} from './DataErrors';
+
+export type { ApiProvider, PricePoint, Fundamentals, StockData } from './types';
+
+const DEFAULT_PROVIDER: ApiProvider = 'alphavantage';
+
+// Requests left today below which a provider is no longer asked for
+// fundamentals, corporate actions or earnings: a ticker costs Alpha Vantage
+// up to 8 of them, against one for its price history
+export const SECONDARY_QUOTA_RESERVE = 10;
+
+export type BatchItemResult =
+  | { ticker: string; status: 'fulfilled'; data: StockData; warning?: string }
+  | { ticker: string; status: 'rejected'; error: DataFetchError };
+
+// Bars first. Secondary datasets the cache doesn't have load afterwards:
+// `secondary` then settles with the completed data, or rejects with a
+// PartialDataError when some of it failed.
+export interface StockDataLoad {
+  data: StockData;
+  secondary: Promise<StockData> | null;
 }
 
-export interface Fundamentals {
-  pe: number | null;
-  pb: number | null;
-  peg: number | null;
-  dividendYield: number | null;
-  marketCap: number | null;
-  eps: number | null;
+export interface BatchResult {
+  // One entry per requested ticker, in request order
+  results: BatchItemResult[];
+  // Successful series restricted to the timestamps they all share
+  aligned: AlignedPrices;
 }
 
-export interface StockData {
-  ticker: string;
-  currentPrice: number;
-  prices: PricePoint[];
-  fundamentals: Fundamentals;
+export interface AlignedPrices {
+  dates: Date[];
+  prices: Record<string, PricePoint[]>;
 }
 
+export interface BatchOptions {
+  // Tickers in flight at once; provider rate limits still apply on top
+  concurrency: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  concurrency: 4
+};
+
+// Where live quotes come from: the active provider's stream, or a WebSocket
+// speaking the generic protocol (the local mock server by default)
+export type QuoteSource = 'off' | 'provider' | 'custom';
+
+// A secondary dataset as served by the provider order. A failed one keeps
+// fetchedAt 0 so the next fetch asks again.
+interface DatasetResult<T> {
+  value: T | null;
+  source: ApiProvider | null;
+  error: unknown;
+  fetchedAt: number;
+}
+
+// The datasets loaded after the bars
+type SecondaryResults = [DatasetResult<Fundamentals>, DatasetResult<EarningsEvent[]>];
+
 export class DataFetcher {
-  private apiKey: string | null = null;
-  private provider: ApiProvider = 'alphavantage';
+  private provider: ApiProvider;
+  private schedulers = new Map<ApiProvider, RequestScheduler>();
+  private queueListeners = new Set<SchedulerListener>();
+  private symbolSearches = new Map<string, Promise<SymbolMatch[]>>();
+  private fxRates = new Map<string, Promise<FxRate>>();
+  // Fundamentals and earnings dates loading in the background, by provider
+  // and ticker, so other timelines and repeat fetches wait for them instead
+  // of asking again
+  private secondaryLoads = new Map<string, Promise<SecondaryResults>>();
+
+  constructor(
+    private registry: ProviderRegistry = providerRegistry,
+    private cache: PriceCache | null = new PriceCache(),
+    private retryOptions: Partial<RetryOptions> = {},
+    private credentials: CredentialStore = new CredentialStore()
+  ) {
+    const saved = sessionStorage.getItem('finance-api-provider');
+    this.provider = saved && registry.has(saved) ? saved : DEFAULT_PROVIDER;
+  }
 
-  constructor() {
-    this.apiKey = sessionStorage.getItem('finance-api-key');
+  // Each provider keeps its own key; setting one doesn't change the active provider
+  setApiKey(key: string, provider: ApiProvider): Promise<void> {
+    this.registry.get(provider); // throws for unregistered providers
+    return this.credentials.set(provider, key);
   }
 
-  setApiKey(key: string, provider: ApiProvider) {
-    this.apiKey = key;
+  setProvider(provider: ApiProvider) {
+    this.registry.get(provider); // throws for unregistered providers
     this.provider = provider;
-    sessionStorage.setItem('finance-api-key', key);
     sessionStorage.setItem('finance-api-provider', provider);
   }
 
-  clearApiKey() {
-    this.apiKey = null;
-    sessionStorage.removeItem('finance-api-key');
-    sessionStorage.removeItem('finance-api-provider');
+  // One provider's key; the other keys, and the saved copy of them, stay
+  clearApiKey(provider: ApiProvider): Promise<void> {
+    return this.credentials.remove(provider);
+  }
+
+  hasApiKey(provider: ApiProvider = this.getProvider()): boolean {
+    return this.credentials.has(provider);
   }
 
-  hasApiKey(): boolean {
-    return !!this.apiKey;
+  getCredentials(): CredentialStore {
+    return this.credentials;
   }
 
-  async fetchStockData(ticker: string, timeline: string = '1y'): Promise<StockData> {
-    if (!this.apiKey) {
-      throw new Error('API key not set');
+  getProvider(): ApiProvider {
+    return this.provider;
+  }
+
+  // The active provider followed by the fallbacks tried, in turn, when it
+  // fails. Switching the active provider keeps the fallbacks.
+  setProviderOrder(order: ApiProvider[]) {
+    const ids = Array.from(new Set(order));
+    if (ids.length === 0) {
+      throw new Error('The provider order needs at least one provider');
+    }
+    ids.forEach(id => this.registry.get(id)); // throws for unregistered providers
+    this.setProvider(ids[0]);
+    sessionStorage.setItem('finance-provider-fallbacks', JSON.stringify(ids.slice(1)));
+  }
+
+  getProviderOrder(): ApiProvider[] {
+    const primary = this.getProvider();
+    let fallbacks: ApiProvider[] = [];
+    try {
+      fallbacks = JSON.parse(sessionStorage.getItem('finance-provider-fallbacks') || '[]');
+    } catch {
+      // A corrupt setting just means no fallbacks
     }
+    return [primary, ...fallbacks.filter(id => id !== primary && this.registry.has(id))];
+  }
+
+  // Exchange whose trading calendar defines sessions, holidays and gaps
+  setExchange(id: string) {
+    getCalendar(id); // throws for unknown exchanges
+    sessionStorage.setItem('finance-exchange', id);
+  }
 
-    const provider = sessionStorage.getItem('finance-api-provider') as ApiProvider || 'alphavantage';
-    
-    if (provider === 'alphavantage') {
-      return this.fetchFromAlphaVantage(ticker, timeline);
-    } else {
-      return this.fetchFromPolygon(ticker, timeline);
+  getExchange(): string {
+    return sessionStorage.getItem('finance-exchange') || DEFAULT_EXCHANGE;
+  }
+
+  // Crypto and FX pairs keep their own hours; equities follow the exchange
+  getCalendar(ticker?: string): TradingCalendar {
+    return ticker ? AssetClass.calendar(AssetClass.detect(ticker), this.getExchange()) : getCalendar(this.getExchange());
+  }
+
+  // Currency fetched data is converted into; null keeps each ticker in the
+  // currency it trades in
+  setReportingCurrency(currency: string | null) {
+    if (currency === null) {
+      sessionStorage.removeItem('finance-reporting-currency');
+      return;
+    }
+    if (!Currency.isCode(currency)) {
+      throw new Error(`Unknown currency: ${currency}`);
     }
+    sessionStorage.setItem('finance-reporting-currency', currency);
   }
 
-  private async fetchFromAlphaVantage(ticker: string, timeline: string = '1y'): Promise<StockData> {
-    const timeSeriesUrl = `https://www.alphavantage.co/query?function=TIME_SERIES_DAILY&symbol=${ticker}&apikey=${this.apiKey}&outputsize=full`;
-    const overviewUrl = `https://www.alphavantage.co/query?function=OVERVIEW&symbol=${ticker}&apikey=${this.apiKey}`;
+  getReportingCurrency(): string | null {
+    return sessionStorage.getItem('finance-reporting-currency');
+  }
+
+  // Units of `quote` per unit of `base`, from the first provider in the order
+  // that quotes currencies, else the bundled reference rates. Rates are kept
+  // for the session; failed lookups are retried next time.
+  fetchFxRate(base: string, quote: string): Promise<FxRate> {
+    const key = `${base}/${quote}`;
+    let rate = this.fxRates.get(key);
+    if (!rate) {
+      rate = this.requestFxRate(base, quote);
+      this.fxRates.set(key, rate);
+      rate.catch(() => this.fxRates.delete(key));
+    }
+    return rate;
+  }
 
+  // Restate data in the reporting currency. Data in an unknown currency, or
+  // one with no rate from any source, is returned as it is.
+  async toReportingCurrency(data: StockData): Promise<StockData> {
+    const target = this.getReportingCurrency();
+    if (!target || !data.currency || data.currency === target) {
+      return data;
+    }
     try {
-      const [timeSeriesResponse, overviewResponse] = await Promise.all([
-        fetch(timeSeriesUrl),
-        fetch(overviewUrl)
-      ]);
+      return Currency.convert(data, await this.fetchFxRate(data.currency, target));
+    } catch {
+      return data;
+    }
+  }
 
-      const timeSeriesData = await timeSeriesResponse.json();
-      const overviewData = await overviewResponse.json();
+  setQuoteSource(source: QuoteSource, url?: string) {
+    sessionStorage.setItem('finance-quote-source', source);
+    if (url !== undefined) {
+      sessionStorage.setItem('finance-quote-url', url);
+    }
+  }
 
-      if (timeSeriesData.Note) {
-        throw new Error('Rate limit exceeded. Please wait and try again.');
-      }
+  getQuoteSource(): QuoteSource {
+    return (sessionStorage.getItem('finance-quote-source') as QuoteSource | null) || 'off';
+  }
 
-      if (timeSeriesData.Error) {
-        throw new Error(timeSeriesData.Error);
-      }
+  getQuoteUrl(): string {
+    return sessionStorage.getItem('finance-quote-url') || MOCK_QUOTE_SERVER_URL;
+  }
 
-      const timeSeries = timeSeriesData['Time Series (Daily)'];
-      if (!timeSeries) {
-        throw new Error('Invalid ticker symbol or no data available');
-      }
+  // A live quote stream for the current settings, not yet connected. Null
+  // when quotes are off or the provider has no stream for these credentials.
+  createQuoteStream(): QuoteStream | null {
+    const source = this.getQuoteSource();
+    if (source === 'custom') {
+      return new QuoteStream(genericQuoteProtocol(this.getQuoteUrl()));
+    }
+    if (source === 'provider') {
+      const provider = this.firstCapable('streaming');
+      return provider ? new QuoteStream(provider.quoteStream(this.apiKeyFor(provider.id))) : null;
+    }
+    return null;
+  }
 
-      const dates = Object.keys(timeSeries).sort();
-      const prices = dates.map(date => ({
-        date: new Date(date),
-        open: parseFloat(timeSeries[date]['1. open']),
-        high: parseFloat(timeSeries[date]['2. high']),
-        low: parseFloat(timeSeries[date]['3. low']),
-        close: parseFloat(timeSeries[date]['4. close']),
-        volume: parseInt(timeSeries[date]['5. volume'])
-      }));
+  getProviders(): MarketDataProvider[] {
+    return this.registry.list();
+  }
 
-      const latestPrice = prices[prices.length - 1]?.close || 0;
+  // True when some provider in the order can be queried with the current credentials
+  canFetch(): boolean {
+    return this.getProviderOrder().some(id => this.isConfigured(this.registry.get(id)));
+  }
 
-      return {
-        ticker,
-        currentPrice: latestPrice,
-        prices,
-        fundamentals: {
-          pe: parseFloat(overviewData.PERatio) || null,
-          pb: parseFloat(overviewData.PriceToBookRatio) || null,
-          peg: parseFloat(overviewData.PEGRatio) || null,
-          dividendYield: parseFloat(overviewData.DividendYield) || null,
-          marketCap: parseFloat(overviewData.MarketCapitalization) || null,
-          eps: parseFloat(overviewData.EPS) || null
-        }
-      };
+  // One scheduler per provider, created lazily from its advertised rate limit
+  getScheduler(id: ApiProvider): RequestScheduler {
+    let scheduler = this.schedulers.get(id);
+    if (!scheduler) {
+      scheduler = new RequestScheduler(id, this.registry.get(id).rateLimit);
+      this.queueListeners.forEach(listener => scheduler!.subscribe(listener));
+      this.schedulers.set(id, scheduler);
+    }
+    return scheduler;
+  }
+
+  // Requests left before the provider's per-minute and daily limits, as tracked locally
+  getQuota(id: ApiProvider): ProviderQuota {
+    return this.getScheduler(id).getQuota();
+  }
+
+  // Check a key (the stored one by default) with one request to the provider
+  async testConnection(id: ApiProvider, key: string | null = this.apiKeyFor(id)): Promise<void> {
+    const provider = this.registry.get(id);
+    if (provider.capabilities.requiresApiKey && !key) {
+      throw new AuthError('API key not set', { provider: id });
+    }
+    try {
+      await provider.testConnection({ apiKey: key, fetch: this.scheduledFetch(id) });
     } catch (error) {
-      if (error instanceof Error) {
+      if (error instanceof DataFetchError) {
         throw error;
       }
-      throw new Error('Failed to fetch stock data');
+      throw new DataFetchError(error instanceof Error ? error.message : `Could not reach ${provider.name}`, { provider: id, cause: error });
     }
   }
 
-  private async fetchFromPolygon(ticker: string, timeline: string = '1y'): Promise<StockData> {
-    const endDate = new Date().toISOString().split('T')[0];
-    
-    // Calculate start date based on timeline
-    let daysBack: number;
-    switch (timeline) {
-      case '1d':
-        daysBack = 1;
-        break;
-      case '1w':
-        daysBack = 7;
-        break;
-      case '1m':
-        daysBack = 30;
-        break;
-      case '6m':
-        daysBack = 180;
-        break;
-      case '1y':
-        daysBack = 365;
-        break;
-      case '2y':
-        daysBack = 730;
-        break;
-      case '5y':
-        daysBack = 1825;
-        break;
-      case 'max':
-        daysBack = 3650; // 10 years max
-        break;
-      default:
-        daysBack = 365;
-    }
-    
-    const startDate = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    
-    const aggregatesUrl = `https://api.polygon.io/v2/aggs/ticker/${ticker}/range/1/day/${startDate}/${endDate}?adjusted=true&sort=asc&limit=50000&apikey=${this.apiKey}`;
-    const tickerDetailsUrl = `https://api.polygon.io/v3/reference/tickers/${ticker}?apikey=${this.apiKey}`;
-    const financialsUrl = `https://api.polygon.io/v2/reference/financials/${ticker}?apikey=${this.apiKey}`;
-
-    try {
-      const [aggregatesResponse, tickerDetailsResponse, financialsResponse] = await Promise.all([
-        fetch(aggregatesUrl),
-        fetch(tickerDetailsUrl),
-        fetch(financialsUrl)
-      ]);
+  // Receive queued/waiting updates from every provider's scheduler
+  onQueueStatus(listener: SchedulerListener): () => void {
+    this.queueListeners.add(listener);
+    const unsubscribers = Array.from(this.schedulers.values()).map(s => s.subscribe(listener));
+    return () => {
+      this.queueListeners.delete(listener);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }
 
-      const aggregatesData = await aggregatesResponse.json();
-      const tickerDetailsData = await tickerDetailsResponse.json();
-      const financialsData = await financialsResponse.json();
+  // Everything for a ticker, once the secondary datasets have loaded too
+  async fetchStockData(ticker: string, timeline: string = '1y', interval: BarInterval = 'daily'): Promise<StockData> {
+    const { data, secondary } = await this.loadStockData(ticker, timeline, interval);
+    return secondary || data;
+  }
 
-      if (aggregatesData.status === 'ERROR') {
-        throw new Error(aggregatesData.error || 'API error');
+  // Bars come from the first provider in the order that serves them; each
+  // failure is recorded and the next provider tried. When all of them fail,
+  // the active provider's error is the one reported.
+  async loadStockData(ticker: string, timeline: string = '1y', interval: BarInterval = 'daily'): Promise<StockDataLoad> {
+    const chain = this.getProviderOrder().map(id => this.registry.get(id));
+    const failures: ProviderFailure[] = [];
+    let primaryError: DataFetchError | null = null;
+
+    for (let i = 0; i < chain.length; i++) {
+      try {
+        return await this.fetchFromProvider(chain.slice(i), ticker, timeline, interval, failures);
+      } catch (error) {
+        // The bars loaded; only secondary data is missing
+        if (error instanceof PartialDataError) {
+          throw error;
+        }
+        const failure = error as DataFetchError;
+        primaryError = primaryError || failure;
+        failures.push({ provider: chain[i].id, dataset: 'prices', message: failure.message });
       }
+    }
+    throw primaryError;
+  }
 
-      if (!aggregatesData.results || aggregatesData.results.length === 0) {
-        throw new Error('No data available for this ticker');
+  // Fetch several tickers through the same cache, scheduler and retry path
+  // as fetchStockData. A failing ticker is reported, not thrown.
+  async fetchBatch(
+    tickers: string[],
+    timeline: string = '1y',
+    interval: BarInterval = 'daily',
+    options: Partial<BatchOptions> = {}
+  ): Promise<BatchResult> {
+    const resolved = { ...DEFAULT_BATCH_OPTIONS, ...options };
+    const symbols = Array.from(new Set(tickers.map(t => t.trim().toUpperCase()).filter(Boolean)));
+    const results: BatchItemResult[] = new Array(symbols.length);
+    let next = 0;
+    let completed = 0;
+
+    const worker = async () => {
+      while (next < symbols.length) {
+        const index = next++;
+        const ticker = symbols[index];
+        try {
+          results[index] = { ticker, status: 'fulfilled', data: await this.fetchStockData(ticker, timeline, interval) };
+        } catch (error) {
+          results[index] = error instanceof PartialDataError
+            ? { ticker, status: 'fulfilled', data: error.data, warning: error.message }
+            : {
+              ticker,
+              status: 'rejected',
+              error: error instanceof DataFetchError ? error : new DataFetchError(String(error), { cause: error })
+            };
+        }
+        completed++;
+        resolved.onProgress?.(completed, symbols.length);
       }
+    };
 
-      const prices = aggregatesData.results.map((result: any) => ({
-        date: new Date(result.t),
-        open: result.o,
-        high: result.h,
-        low: result.l,
-        close: result.c,
-        volume: result.v
-      }));
+    const workers = Math.max(1, Math.min(resolved.concurrency, symbols.length));
+    await Promise.all(Array.from({ length: workers }, worker));
 
-      const latestPrice = prices[prices.length - 1]?.close || 0;
+    const fetched = results.flatMap(result => result.status === 'fulfilled' ? [result.data] : []);
+    return { results, aligned: alignByDate(fetched) };
+  }
 
-      // Extract fundamental data
-      let fundamentals: Fundamentals = {
-        pe: null,
-        pb: null,
-        peg: null,
-        dividendYield: null,
-        marketCap: null,
-        eps: null
-      };
+  // Autocomplete lookup. The bundled directory answers short queries and
+  // anything it can fill on its own, so typing doesn't spend the provider's
+  // rate limit; provider errors fall back to the offline matches.
+  async searchSymbols(query: string, limit: number = 8): Promise<SymbolMatch[]> {
+    const q = query.trim().toUpperCase();
+    const offline = SymbolDirectory.search(q, limit);
+    const provider = this.firstCapable('symbolSearch');
+    if (q.length < 2 || offline.length >= limit || !provider) {
+      return offline;
+    }
+
+    const key = `${provider.id}:${q}`;
+    let search = this.symbolSearches.get(key);
+    if (!search) {
+      search = provider.searchSymbols({ query: q, apiKey: this.apiKeyFor(provider.id), fetch: this.scheduledFetch(provider.id) });
+      this.symbolSearches.set(key, search);
+      // Failed lookups are retried on the next keystroke rather than remembered
+      search.catch(() => this.symbolSearches.delete(key));
+    }
+
+    try {
+      return SymbolDirectory.merge(await search, offline, limit);
+    } catch {
+      return offline;
+    }
+  }
+
+  async clearCache(): Promise<void> {
+    if (this.cache) {
+      await this.cache.clear();
+    }
+  }
+
+  // Fetch from the head of `chain`, with secondary data falling through the
+  // rest of it. `earlierFailures` are the providers already passed over.
+  private async fetchFromProvider(
+    chain: MarketDataProvider[],
+    ticker: string,
+    timeline: string,
+    interval: BarInterval,
+    earlierFailures: ProviderFailure[]
+  ): Promise<StockDataLoad> {
+    const [provider] = chain;
+    // Requests from an abandoned attempt may still settle, so each attempt
+    // records into its own list
+    const failures = earlierFailures.slice();
+    const apiKey = this.apiKeyFor(provider.id);
+    const assetType = AssetClass.detect(ticker);
+
+    if (!this.isConfigured(provider)) {
+      throw new AuthError('API key not set', { provider: provider.id });
+    }
+    if (isIntraday(interval) && !provider.capabilities.intraday) {
+      throw new DataFetchError(`${provider.name} does not provide intraday bars`, { provider: provider.id });
+    }
+    if (!provider.capabilities.assetTypes.includes(assetType)) {
+      throw new DataFetchError(`${provider.name} does not provide ${ASSET_TYPES[assetType].label} prices`, { provider: provider.id });
+    }
 
-      // Get market cap from ticker details
-      if (tickerDetailsData.results && !tickerDetailsData.error) {
-        const details = tickerDetailsData.results;
-        fundamentals.marketCap = details.market_cap || null;
+    try {
+      const cached = this.cache ? await this.cache.get(provider.id, ticker, timeline, interval) : undefined;
+      const now = Date.now();
+      const loadKey = `${provider.id}:${ticker.toUpperCase()}`;
+
+      // The cache keeps provider data in its trading currency. An entry whose
+      // secondary data is still loading is topped up so it can wait for it.
+      if (cached && this.cache!.isFresh(cached, now) && !this.secondaryLoads.has(loadKey)) {
+        const data = await this.toReportingCurrency(this.buildStockData(provider, ticker, cached.prices, cached.fundamentals, cached.corporateActions, cached.earnings, interval, {
+          cache: { status: 'hit', fetchedAt: new Date(cached.fetchedAt) },
+          sources: cached.sources,
+          providerFailures: failures
+        }));
+        return { data, secondary: null };
       }
 
-      // Get financial metrics from financials data
-      if (financialsData.results && financialsData.results.length > 0 && !financialsData.error) {
-        const latestFinancials = financialsData.results[0];
-        
-        // Calculate P/E ratio if we have earnings data
-        if (latestFinancials.earnings_per_share && latestPrice > 0) {
-          fundamentals.eps = latestFinancials.earnings_per_share;
-          fundamentals.pe = latestPrice / latestFinancials.earnings_per_share;
-        }
+      const fetch = this.scheduledFetch(provider.id);
+      const range = resolveRange(timeline, new Date(now), this.getCalendar(ticker));
+      const retry = this.retryPolicy(provider.id);
+
+      // Stale entries only need the bars since the last cached one
+      const since = cached && cached.prices.length > 0
+        ? new Date(cached.prices[cached.prices.length - 1].date)
+        : undefined;
+      // Secondary datasets can come from this entry or, when it has none
+      // fresh, from the same ticker loaded under another timeline
+      const sibling = this.cache?.latestFor(provider.id, ticker);
+      const freshest = (isFresh: (entry: CacheEntry) => boolean) =>
+        [cached, sibling].find((entry): entry is CacheEntry => !!entry && isFresh(entry));
+      const fundamentalsFrom = freshest(entry => this.cache!.isFundamentalsFresh(entry, now));
+      const actionsFrom = freshest(entry => this.cache!.isCorporateActionsFresh(entry, now));
+      const earningsFrom = freshest(entry => this.cache!.isEarningsFresh(entry, now));
+      // Pairs have no secondary datasets to ask any provider for
+      const secondaryChain = AssetClass.hasFundamentals(assetType) ? chain : [];
+
+      // Corporate actions adjust the bars, so they load with them. A failure
+      // in any secondary dataset still returns the bars.
+      const [bars, actionsResult] = await Promise.all([
+        withRetry(() => provider.fetchBars({ ticker, assetType, timeline, range, interval, apiKey, since, fetch }), retry),
+        actionsFrom
+          ? Promise.resolve(reused(actionsFrom.corporateActions, actionsFrom.sources.corporateActions, actionsFrom.corporateActionsFetchedAt))
+          : this.fetchDataset('corporateActions', secondaryChain, failures, (p, key, f) => p.fetchCorporateActions({ ticker, apiKey: key, fetch: f }))
+      ]);
 
-        // Get other metrics if available
-        if (latestFinancials.price_to_book) {
-          fundamentals.pb = latestFinancials.price_to_book;
+      // Every provider returns the same trading-day window for a timeline
+      const prices = sliceToRange(cached ? PriceCache.mergeBars(cached.prices, bars) : bars, range, interval);
+
+      const store = async ([fundamentalsResult, earningsResult]: SecondaryResults): Promise<StockData> => {
+        const entry = {
+          provider: provider.id,
+          ticker,
+          timeline,
+          interval,
+          prices,
+          fundamentals: fundamentalsResult.value || emptyFundamentals(),
+          corporateActions: actionsResult.value || [],
+          earnings: earningsResult.value || [],
+          fetchedAt: now,
+          fundamentalsFetchedAt: fundamentalsResult.fetchedAt,
+          corporateActionsFetchedAt: actionsResult.fetchedAt,
+          earningsFetchedAt: earningsResult.fetchedAt,
+          sources: {
+            prices: provider.id,
+            fundamentals: fundamentalsResult.source,
+            corporateActions: actionsResult.source,
+            earnings: earningsResult.source
+          }
+        };
+        if (this.cache) {
+          await this.cache.put(entry);
         }
+        return this.toReportingCurrency(this.buildStockData(provider, ticker, prices, entry.fundamentals, entry.corporateActions, entry.earnings, interval, {
+          cache: { status: cached ? 'topup' : 'miss', fetchedAt: new Date(now) },
+          sources: entry.sources,
+          providerFailures: failures.slice()
+        }));
+      };
 
-        if (latestFinancials.price_to_earnings_growth) {
-          fundamentals.peg = latestFinancials.price_to_earnings_growth;
+      const complete = async (results: SecondaryResults): Promise<StockData> => {
+        const data = await store(results);
+        const [fundamentalsResult, earningsResult] = results;
+        const missing = [
+          fundamentalsResult.error && 'fundamentals',
+          actionsResult.error && 'corporate actions',
+          earningsResult.error && 'earnings dates'
+        ].filter(Boolean) as string[];
+        if (missing.length > 0) {
+          throw new PartialDataError(data, missing, {
+            provider: provider.id,
+            cause: fundamentalsResult.error || actionsResult.error || earningsResult.error
+          });
         }
+        return data;
+      };
 
-        if (latestFinancials.dividend_yield) {
-          fundamentals.dividendYield = latestFinancials.dividend_yield;
-        }
+      // Until the provider answers, fundamentals and earnings dates are
+      // whatever the cache had
+      const fundamentalsEntry = fundamentalsFrom || cached;
+      const earningsEntry = earningsFrom || cached;
+      const cachedFundamentals = fundamentalsEntry
+        ? reused(fundamentalsEntry.fundamentals, fundamentalsEntry.sources.fundamentals, fundamentalsEntry.fundamentalsFetchedAt)
+        : reused<Fundamentals>(null, null, 0);
+      const cachedEarnings = earningsEntry
+        ? reused(earningsEntry.earnings, earningsEntry.sources.earnings, earningsEntry.earningsFetchedAt)
+        : reused<EarningsEvent[]>(null, null, 0);
+
+      if (secondaryChain.length === 0) {
+        return { data: await complete([reused<Fundamentals>(null, null, now), reused<EarningsEvent[]>(null, null, now)]), secondary: null };
+      }
+      if (fundamentalsFrom && earningsFrom) {
+        return { data: await complete([cachedFundamentals, cachedEarnings]), secondary: null };
       }
 
-      return {
-        ticker,
-        currentPrice: latestPrice,
-        prices,
-        fundamentals
-      };
+      // Fundamentals and earnings dates take several requests each, so the
+      // bars go out first with whatever the cache had and the rest follows
+      const data = await store([cachedFundamentals, cachedEarnings]);
+      let load = this.secondaryLoads.get(loadKey);
+      if (!load) {
+        const started = Promise.all([
+          fundamentalsFrom
+            ? Promise.resolve(cachedFundamentals)
+            : this.fetchDataset('fundamentals', secondaryChain, failures, (p, key, f) => p.fetchFundamentals({ ticker, apiKey: key, fetch: f })),
+          earningsFrom
+            ? Promise.resolve(cachedEarnings)
+            : this.fetchDataset('earnings', secondaryChain, failures, (p, key, f) => p.fetchEarnings({ ticker, apiKey: key, fetch: f }))
+        ]);
+        this.secondaryLoads.set(loadKey, started);
+        started.then(() => this.secondaryLoads.delete(loadKey));
+        load = started;
+      }
+      return { data, secondary: load.then(complete) };
     } catch (error) {
-      if (error instanceof Error) {
+      if (error instanceof RateLimitError) {
+        this.getScheduler(provider.id).penalize();
+      }
+      if (error instanceof DataFetchError) {
         throw error;
       }
-      throw new Error('Failed to fetch stock data from Polygon');
+      throw new DataFetchError(
+        error instanceof Error ? error.message : `Failed to fetch stock data from ${provider.name}`,
+        { provider: provider.id, cause: error }
+      );
+    }
+  }
+
+  // First provider in `chain` that offers the dataset and answers. The error
+  // is the last provider's when none does.
+  private async fetchDataset<T>(
+    dataset: Exclude<Dataset, 'prices'>,
+    chain: MarketDataProvider[],
+    failures: ProviderFailure[],
+    request: (provider: MarketDataProvider, apiKey: string | null, fetch: ScheduledFetch) => Promise<T>
+  ): Promise<DatasetResult<T>> {
+    let error: unknown = null;
+    for (const provider of chain) {
+      if (!provider.capabilities[dataset] || !this.isConfigured(provider)) {
+        continue;
+      }
+      // Keep the last requests of the day for price history
+      const day = this.getQuota(provider.id).day;
+      if (day && day.remaining < SECONDARY_QUOTA_RESERVE) {
+        const skipped = new QuotaExceededError(`Skipped to save the daily request quota (${day.remaining} left)`, { provider: provider.id });
+        error = skipped;
+        failures.push({ provider: provider.id, dataset, message: skipped.message });
+        continue;
+      }
+      const apiKey = this.apiKeyFor(provider.id);
+      const fetch = this.scheduledFetch(provider.id);
+      try {
+        const value = await withRetry(() => request(provider, apiKey, fetch), this.retryPolicy(provider.id));
+        return { value, source: provider.id, error: null, fetchedAt: Date.now() };
+      } catch (e) {
+        error = e;
+        failures.push({ provider: provider.id, dataset, message: e instanceof Error ? e.message : String(e) });
+      }
     }
+    return { value: null, source: null, error, fetchedAt: error ? 0 : Date.now() };
   }
+
+  private async requestFxRate(base: string, quote: string): Promise<FxRate> {
+    // Providers and the reference rates quote major currencies
+    const from = Currency.major(base);
+    const to = Currency.major(quote);
+    const providers = this.getProviderOrder()
+      .map(id => this.registry.get(id))
+      .filter(provider => provider.capabilities.fx && this.isConfigured(provider));
+
+    let fx: FxRate | null = null;
+    for (const provider of from.currency === to.currency ? [] : providers) {
+      const request = { base: from.currency, quote: to.currency, apiKey: this.apiKeyFor(provider.id), fetch: this.scheduledFetch(provider.id) };
+      try {
+        fx = await withRetry(() => provider.fetchFxRate(request), this.retryPolicy(provider.id));
+        break;
+      } catch {
+        // Try the next provider, then the reference rates
+      }
+    }
+    fx = fx || fixtureFxRates.rate(from.currency, to.currency);
+    return { ...fx, base, quote, rate: fx.rate * to.per / from.per };
+  }
+
+  // First provider in the order with the capability and the credentials to use it
+  private firstCapable(capability: keyof ProviderCapabilities): MarketDataProvider | undefined {
+    return this.getProviderOrder()
+      .map(id => this.registry.get(id))
+      .find(provider => provider.capabilities[capability] && this.isConfigured(provider));
+  }
+
+  private apiKeyFor(id: ApiProvider): string | null {
+    return this.credentials.get(id);
+  }
+
+  private isConfigured(provider: MarketDataProvider): boolean {
+    return !provider.capabilities.requiresApiKey || !!this.apiKeyFor(provider.id);
+  }
+
+  // Every provider request goes through the scheduler, and HTTP-level
+  // failures are mapped onto the DataErrors hierarchy
+  private scheduledFetch(id: ApiProvider): ScheduledFetch {
+    const scheduler = this.getScheduler(id);
+    return (url: string) => scheduler.schedule(async () => {
+      let response: Response;
+      try {
+        response = await fetch(url);
+      } catch (error) {
+        throw new NetworkError('Network request failed. Check your connection.', { provider: id, cause: error });
+      }
+      const error = errorFromResponse(response, id);
+      if (error) {
+        throw error;
+      }
+      return response;
+    });
+  }
+
+  private retryPolicy(id: ApiProvider): Partial<RetryOptions> {
+    return {
+      ...this.retryOptions,
+      onRetry: (error, attempt, delayMs) => {
+        if (error instanceof RateLimitError) {
+          this.getScheduler(id).penalize();
+        }
+        this.retryOptions.onRetry?.(error, attempt, delayMs);
+      }
+    };
+  }
+
+  private buildStockData(
+    provider: MarketDataProvider,
+    ticker: string,
+    bars: PricePoint[],
+    fundamentals: Fundamentals,
+    corporateActions: CorporateAction[],
+    earnings: EarningsEvent[],
+    interval: BarInterval,
+    origin: { cache: CacheInfo; sources: DataSources; providerFailures: ProviderFailure[] }
+  ): StockData {
+    const calendar = this.getCalendar(ticker);
+    // Provider data is cleaned before anything is derived from it
+    const { prices: cleaned, report } = PriceValidator.clean(bars, corporateActions, { calendar });
+
+    // Keep the as-traded bars alongside the split-adjusted series used for analysis
+    const rawPrices = provider.capabilities.adjustedPrices
+      ? CorporateActions.unadjustSplits(cleaned, corporateActions)
+      : cleaned;
+    const prices = CorporateActions.adjust(rawPrices, corporateActions, 'split');
+    const latestPrice = prices[prices.length - 1]?.close || 0;
+
+    // Providers report different subsets; derive the rest (P/E from EPS,
+    // margins from statements) on a copy so derived values never reach the cache
+    const derived = FundamentalAnalysis.complete(fundamentals, latestPrice);
+
+    // A dataset no provider served was either lost to a failure or never offered
+    const { sources, providerFailures } = origin;
+    const absent = (dataset: Dataset): FieldAvailability =>
+      providerFailures.some(failure => failure.dataset === dataset) ? 'missing' : 'unsupported';
+    const currency = fundamentals.currency ?? AssetClass.currency(ticker);
+
+    return {
+      ticker,
+      currentPrice: latestPrice,
+      prices,
+      fundamentals: derived,
+      interval,
+      assetType: AssetClass.detect(ticker),
+      rawPrices,
+      corporateActions,
+      earnings,
+      adjustment: 'split',
+      quality: report,
+      currency,
+      ...origin,
+      provenance: {
+        provider: provider.id,
+        importedFrom: null,
+        fetchedAt: origin.cache.fetchedAt,
+        cacheStatus: origin.cache.status,
+        adjustment: 'split',
+        providerAdjusted: provider.capabilities.adjustedPrices,
+        currency,
+        exchange: calendar.id,
+        timeZone: calendar.config.timeZone,
+        fields: {
+          ...Provenance.priceFields(prices),
+          ...Provenance.fundamentalFields(fundamentals, derived, sources.fundamentals ? 'missing' : absent('fundamentals')),
+          corporateActions: sources.corporateActions ? 'reported' : absent('corporateActions'),
+          earnings: sources.earnings ? 'reported' : absent('earnings')
+        }
+      }
+    };
+  }
+}
+
+function reused<T>(value: T | null, source: ApiProvider | null, fetchedAt: number): DatasetResult<T> {
+  return { value, source, error: null, fetchedAt };
+}
+
+export function emptyFundamentals(): Fundamentals {
+  return {
+    pe: null,
+    pb: null,
+    peg: null,
+    dividendYield: null,
+    marketCap: null,
+    eps: null,
+    revenue: null,
+    grossMargin: null,
+    operatingMargin: null,
+    profitMargin: null,
+    returnOnEquity: null,
+    debtToEquity: null,
+    freeCashFlow: null,
+    sharesOutstanding: null,
+    forwardPe: null,
+    forwardEps: null,
+    targetPrice: null,
+    history: { quarterly: [], annual: [] },
+    currency: null
+  };
+}
+
+// Keep only the bar timestamps present in every series, so closes can be
+// compared index by index (correlations, relative performance)
+export function alignByDate(series: StockData[]): AlignedPrices {
+  if (series.length === 0) {
+    return { dates: [], prices: {} };
+  }
+
+  const [first, ...rest] = series.map(data => new Map(data.prices.map(bar => [bar.date.getTime(), bar])));
+  const shared = Array.from(first.keys())
+    .filter(time => rest.every(bars => bars.has(time)))
+    .sort((a, b) => a - b);
+
+  const prices: Record<string, PricePoint[]> = {};
+  series.forEach((data, i) => {
+    const bars = i === 0 ? first : rest[i - 1];
+    prices[data.ticker] = shared.map(time => bars.get(time)!);
+  });
+
+  return { dates: shared.map(time => new Date(time)), prices };
 }
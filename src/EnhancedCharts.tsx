@@ -1,6 +1,8 @@
 // src/EnhancedCharts.tsx
 import React, { useEffect, useRef, useState } from 'react';
 import { PricePoint, TechnicalIndicators, RecommendationAnalysis } from './types';
+import { Format } from './Format';
+import { TRADING_DAYS_PER_YEAR } from './TimeRange';
 
 // Declare Plotly as global
 declare global {
@@ -14,6 +16,7 @@ interface EnhancedHistoricalChartProps {
   indicators: TechnicalIndicators;
   trend: number;
   isDarkMode: boolean;
+  currency?: string | null;
   showIndicators: {
     rsi: boolean;
     macd: boolean;
@@ -24,7 +27,7 @@ interface EnhancedHistoricalChartProps {
 }
 
 export const EnhancedHistoricalChart: React.FC<EnhancedHistoricalChartProps> = ({ 
-  prices, indicators, trend, isDarkMode, showIndicators 
+  prices, indicators, trend, isDarkMode, currency, showIndicators 
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
 
@@ -133,7 +136,7 @@ export const EnhancedHistoricalChart: React.FC<EnhancedHistoricalChartProps> = (
         gridcolor: isDarkMode ? '#444' : '#ddd'
       },
       yaxis: { 
-        title: 'Price ($)',
+        title: currency ? `Price (${currency})` : 'Price',
         gridcolor: isDarkMode ? '#444' : '#ddd'
       },
       paper_bgcolor: isDarkMode ? '#1a1a1a' : 'white',
@@ -149,7 +152,7 @@ export const EnhancedHistoricalChart: React.FC<EnhancedHistoricalChartProps> = (
     };
 
     window.Plotly.newPlot(chartRef.current, traces, layout);
-  }, [prices, indicators, trend, isDarkMode, showIndicators]);
+  }, [prices, indicators, trend, isDarkMode, currency, showIndicators]);
 
   return <div ref={chartRef} className="w-full h-96" />;
 };
@@ -371,17 +374,19 @@ interface EducationalMetricsProps {
   fundamentals: any;
   recommendations: RecommendationAnalysis;
   currentPrice: number;
+  barsPerYear?: number;
+  hasFundamentals?: boolean; // false for crypto and FX pairs
 }
 
 export const EducationalMetrics: React.FC<EducationalMetricsProps> = ({ 
-  prices, indicators, fundamentals, recommendations, currentPrice 
+  prices, indicators, fundamentals, recommendations, currentPrice, barsPerYear = TRADING_DAYS_PER_YEAR, hasFundamentals = true
 }) => {
   const [selectedMetric, setSelectedMetric] = useState<string | null>(null);
 
   const metrics = [
     {
       name: 'RSI (Relative Strength Index)',
-      value: indicators.rsi[indicators.rsi.length - 1].toFixed(1),
+      value: Format.number(indicators.rsi[indicators.rsi.length - 1], 1),
       description: 'Measures the speed and magnitude of price changes to identify overbought or oversold conditions.',
       interpretation: indicators.rsi[indicators.rsi.length - 1] < 30 ? 'Oversold - potential buying opportunity' :
                      indicators.rsi[indicators.rsi.length - 1] > 70 ? 'Overbought - potential selling opportunity' :
@@ -393,7 +398,7 @@ export const EducationalMetrics: React.FC<EducationalMetricsProps> = ({
     },
     {
       name: 'P/E Ratio',
-      value: fundamentals.pe?.toFixed(1) || 'N/A',
+      value: Format.number(fundamentals.pe, 1),
       description: 'Price-to-Earnings ratio compares a company\'s stock price to its earnings per share.',
       interpretation: fundamentals.pe ? 
         (fundamentals.pe < 15 ? 'Undervalued - potentially good buying opportunity' :
@@ -412,7 +417,7 @@ export const EducationalMetrics: React.FC<EducationalMetricsProps> = ({
          }
          const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
          const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) / returns.length;
-         return (Math.sqrt(variance * 252) * 100).toFixed(1) + '%';
+         return Format.percent(Math.sqrt(variance * barsPerYear));
        })(),
       description: 'Annualized volatility measures the degree of price variation over time.',
       interpretation: 'Lower volatility indicates more stable price movement, while higher volatility suggests greater risk and potential reward.',
@@ -431,7 +436,7 @@ export const EducationalMetrics: React.FC<EducationalMetricsProps> = ({
       isGood: indicators.macd.macd[indicators.macd.macd.length - 1] > indicators.macd.signal[indicators.macd.signal.length - 1],
       category: 'TECHNICAL' as const
     }
-  ];
+  ].filter(metric => hasFundamentals || metric.category !== 'FUNDAMENTAL');
 
   return (
     <div className="space-y-6">
@@ -0,0 +1,137 @@
+// src/EventCalendar.ts
+import { BarInterval, CorporateAction, EarningsEvent, PricePoint } from './types';
+import { TradingCalendar } from './TradingCalendar';
+import { INTERVAL_MINUTES } from './TimeRange';
+import { Format } from './Format';
+
+export type MarketEventType = 'earnings' | 'ex-dividend';
+
+// An event as marked on the price chart and listed in the calendar
+export interface MarketEvent {
+  date: Date;
+  type: MarketEventType;
+  upcoming: boolean;
+  label: string;
+}
+
+// An earnings release that lands inside the simulation horizon
+export interface HorizonEvent {
+  event: EarningsEvent;
+  session: Date; // first session whose prices reflect the release
+  step: number; // bars after the last observed one, starting at 1
+}
+
+// Typical size of an earnings-day move when the history has too few to measure
+export const DEFAULT_EARNINGS_JUMP = 0.05;
+const MIN_EARNINGS_SAMPLES = 2;
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+const formatEps = (value: number | null) => (value === null ? 'n/a' : Format.number(value));
+
+export class EventCalendar {
+  // Earnings releases and ex-dividend dates in date order. Dividends are
+  // labelled in `currency`, the currency of the loaded data.
+  static events(
+    earnings: EarningsEvent[],
+    corporateActions: CorporateAction[],
+    currency: string | null = null,
+    now: Date = new Date()
+  ): MarketEvent[] {
+    const today = dayKey(now);
+    const releases: MarketEvent[] = earnings.map(event => {
+      const upcoming = event.epsActual === null && dayKey(event.date) >= today;
+      return {
+        date: event.date,
+        type: 'earnings',
+        upcoming,
+        label: upcoming
+          ? `Earnings (est. EPS ${formatEps(event.epsEstimate)})`
+          : `Earnings: EPS ${formatEps(event.epsActual)} vs ${formatEps(event.epsEstimate)} est.`
+      };
+    });
+    const dividends: MarketEvent[] = corporateActions
+      .filter(action => action.type === 'dividend')
+      .map(action => ({
+        date: action.date,
+        type: 'ex-dividend',
+        upcoming: dayKey(action.date) >= today,
+        label: `Ex-dividend ${Format.money(action.value, currency)}`
+      }));
+    return [...releases, ...dividends].sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  // Releases before or during the session move that session; after-close
+  // releases move the next one. Unknown timing is treated as pre-market.
+  static reactionSession(event: EarningsEvent, calendar: TradingCalendar): Date {
+    return event.timing === 'post-market'
+      ? calendar.addTradingDays(event.date, 1)
+      : calendar.nextSession(event.date);
+  }
+
+  // Earnings releases whose reaction falls within `numSteps` bars after the
+  // last observed bar
+  static horizonEvents(
+    earnings: EarningsEvent[],
+    lastBar: Date,
+    numSteps: number,
+    calendar: TradingCalendar,
+    interval: BarInterval = 'daily'
+  ): HorizonEvent[] {
+    const intervalMinutes = INTERVAL_MINUTES[interval];
+    const barsPerSession = intervalMinutes === null
+      ? 1
+      : Math.ceil((calendar.config.closeMinutes - calendar.config.openMinutes) / intervalMinutes);
+
+    return earnings
+      .map(event => {
+        const session = this.reactionSession(event, calendar);
+        const sessions = calendar.tradingDaysBetween(lastBar, session);
+        // The first bar of the reaction session carries the move
+        return { event, session, step: sessions > 0 ? 1 + (sessions - 1) * barsPerSession : 0 };
+      })
+      .filter(horizon => horizon.step > 0 && horizon.step <= numSteps)
+      .sort((a, b) => a.step - b.step);
+  }
+
+  // Standard deviation of the earnings-day log return beyond ordinary
+  // volatility: mean squared reaction minus mean squared ordinary return
+  static estimateJumpStdDev(
+    prices: PricePoint[],
+    earnings: EarningsEvent[],
+    calendar: TradingCalendar,
+    fallback: number = DEFAULT_EARNINGS_JUMP
+  ): number {
+    if (prices.length < 3) return fallback;
+
+    const firstBarOfDay = new Map<string, number>();
+    prices.forEach((bar, i) => {
+      const day = dayKey(bar.date);
+      if (!firstBarOfDay.has(day)) firstBarOfDay.set(day, i);
+    });
+
+    const eventBars = new Set<number>();
+    earnings
+      .filter(event => event.epsActual !== null)
+      .forEach(event => {
+        const index = firstBarOfDay.get(dayKey(this.reactionSession(event, calendar)));
+        if (index !== undefined && index > 0) eventBars.add(index);
+      });
+    if (eventBars.size < MIN_EARNINGS_SAMPLES) return fallback;
+
+    let eventSquares = 0;
+    let ordinarySquares = 0;
+    for (let i = 1; i < prices.length; i++) {
+      const squared = Math.pow(Math.log(prices[i].close / prices[i - 1].close), 2);
+      if (eventBars.has(i)) {
+        eventSquares += squared;
+      } else {
+        ordinarySquares += squared;
+      }
+    }
+
+    const ordinaryBars = prices.length - 1 - eventBars.size;
+    const ordinaryVariance = ordinaryBars > 0 ? ordinarySquares / ordinaryBars : 0;
+    return Math.sqrt(Math.max(0, eventSquares / eventBars.size - ordinaryVariance));
+  }
+}
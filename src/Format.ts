@@ -0,0 +1,67 @@
+// src/Format.ts
+import { Currency } from './Currency';
+
+// Number formatting for display. The locale defaults to the browser's, so
+// separators and symbol placement follow the user's settings.
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const formatter = (locale: string | undefined, options: Intl.NumberFormatOptions): Intl.NumberFormat => {
+  const key = JSON.stringify([locale, options]);
+  let cached = formatters.get(key);
+  if (!cached) {
+    cached = new Intl.NumberFormat(locale, options);
+    formatters.set(key, cached);
+  }
+  return cached;
+};
+
+const isMissing = (value: number | null | undefined): value is null | undefined =>
+  value === null || value === undefined || !isFinite(value);
+
+export class Format {
+  // An amount in `currency`. Unknown currencies get no symbol rather than a
+  // guessed one; minor units (GBX) have none, so their code follows.
+  static money(value: number | null | undefined, currency: string | null | undefined, digits: number = 2, locale?: string): string {
+    if (isMissing(value)) return 'N/A';
+    if (!currency || !Currency.isCode(currency) || Currency.isMinorUnit(currency)) {
+      const amount = this.number(value, digits, locale);
+      return currency ? `${amount} ${currency}` : amount;
+    }
+    return formatter(locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits
+    }).format(value);
+  }
+
+  // Large amounts such as market cap and revenue: $1.23T, £45.6B
+  static compactMoney(value: number | null | undefined, currency: string | null | undefined, locale?: string): string {
+    if (isMissing(value)) return 'N/A';
+    if (!currency || !Currency.isCode(currency) || Currency.isMinorUnit(currency)) {
+      const amount = formatter(locale, { notation: 'compact', maximumFractionDigits: 2 }).format(value);
+      return currency ? `${amount} ${currency}` : amount;
+    }
+    return formatter(locale, {
+      style: 'currency',
+      currency,
+      notation: 'compact',
+      maximumFractionDigits: 2
+    }).format(value);
+  }
+
+  static number(value: number | null | undefined, digits: number = 2, locale?: string): string {
+    if (isMissing(value)) return 'N/A';
+    return formatter(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+  }
+
+  // `fraction` of one: 0.125 is 12.5%
+  static percent(fraction: number | null | undefined, digits: number = 1, locale?: string): string {
+    if (isMissing(fraction)) return 'N/A';
+    return formatter(locale, {
+      style: 'percent',
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits
+    }).format(fraction);
+  }
+}
@@ -0,0 +1,209 @@
+// src/FundamentalAnalysis.ts
+import { FinancialHistory, FinancialStatement, Fundamentals, FundamentalTrends } from './types';
+
+type StatementFields = Partial<FinancialStatement> & Pick<FinancialStatement, 'fiscalDateEnding' | 'period'>;
+
+// Items that accumulate over a period (summed across quarters)
+const FLOW_FIELDS = [
+  'revenue',
+  'grossProfit',
+  'operatingIncome',
+  'netIncome',
+  'eps',
+  'operatingCashFlow',
+  'capitalExpenditures',
+  'freeCashFlow'
+] as const;
+
+export interface StatementRatios {
+  grossMargin: number | null;
+  operatingMargin: number | null;
+  profitMargin: number | null;
+  returnOnEquity: number | null;
+  debtToEquity: number | null;
+}
+
+// Parse a provider number, treating blanks and placeholders like "None" as missing
+export function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return isFinite(parsed) ? parsed : null;
+}
+
+const ratio = (numerator: number | null, denominator: number | null): number | null =>
+  numerator !== null && denominator !== null && denominator !== 0 ? numerator / denominator : null;
+
+export class FundamentalAnalysis {
+  // Fill unreported fields with null and derive free cash flow and EPS when
+  // the statement has their inputs
+  static statement(fields: StatementFields): FinancialStatement {
+    const statement: FinancialStatement = {
+      revenue: null,
+      grossProfit: null,
+      operatingIncome: null,
+      netIncome: null,
+      eps: null,
+      totalAssets: null,
+      totalLiabilities: null,
+      shareholderEquity: null,
+      totalDebt: null,
+      operatingCashFlow: null,
+      capitalExpenditures: null,
+      freeCashFlow: null,
+      sharesOutstanding: null,
+      ...fields
+    };
+    // Capital expenditures are reported with either sign
+    if (statement.freeCashFlow === null && statement.operatingCashFlow !== null && statement.capitalExpenditures !== null) {
+      statement.freeCashFlow = statement.operatingCashFlow - Math.abs(statement.capitalExpenditures);
+    }
+    if (statement.eps === null) {
+      statement.eps = ratio(statement.netIncome, statement.sharesOutstanding);
+    }
+    return statement;
+  }
+
+  // Order by period end and keep the last report for each date
+  static sortHistory(statements: FinancialStatement[]): FinancialStatement[] {
+    const byDate = new Map<number, FinancialStatement>();
+    statements
+      .filter(s => !isNaN(s.fiscalDateEnding.getTime()))
+      .forEach(s => byDate.set(s.fiscalDateEnding.getTime(), s));
+    return Array.from(byDate.values()).sort((a, b) => a.fiscalDateEnding.getTime() - b.fiscalDateEnding.getTime());
+  }
+
+  // Four quarters ending at `end` (exclusive index) rolled into one year:
+  // flows are summed, balance-sheet items come from the last quarter
+  static trailingYear(quarters: FinancialStatement[], end: number = quarters.length): FinancialStatement | null {
+    if (end < 4) return null;
+    const window = quarters.slice(end - 4, end);
+    const year: FinancialStatement = { ...window[3], period: 'annual' };
+    FLOW_FIELDS.forEach(field => {
+      const values = window.map(q => q[field]);
+      year[field] = values.every(v => v !== null) ? (values as number[]).reduce((sum, v) => sum + v, 0) : null;
+    });
+    return year;
+  }
+
+  // The latest full year and the one before it. Quarterly history gives
+  // fresher trailing-twelve-month figures when there is enough of it.
+  static yearOverYear(history: FinancialHistory): {
+    basis: FundamentalTrends['basis'];
+    current: FinancialStatement | null;
+    prior: FinancialStatement | null;
+  } {
+    const { quarterly, annual } = history;
+    if (quarterly.length >= 4 && (quarterly.length >= 8 || annual.length < 2)) {
+      return {
+        basis: 'ttm',
+        current: this.trailingYear(quarterly),
+        prior: this.trailingYear(quarterly, quarterly.length - 4)
+      };
+    }
+    if (annual.length > 0) {
+      return {
+        basis: 'annual',
+        current: annual[annual.length - 1],
+        prior: annual.length > 1 ? annual[annual.length - 2] : null
+      };
+    }
+    return { basis: null, current: null, prior: null };
+  }
+
+  static ratios(statement: FinancialStatement): StatementRatios {
+    return {
+      grossMargin: ratio(statement.grossProfit, statement.revenue),
+      operatingMargin: ratio(statement.operatingIncome, statement.revenue),
+      profitMargin: ratio(statement.netIncome, statement.revenue),
+      returnOnEquity: statement.shareholderEquity !== null && statement.shareholderEquity > 0
+        ? ratio(statement.netIncome, statement.shareholderEquity)
+        : null,
+      debtToEquity: statement.shareholderEquity !== null && statement.shareholderEquity > 0
+        ? ratio(statement.totalDebt, statement.shareholderEquity)
+        : null
+    };
+  }
+
+  // Growth relative to the size of the prior value, so a loss shrinking
+  // towards zero reads as improvement
+  static growth(current: number | null, prior: number | null): number | null {
+    if (current === null || prior === null || prior === 0) return null;
+    return (current - prior) / Math.abs(prior);
+  }
+
+  static trends(history: FinancialHistory): FundamentalTrends {
+    const { basis, current, prior } = this.yearOverYear(history);
+    if (!current || !prior) {
+      return {
+        basis: null,
+        revenueGrowth: null,
+        epsGrowth: null,
+        operatingMarginChange: null,
+        returnOnEquityChange: null,
+        debtToEquityChange: null,
+        freeCashFlowGrowth: null
+      };
+    }
+
+    const now = this.ratios(current);
+    const before = this.ratios(prior);
+    const change = (a: number | null, b: number | null) => (a !== null && b !== null ? a - b : null);
+
+    return {
+      basis,
+      revenueGrowth: this.growth(current.revenue, prior.revenue),
+      epsGrowth: this.growth(current.eps, prior.eps),
+      operatingMarginChange: change(now.operatingMargin, before.operatingMargin),
+      returnOnEquityChange: change(now.returnOnEquity, before.returnOnEquity),
+      debtToEquityChange: change(now.debtToEquity, before.debtToEquity),
+      freeCashFlowGrowth: this.growth(current.freeCashFlow, prior.freeCashFlow)
+    };
+  }
+
+  // Fill what the provider left out: trailing figures from the statement
+  // history, then the ratios that depend on the latest price
+  static complete(fundamentals: Fundamentals, price: number): Fundamentals {
+    const completed = { ...fundamentals };
+    const { current } = this.yearOverYear(completed.history);
+
+    if (current) {
+      const derived = this.ratios(current);
+      completed.revenue ??= current.revenue;
+      completed.grossMargin ??= derived.grossMargin;
+      completed.operatingMargin ??= derived.operatingMargin;
+      completed.profitMargin ??= derived.profitMargin;
+      completed.returnOnEquity ??= derived.returnOnEquity;
+      completed.debtToEquity ??= derived.debtToEquity;
+      completed.freeCashFlow ??= current.freeCashFlow;
+      completed.sharesOutstanding ??= current.sharesOutstanding;
+      completed.eps ??= current.eps;
+    }
+
+    if (price > 0) {
+      if (completed.marketCap === null && completed.sharesOutstanding) {
+        completed.marketCap = completed.sharesOutstanding * price;
+      }
+      if (completed.pe === null && completed.eps) {
+        completed.pe = price / completed.eps;
+      }
+      if (completed.forwardEps === null && completed.forwardPe) {
+        completed.forwardEps = price / completed.forwardPe;
+      }
+      if (completed.forwardPe === null && completed.forwardEps) {
+        completed.forwardPe = price / completed.forwardEps;
+      }
+    }
+
+    if (completed.pb === null && completed.marketCap && current?.shareholderEquity && current.shareholderEquity > 0) {
+      completed.pb = completed.marketCap / current.shareholderEquity;
+    }
+
+    // PEG from trailing earnings growth, in percent
+    const { epsGrowth } = this.trends(completed.history);
+    if (completed.peg === null && completed.pe && completed.pe > 0 && epsGrowth && epsGrowth > 0) {
+      completed.peg = completed.pe / (epsGrowth * 100);
+    }
+
+    return completed;
+  }
+}
@@ -12,6 +12,7 @@ import {
   ReferenceLine
 } from 'recharts';
 import { PricePoint, TechnicalIndicators } from './types';
+import { Format } from './Format';
 
 interface ImprovedTechnicalChartProps {
   prices: PricePoint[];
@@ -39,7 +40,7 @@ export const ImprovedTechnicalChart: React.FC<ImprovedTechnicalChartProps> = ({
           <p className="font-semibold text-gray-900 mb-2">{label}</p>
           {payload.map((entry: any, index: number) => (
             <p key={index} className="text-sm" style={{ color: entry.color }}>
-              {entry.name}: {entry.value?.toFixed(2)}
+              {entry.name}: {Format.number(entry.value)}
             </p>
           ))}
         </div>
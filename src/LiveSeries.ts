@@ -0,0 +1,234 @@
+// src/LiveSeries.ts
+import { BarInterval, PricePoint, Quote, TechnicalIndicators } from './types';
+import { TechnicalAnalysis } from './TechnicalAnalysis';
+import { TradingCalendar } from './TradingCalendar';
+import { INTERVAL_MINUTES } from './TimeRange';
+
+// Periods used by TechnicalAnalysis.calculateAllIndicators
+const RSI_PERIOD = 14;
+const MACD_FAST = 12;
+const MACD_SLOW = 26;
+const MACD_SIGNAL = 9;
+const BAND_PERIOD = 20;
+const BAND_WIDTH = 2;
+const SMA_SHORT = 20;
+const SMA_LONG = 50;
+const VOLUME_PERIOD = 20;
+const RANGE_WINDOW = 20;
+
+// Shorter series are still seeding their averages (EMAs restart from an SMA,
+// RSI pads its first values), so they are recomputed in full
+const MIN_INCREMENTAL_BARS = SMA_LONG + 1;
+
+// Copy of the series for rendering
+export interface LiveSnapshot {
+  ticker: string;
+  prices: PricePoint[];
+  indicators: TechnicalIndicators;
+  currentPrice: number;
+  quote: Quote | null;
+}
+
+interface RsiAverages {
+  gain: number;
+  loss: number;
+}
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const rsiFrom = ({ gain, loss }: RsiAverages) => 100 - 100 / (1 + gain / loss);
+
+// Price history kept current by a live quote feed. Each trade updates the
+// last candle, or opens a new one when it falls in a later bar, and the
+// indicators are advanced by that one bar instead of recomputed.
+export class LiveSeries {
+  private bars: PricePoint[];
+  private indicators: TechnicalIndicators | null = null;
+  // Wilder averages through the bar before the last one, and through the last
+  private rsiBase: RsiAverages | null = null;
+  private rsiLast: RsiAverages | null = null;
+  lastQuote: Quote | null = null;
+
+  constructor(
+    readonly ticker: string,
+    prices: PricePoint[],
+    private calendar: TradingCalendar,
+    private interval: BarInterval = 'daily'
+  ) {
+    this.bars = prices.map(bar => ({ ...bar }));
+  }
+
+  get prices(): PricePoint[] {
+    return this.bars;
+  }
+
+  get currentPrice(): number {
+    return this.lastQuote?.price ?? this.bars[this.bars.length - 1]?.close ?? 0;
+  }
+
+  get technicalIndicators(): TechnicalIndicators {
+    if (!this.indicators) this.recompute();
+    return this.indicators!;
+  }
+
+  // The series mutates its last bar and indicator arrays in place, so hand
+  // out copies of those
+  snapshot(): LiveSnapshot {
+    const { rsi, macd, bollingerBands, movingAverages, volume, supportResistance } = this.technicalIndicators;
+    const last = this.bars.length - 1;
+    return {
+      ticker: this.ticker,
+      prices: this.bars.map((bar, i) => (i === last ? { ...bar } : bar)),
+      indicators: {
+        rsi: rsi.slice(),
+        macd: { macd: macd.macd.slice(), signal: macd.signal.slice(), histogram: macd.histogram.slice() },
+        bollingerBands: {
+          upper: bollingerBands.upper.slice(),
+          middle: bollingerBands.middle.slice(),
+          lower: bollingerBands.lower.slice()
+        },
+        movingAverages: {
+          sma20: movingAverages.sma20.slice(),
+          sma50: movingAverages.sma50.slice(),
+          ema12: movingAverages.ema12.slice(),
+          ema26: movingAverages.ema26.slice()
+        },
+        volume: { volumeSMA: volume.volumeSMA.slice(), volumeRatio: volume.volumeRatio.slice() },
+        supportResistance: { support: supportResistance.support.slice(), resistance: supportResistance.resistance.slice() }
+      },
+      currentPrice: this.currentPrice,
+      quote: this.lastQuote
+    };
+  }
+
+  // Fold a trade into the series. Returns false when it was ignored: another
+  // ticker, or older than the last bar.
+  apply(quote: Quote): boolean {
+    if (quote.ticker.toUpperCase() !== this.ticker.toUpperCase() || this.bars.length === 0) return false;
+
+    const last = this.bars[this.bars.length - 1];
+    const barStart = this.barStart(quote.timestamp, last.date);
+    if (barStart === null) return false;
+
+    if (barStart.getTime() === last.date.getTime()) {
+      last.high = Math.max(last.high, quote.price);
+      last.low = Math.min(last.low, quote.price);
+      last.close = quote.price;
+      last.volume += quote.size;
+      this.lastQuote = quote;
+      this.update(false);
+    } else {
+      this.bars.push({
+        date: barStart,
+        open: quote.price,
+        high: quote.price,
+        low: quote.price,
+        close: quote.price,
+        volume: quote.size
+      });
+      this.lastQuote = quote;
+      this.update(true);
+    }
+    return true;
+  }
+
+  // Start of the bar a trade belongs to: the exchange-local session day for
+  // daily bars, otherwise the interval grid the last bar sits on
+  private barStart(timestamp: Date, lastBar: Date): Date | null {
+    const intervalMinutes = INTERVAL_MINUTES[this.interval];
+    if (intervalMinutes === null) {
+      const day = this.calendar.sessionDay(timestamp);
+      if (day < dayKey(lastBar)) return null;
+      return day === dayKey(lastBar) ? lastBar : new Date(`${day}T00:00:00Z`);
+    }
+
+    const intervalMs = intervalMinutes * 60000;
+    const elapsed = timestamp.getTime() - lastBar.getTime();
+    if (elapsed < 0) return null;
+    return new Date(lastBar.getTime() + Math.floor(elapsed / intervalMs) * intervalMs);
+  }
+
+  private recompute(): void {
+    this.indicators = TechnicalAnalysis.calculateAllIndicators(this.bars);
+    this.rsiBase = this.rsiAverages(this.bars.length - 1);
+    this.rsiLast = this.rsiAverages(this.bars.length);
+  }
+
+  // Wilder averages over the changes of the first `count` bars, as in calculateRSI
+  private rsiAverages(count: number): RsiAverages | null {
+    if (count < RSI_PERIOD + 1) return null;
+    const change = (i: number) => this.bars[i].close - this.bars[i - 1].close;
+
+    let gain = 0;
+    let loss = 0;
+    for (let i = 1; i <= RSI_PERIOD; i++) {
+      gain += Math.max(change(i), 0);
+      loss += Math.max(-change(i), 0);
+    }
+    gain /= RSI_PERIOD;
+    loss /= RSI_PERIOD;
+    for (let i = RSI_PERIOD + 1; i < count; i++) {
+      gain = (gain * (RSI_PERIOD - 1) + Math.max(change(i), 0)) / RSI_PERIOD;
+      loss = (loss * (RSI_PERIOD - 1) + Math.max(-change(i), 0)) / RSI_PERIOD;
+    }
+    return { gain, loss };
+  }
+
+  private update(appended: boolean): void {
+    if (!this.indicators) return; // computed on first read
+    if (this.bars.length <= MIN_INCREMENTAL_BARS || !this.rsiLast) {
+      this.recompute();
+      return;
+    }
+
+    const n = this.bars.length;
+    const i = n - 1;
+    const indicators = this.indicators;
+    // A new bar extends every series; an updated one replaces the last value
+    const set = (series: number[], value: number) => {
+      series[appended ? series.length : series.length - 1] = value;
+    };
+    const closes = this.bars.slice(-SMA_LONG).map(bar => bar.close);
+    const tail = (values: number[], period: number) => values.slice(-period);
+    const ema = (series: number[], value: number, period: number) => {
+      const multiplier = 2 / (period + 1);
+      return value * multiplier + series[i - 1] * (1 - multiplier);
+    };
+
+    if (appended) this.rsiBase = this.rsiLast;
+    const change = this.bars[i].close - this.bars[i - 1].close;
+    this.rsiLast = {
+      gain: (this.rsiBase!.gain * (RSI_PERIOD - 1) + Math.max(change, 0)) / RSI_PERIOD,
+      loss: (this.rsiBase!.loss * (RSI_PERIOD - 1) + Math.max(-change, 0)) / RSI_PERIOD
+    };
+    set(indicators.rsi, rsiFrom(this.rsiLast));
+
+    const close = this.bars[i].close;
+    const { movingAverages, macd, bollingerBands, volume, supportResistance } = indicators;
+    set(movingAverages.sma20, mean(tail(closes, SMA_SHORT)));
+    set(movingAverages.sma50, mean(tail(closes, SMA_LONG)));
+    set(movingAverages.ema12, ema(movingAverages.ema12, close, MACD_FAST));
+    set(movingAverages.ema26, ema(movingAverages.ema26, close, MACD_SLOW));
+
+    set(macd.macd, movingAverages.ema12[i] - movingAverages.ema26[i]);
+    set(macd.signal, ema(macd.signal, macd.macd[i], MACD_SIGNAL));
+    set(macd.histogram, macd.macd[i] - macd.signal[i]);
+
+    const window = tail(closes, BAND_PERIOD);
+    const middle = mean(window);
+    const deviation = Math.sqrt(mean(window.map(value => Math.pow(value - middle, 2))));
+    set(bollingerBands.middle, middle);
+    set(bollingerBands.upper, middle + BAND_WIDTH * deviation);
+    set(bollingerBands.lower, middle - BAND_WIDTH * deviation);
+
+    const volumeSMA = mean(this.bars.slice(-VOLUME_PERIOD).map(bar => bar.volume));
+    set(volume.volumeSMA, volumeSMA);
+    set(volume.volumeRatio, this.bars[i].volume / volumeSMA);
+
+    const range = this.bars.slice(-(RANGE_WINDOW + 1));
+    set(supportResistance.support, Math.min(...range.map(bar => bar.low)));
+    set(supportResistance.resistance, Math.max(...range.map(bar => bar.high)));
+  }
+}
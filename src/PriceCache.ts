@@ -0,0 +1,195 @@
+// src/PriceCache.ts
+import { ApiProvider, BarInterval, CorporateAction, DataSources, EarningsEvent, Fundamentals, PricePoint } from './types';
+
+export interface CacheEntry {
+  key: string;
+  provider: ApiProvider;
+  ticker: string;
+  timeline: string;
+  interval: BarInterval;
+  prices: PricePoint[]; // as returned by the provider, before corporate-action adjustment
+  fundamentals: Fundamentals;
+  corporateActions: CorporateAction[];
+  earnings: EarningsEvent[];
+  fetchedAt: number;
+  fundamentalsFetchedAt: number;
+  corporateActionsFetchedAt: number;
+  earningsFetchedAt: number;
+  // Secondary data may come from a fallback provider
+  sources: DataSources;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  put(entry: CacheEntry): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface PriceCacheOptions {
+  // Bars younger than this are served without touching the network
+  maxAgeMs: number;
+  // Intraday bars go stale within minutes during the session
+  intradayMaxAgeMs: number;
+  // Fundamentals and corporate actions change slowly and cost separate
+  // requests, so they live longer
+  fundamentalsMaxAgeMs: number;
+}
+
+const DB_NAME = 'finance-price-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'prices';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_OPTIONS: PriceCacheOptions = {
+  maxAgeMs: 4 * HOUR_MS,
+  intradayMaxAgeMs: 5 * 60 * 1000,
+  fundamentalsMaxAgeMs: 7 * 24 * HOUR_MS
+};
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async put(entry: CacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export class IndexedDBCacheStore implements CacheStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const db = await this.open();
+    return this.request<CacheEntry | undefined>(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key));
+  }
+
+  async put(entry: CacheEntry): Promise<void> {
+    const db = await this.open();
+    await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => {
+          this.dbPromise = null;
+          reject(openRequest.error || new Error('Failed to open price cache'));
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private request<T>(req: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error || new Error('Price cache request failed'));
+    });
+  }
+}
+
+export class PriceCache {
+  private options: PriceCacheOptions;
+  // Last entry written this session for each provider and ticker. Secondary
+  // datasets don't depend on the timeline, so other timelines can reuse them.
+  private latest = new Map<string, CacheEntry>();
+
+  constructor(
+    private store: CacheStore = IndexedDBCacheStore.isSupported() ? new IndexedDBCacheStore() : new MemoryCacheStore(),
+    options: Partial<PriceCacheOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_CACHE_OPTIONS, ...options };
+  }
+
+  // Daily keys leave the interval out
+  static key(provider: ApiProvider, ticker: string, timeline: string, interval: BarInterval = 'daily'): string {
+    const base = `${provider}:${ticker.toUpperCase()}:${timeline}`;
+    return interval === 'daily' ? base : `${base}:${interval}`;
+  }
+
+  // Cache failures (private browsing, quota) must never break a fetch
+  async get(
+    provider: ApiProvider,
+    ticker: string,
+    timeline: string,
+    interval: BarInterval = 'daily'
+  ): Promise<CacheEntry | undefined> {
+    try {
+      return await this.store.get(PriceCache.key(provider, ticker, timeline, interval));
+    } catch {
+      return undefined;
+    }
+  }
+
+  latestFor(provider: ApiProvider, ticker: string): CacheEntry | undefined {
+    return this.latest.get(`${provider}:${ticker.toUpperCase()}`);
+  }
+
+  async put(entry: Omit<CacheEntry, 'key'>): Promise<void> {
+    const stored = { ...entry, key: PriceCache.key(entry.provider, entry.ticker, entry.timeline, entry.interval) };
+    this.latest.set(`${entry.provider}:${entry.ticker.toUpperCase()}`, stored);
+    try {
+      await this.store.put(stored);
+    } catch {
+      // The next fetch goes to the provider again
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.latest.clear();
+    await this.store.clear();
+  }
+
+  isFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+    const maxAge = entry.interval && entry.interval !== 'daily' ? this.options.intradayMaxAgeMs : this.options.maxAgeMs;
+    return now - entry.fetchedAt < maxAge;
+  }
+
+  isFundamentalsFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+    return now - entry.fundamentalsFetchedAt < this.options.fundamentalsMaxAgeMs;
+  }
+
+  isCorporateActionsFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+    return now - entry.corporateActionsFetchedAt < this.options.fundamentalsMaxAgeMs;
+  }
+
+  // A scheduled release that has since happened needs its actual EPS
+  isEarningsFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+    return now - entry.earningsFetchedAt < this.options.fundamentalsMaxAgeMs
+      && !entry.earnings.some(event => event.epsActual === null && new Date(event.date).getTime() < now);
+  }
+
+  // Merge a top-up into cached bars. Incoming bars win on the same timestamp,
+  // since the last cached bar may have been a partial session.
+  static mergeBars(cached: PricePoint[], incoming: PricePoint[]): PricePoint[] {
+    const byTime = new Map<number, PricePoint>();
+    cached.forEach(bar => byTime.set(new Date(bar.date).getTime(), { ...bar, date: new Date(bar.date) }));
+    incoming.forEach(bar => byTime.set(bar.date.getTime(), bar));
+    return Array.from(byTime.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+}
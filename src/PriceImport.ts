@@ -0,0 +1,345 @@
+// src/PriceImport.ts
+import { PricePoint, StockData } from './types';
+import { getCalendar, TradingCalendar } from './TradingCalendar';
+import { Provenance } from './Provenance';
+import { emptyFundamentals } from './DataFetch';
+import { inferInterval, sessionDate } from './TimeRange';
+import { PriceValidator } from './PriceValidation';
+import { AssetClass } from './AssetClass';
+
+export type ImportFormat = 'csv' | 'json';
+
+type PriceField = 'date' | 'open' | 'high' | 'low' | 'close' | 'volume';
+
+export interface ImportRowError {
+  row: number; // 1-based line (CSV) or record index (JSON)
+  message: string;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  columns: Partial<Record<PriceField, string>>;
+  prices: PricePoint[];
+  errors: ImportRowError[];
+  totalRows: number;
+}
+
+// Header aliases, matched case-insensitively after stripping spaces, dots and underscores
+const COLUMN_ALIASES: Record<PriceField, string[]> = {
+  date: ['date', 'datetime', 'timestamp', 'time', 'day', 'tradedate', 't'],
+  open: ['open', 'o', 'openprice', '1open'],
+  high: ['high', 'h', 'highprice', '2high'],
+  low: ['low', 'l', 'lowprice', '3low'],
+  close: ['close', 'c', 'closeprice', 'adjclose', 'adjustedclose', 'last', 'price', '4close'],
+  volume: ['volume', 'v', 'vol', '5volume']
+};
+
+export class PriceImporter {
+  static readonly MAX_ERRORS = 100;
+
+  static parseFile(text: string, fileName: string = ''): ImportResult {
+    const format = this.detectFormat(text, fileName);
+    return format === 'json' ? this.parseJSON(text) : this.parseCSV(text);
+  }
+
+  static detectFormat(text: string, fileName: string = ''): ImportFormat {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'json') return 'json';
+    if (extension === 'csv' || extension === 'tsv' || extension === 'txt') return 'csv';
+
+    const firstChar = text.trimStart().charAt(0);
+    return firstChar === '[' || firstChar === '{' ? 'json' : 'csv';
+  }
+
+  static parseCSV(text: string): ImportResult {
+    const lines = text.split(/\r?\n/);
+    const headerIndex = lines.findIndex(line => line.trim() !== '');
+    if (headerIndex === -1) {
+      throw new Error('File is empty');
+    }
+
+    const delimiter = this.detectDelimiter(lines[headerIndex]);
+    const headers = this.splitCSVLine(lines[headerIndex], delimiter);
+    const columns = this.detectColumns(headers);
+
+    const records: { row: number; values: Record<string, string> }[] = [];
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+      if (lines[i].trim() === '') continue;
+      const cells = this.splitCSVLine(lines[i], delimiter);
+      const values: Record<string, string> = {};
+      headers.forEach((header, j) => {
+        values[header] = cells[j] ?? '';
+      });
+      records.push({ row: i + 1, values });
+    }
+
+    return this.buildResult('csv', columns, records);
+  }
+
+  static parseJSON(text: string): ImportResult {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new Error('Invalid JSON: ' + (error instanceof Error ? error.message : 'parse error'));
+    }
+
+    // Accept a bare array or a wrapper object such as { prices: [...] } or { data: [...] }
+    const rows: any[] | undefined = Array.isArray(data)
+      ? data
+      : [data?.prices, data?.data, data?.results, data?.bars].find(Array.isArray);
+
+    if (!rows) {
+      throw new Error('JSON must be an array of price records or contain a "prices" array');
+    }
+    if (rows.length === 0) {
+      throw new Error('File contains no price records');
+    }
+
+    const keys = Array.from(new Set(rows.flatMap(row => (row && typeof row === 'object' ? Object.keys(row) : []))));
+    const columns = this.detectColumns(keys);
+
+    const records = rows.map((row, i) => ({
+      row: i + 1,
+      values: row && typeof row === 'object' ? row : {}
+    }));
+
+    return this.buildResult('json', columns, records);
+  }
+
+  // Build StockData from an import so it can flow through the normal analysis pipeline
+  static toStockData(result: ImportResult, ticker: string, calendar?: TradingCalendar, fileName: string | null = null): StockData {
+    if (result.prices.length < 2) {
+      throw new Error('Need at least 2 valid price rows to analyze imported data');
+    }
+
+    // Rows were validated while parsing; this adds outlier and volume checks
+    const { prices, report } = PriceValidator.clean(result.prices, [], { calendar });
+    const fundamentals = emptyFundamentals();
+    const exchange = calendar || getCalendar();
+    // Files carry no currency; pairs and known symbols have one to go by
+    const currency = AssetClass.currency(ticker);
+
+    return {
+      ticker: ticker.toUpperCase(),
+      currentPrice: prices[prices.length - 1].close,
+      prices,
+      fundamentals,
+      interval: inferInterval(prices),
+      assetType: AssetClass.detect(ticker),
+      quality: report,
+      currency,
+      provenance: {
+        provider: null,
+        importedFrom: fileName,
+        fetchedAt: new Date(),
+        cacheStatus: null,
+        // Files are taken as they are; manual splits adjust them afterwards
+        adjustment: 'raw',
+        providerAdjusted: false,
+        currency,
+        exchange: exchange.id,
+        timeZone: exchange.config.timeZone,
+        fields: {
+          // Missing open/high/low columns are filled from the close
+          ...Provenance.priceFields(prices, (['open', 'high', 'low'] as const).filter(field => !result.columns[field])),
+          ...Provenance.fundamentalFields(fundamentals, fundamentals, 'unsupported'),
+          corporateActions: 'unsupported',
+          earnings: 'unsupported'
+        }
+      }
+    };
+  }
+
+  static detectColumns(headers: string[]): Partial<Record<PriceField, string>> {
+    const columns: Partial<Record<PriceField, string>> = {};
+    const normalized = headers.map(h => h.toLowerCase().replace(/[\s._-]/g, ''));
+
+    (Object.keys(COLUMN_ALIASES) as PriceField[]).forEach(field => {
+      for (const alias of COLUMN_ALIASES[field]) {
+        const index = normalized.indexOf(alias);
+        if (index !== -1 && !Object.values(columns).includes(headers[index])) {
+          columns[field] = headers[index];
+          break;
+        }
+      }
+    });
+
+    if (!columns.date) {
+      throw new Error(`Could not find a date column (looked for: ${COLUMN_ALIASES.date.join(', ')})`);
+    }
+    if (!columns.close) {
+      throw new Error(`Could not find a close price column (looked for: ${COLUMN_ALIASES.close.join(', ')})`);
+    }
+
+    return columns;
+  }
+
+  static parseDate(value: unknown): Date | null {
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : value;
+    }
+
+    if (typeof value === 'number' || (typeof value === 'string' && /^\d{9,13}$/.test(value.trim()))) {
+      const numeric = Number(value);
+      // Unix timestamps in seconds vs. milliseconds
+      const date = new Date(numeric < 1e11 ? numeric * 1000 : numeric);
+      return isNaN(date.getTime()) ? null : date;
+    }
+
+    if (typeof value !== 'string') return null;
+    const text = value.trim();
+    if (!text) return null;
+
+    // YYYY-MM-DD or YYYY/MM/DD (optionally followed by a time)
+    let match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T\s](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+    if (match) {
+      const [, y, m, d, hh, mm, ss] = match;
+      return this.buildDate(+y, +m, +d, hh ? +hh : 0, mm ? +mm : 0, ss ? +ss : 0);
+    }
+
+    // MM/DD/YYYY (US broker exports) or DD.MM.YYYY (European exports)
+    match = text.match(/^(\d{1,2})([/.])(\d{1,2})\2(\d{4})$/);
+    if (match) {
+      const [, a, separator, b, y] = match;
+      return separator === '.'
+        ? this.buildDate(+y, +b, +a)
+        : this.buildDate(+y, +a, +b);
+    }
+
+    const parsed = new Date(text);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  private static buildDate(y: number, m: number, d: number, hh = 0, mm = 0, ss = 0): Date | null {
+    if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+    const date = new Date(Date.UTC(y, m - 1, d, hh, mm, ss));
+    // Reject rollovers such as 2024-02-31
+    return date.getUTCMonth() === m - 1 ? date : null;
+  }
+
+  private static parseNumber(value: unknown): number {
+    if (typeof value === 'number') return value;
+    if (typeof value !== 'string') return NaN;
+    const cleaned = value.trim().replace(/[$,\s]/g, '');
+    return cleaned === '' ? NaN : Number(cleaned);
+  }
+
+  private static buildResult(
+    format: ImportFormat,
+    columns: Partial<Record<PriceField, string>>,
+    records: { row: number; values: Record<string, any> }[]
+  ): ImportResult {
+    const errors: ImportRowError[] = [];
+    const byTime = new Map<number, PricePoint>();
+
+    const addError = (row: number, message: string) => {
+      if (errors.length < this.MAX_ERRORS) {
+        errors.push({ row, message });
+      }
+    };
+
+    for (const { row, values } of records) {
+      const date = this.parseDate(values[columns.date!]);
+      if (!date) {
+        addError(row, `Invalid date "${values[columns.date!] ?? ''}"`);
+        continue;
+      }
+
+      const close = this.parseNumber(values[columns.close!]);
+      if (!isFinite(close) || close <= 0) {
+        addError(row, `Invalid close price "${values[columns.close!] ?? ''}"`);
+        continue;
+      }
+
+      // Missing OHLC columns fall back to the close so close-only exports still work
+      const readOptional = (field: PriceField, fallback: number): number | null => {
+        const column = columns[field];
+        if (!column || values[column] === undefined || values[column] === '') return fallback;
+        const parsed = this.parseNumber(values[column]);
+        return isFinite(parsed) ? parsed : null;
+      };
+
+      const open = readOptional('open', close);
+      const high = readOptional('high', Math.max(close, open ?? close));
+      const low = readOptional('low', Math.min(close, open ?? close));
+      const volume = readOptional('volume', 0);
+
+      if (open === null || high === null || low === null || volume === null) {
+        addError(row, 'Non-numeric open, high, low or volume value');
+        continue;
+      }
+      if (open <= 0 || high <= 0 || low <= 0) {
+        addError(row, 'Prices must be positive');
+        continue;
+      }
+      if (high < low) {
+        addError(row, `High (${high}) is below low (${low})`);
+        continue;
+      }
+      if (volume < 0) {
+        addError(row, 'Volume cannot be negative');
+        continue;
+      }
+      if (byTime.has(date.getTime())) {
+        addError(row, `Duplicate date ${date.toISOString().split('T')[0]}; keeping the later row`);
+      }
+
+      byTime.set(date.getTime(), { date, open, high, low, close, volume });
+    }
+
+    const sorted = Array.from(byTime.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+    // Daily exports stamped at a time of day (Polygon's midnight New York) key by session date
+    const prices = inferInterval(sorted) === 'daily'
+      ? sorted.map(bar => ({ ...bar, date: sessionDate(bar.date) }))
+      : sorted;
+
+    return {
+      format,
+      columns,
+      prices,
+      errors,
+      totalRows: records.length
+    };
+  }
+
+  private static detectDelimiter(headerLine: string): string {
+    const candidates = [',', ';', '\t', '|'];
+    let best = ',';
+    let bestCount = 0;
+    for (const candidate of candidates) {
+      const count = headerLine.split(candidate).length - 1;
+      if (count > bestCount) {
+        best = candidate;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+
+  private static splitCSVLine(line: string, delimiter: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') {
+        if (inQuotes && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = !inQuotes;
+        }
+      } else if (char === delimiter && !inQuotes) {
+        cells.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    cells.push(current.trim());
+
+    return cells;
+  }
+}
@@ -0,0 +1,200 @@
+// src/PriceValidation.ts
+import { CorporateAction, DataQualityIssue, DataQualityReport, OutlierReturn, PricePoint } from './types';
+import { TradingCalendar } from './TradingCalendar';
+
+export interface ValidationOptions {
+  // Robust z-score above which a bar-to-bar return is flagged
+  outlierThreshold: number;
+  // Exchange calendar used to detect sessions with no bars
+  calendar?: TradingCalendar;
+}
+
+export interface ValidationResult {
+  prices: PricePoint[];
+  report: DataQualityReport;
+}
+
+export const DEFAULT_VALIDATION_OPTIONS: ValidationOptions = {
+  outlierThreshold: 6
+};
+
+// Scale factor that makes the median absolute deviation comparable to a standard deviation
+const MAD_SCALE = 0.6745;
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+export class PriceValidator {
+  static readonly MAX_ISSUES = 100;
+
+  // Drop rows that cannot be used, repair rows that can, and flag suspicious
+  // returns without changing them. Known splits explain their own jumps.
+  static clean(
+    prices: PricePoint[],
+    corporateActions: CorporateAction[] = [],
+    options: Partial<ValidationOptions> = {}
+  ): ValidationResult {
+    const resolved = { ...DEFAULT_VALIDATION_OPTIONS, ...options };
+    const issues: DataQualityIssue[] = [];
+    let dropped = 0;
+    let flagged = 0;
+    const repairedRows = new Set<PricePoint>();
+
+    const addIssue = (issue: DataQualityIssue) => {
+      if (issues.length < this.MAX_ISSUES) {
+        issues.push(issue);
+      }
+    };
+
+    const valid: PricePoint[] = [];
+    for (const bar of prices) {
+      const date = bar.date instanceof Date ? bar.date : new Date(bar.date);
+      if (isNaN(date.getTime())) {
+        dropped++;
+        addIssue({ type: 'invalid-date', action: 'dropped', date: null, message: 'Bar with an unreadable timestamp' });
+        continue;
+      }
+
+      const close = Number(bar.close);
+      if (!isFinite(close) || close <= 0) {
+        dropped++;
+        addIssue({ type: 'invalid-price', action: 'dropped', date, message: `Missing or non-positive close (${bar.close})` });
+        continue;
+      }
+
+      const row: PricePoint = { date, open: Number(bar.open), high: Number(bar.high), low: Number(bar.low), close, volume: Number(bar.volume) };
+      const repair = (issue: Omit<DataQualityIssue, 'action' | 'date'>) => {
+        repairedRows.add(row);
+        addIssue({ ...issue, action: 'repaired', date });
+      };
+
+      // Missing open/high/low fall back to the close, as for close-only imports
+      (['open', 'high', 'low'] as const).forEach(field => {
+        if (!isFinite(row[field]) || row[field] <= 0) {
+          repair({ type: 'invalid-price', message: `Invalid ${field} (${bar[field]}) replaced with the close` });
+          row[field] = close;
+        }
+      });
+
+      if (row.high < row.low) {
+        repair({ type: 'high-low', message: `High (${row.high}) below low (${row.low}); values swapped` });
+        [row.high, row.low] = [row.low, row.high];
+      }
+
+      const top = Math.max(row.open, row.close);
+      const bottom = Math.min(row.open, row.close);
+      if (row.high < top || row.low > bottom) {
+        repair({ type: 'ohlc-range', message: 'Open or close outside the high-low range; range widened' });
+        row.high = Math.max(row.high, top);
+        row.low = Math.min(row.low, bottom);
+      }
+
+      if (!isFinite(row.volume) || row.volume < 0) {
+        repair({ type: 'invalid-volume', message: `Invalid volume (${bar.volume}) set to 0` });
+        row.volume = 0;
+      }
+
+      valid.push(row);
+    }
+
+    // Out-of-order timestamps: sort (stable, so duplicate order is preserved)
+    const outOfOrder = valid.filter((bar, i) => i > 0 && bar.date.getTime() < valid[i - 1].date.getTime()).length;
+    if (outOfOrder > 0) {
+      addIssue({
+        type: 'out-of-order',
+        action: 'repaired',
+        date: null,
+        message: `${outOfOrder} bar${outOfOrder === 1 ? ' was' : 's were'} out of order and the series was sorted`
+      });
+      valid.sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+
+    // Duplicate timestamps: the later row is the provider's latest revision
+    const cleaned: PricePoint[] = [];
+    valid.forEach(bar => {
+      const previous = cleaned[cleaned.length - 1];
+      if (previous && previous.date.getTime() === bar.date.getTime()) {
+        dropped++;
+        repairedRows.delete(previous);
+        addIssue({ type: 'duplicate', action: 'dropped', date: bar.date, message: 'Duplicate timestamp; kept the later bar' });
+        cleaned[cleaned.length - 1] = bar;
+      } else {
+        cleaned.push(bar);
+      }
+    });
+
+    // Zero volume is only suspicious when the series reports volume at all
+    if (cleaned.some(bar => bar.volume > 0)) {
+      cleaned.filter(bar => bar.volume === 0).forEach(bar => {
+        flagged++;
+        addIssue({ type: 'zero-volume', action: 'flagged', date: bar.date, message: 'Zero volume' });
+      });
+    }
+
+    const missingSessions = resolved.calendar ? resolved.calendar.findMissingSessions(cleaned) : [];
+    missingSessions.forEach(date => {
+      flagged++;
+      addIssue({ type: 'missing-session', action: 'flagged', date, message: `No bars for the ${resolved.calendar!.id} session` });
+    });
+
+    const outliers = this.findOutliers(cleaned, corporateActions, resolved.outlierThreshold);
+    outliers.forEach(outlier => {
+      flagged++;
+      addIssue({
+        type: 'outlier-return',
+        action: 'flagged',
+        date: outlier.date,
+        message: `Return of ${(Math.expm1(outlier.logReturn) * 100).toFixed(1)}% (z = ${outlier.zScore.toFixed(1)}); check for an unrecorded split or bad tick`
+      });
+    });
+
+    return {
+      prices: cleaned,
+      report: {
+        totalRows: prices.length,
+        validRows: cleaned.length,
+        dropped,
+        repaired: repairedRows.size,
+        flagged,
+        issues,
+        outliers,
+        missingSessions
+      }
+    };
+  }
+
+  // Flag returns whose robust z-score exceeds the threshold, skipping bars
+  // that span a known split
+  static findOutliers(
+    prices: PricePoint[],
+    corporateActions: CorporateAction[] = [],
+    threshold: number = DEFAULT_VALIDATION_OPTIONS.outlierThreshold
+  ): OutlierReturn[] {
+    if (prices.length < 3) return [];
+
+    const returns = prices.slice(1).map((bar, i) => Math.log(bar.close / prices[i].close));
+    const median = this.median(returns);
+    const mad = this.median(returns.map(r => Math.abs(r - median)));
+    if (mad === 0) return [];
+
+    const splitDays = corporateActions.filter(a => a.type === 'split').map(a => dayKey(a.date));
+
+    const outliers: OutlierReturn[] = [];
+    returns.forEach((logReturn, i) => {
+      const zScore = MAD_SCALE * (logReturn - median) / mad;
+      if (Math.abs(zScore) <= threshold) return;
+
+      const fromDay = dayKey(prices[i].date);
+      const toDay = dayKey(prices[i + 1].date);
+      if (splitDays.some(day => day > fromDay && day <= toDay)) return;
+
+      outliers.push({ date: prices[i + 1].date, logReturn, zScore });
+    });
+    return outliers;
+  }
+
+  private static median(values: number[]): number {
+    const sorted = values.slice().sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  }
+}
@@ -0,0 +1,77 @@
+// src/Provenance.ts
+import { DataProvenance, FieldAvailability, Fundamentals, PricePoint } from './types';
+
+type FundamentalField = Exclude<keyof Fundamentals, 'history' | 'currency'>;
+
+// Every field a provenance record accounts for, with its display label
+export const PROVENANCE_FIELDS: Record<string, string> = {
+  open: 'Open',
+  high: 'High',
+  low: 'Low',
+  close: 'Close',
+  volume: 'Volume',
+  pe: 'P/E ratio',
+  pb: 'P/B ratio',
+  peg: 'PEG ratio',
+  dividendYield: 'Dividend yield',
+  marketCap: 'Market cap',
+  eps: 'EPS',
+  revenue: 'Revenue',
+  grossMargin: 'Gross margin',
+  operatingMargin: 'Operating margin',
+  profitMargin: 'Profit margin',
+  returnOnEquity: 'Return on equity',
+  debtToEquity: 'Debt/equity',
+  freeCashFlow: 'Free cash flow',
+  sharesOutstanding: 'Shares outstanding',
+  forwardPe: 'Forward P/E',
+  forwardEps: 'Forward EPS',
+  targetPrice: 'Analyst target',
+  statements: 'Financial statements',
+  corporateActions: 'Splits and dividends',
+  earnings: 'Earnings dates'
+};
+
+const FUNDAMENTAL_FIELDS: FundamentalField[] = [
+  'pe', 'pb', 'peg', 'dividendYield', 'marketCap', 'eps', 'revenue', 'grossMargin', 'operatingMargin',
+  'profitMargin', 'returnOnEquity', 'debtToEquity', 'freeCashFlow', 'sharesOutstanding', 'forwardPe',
+  'forwardEps', 'targetPrice'
+];
+
+export class Provenance {
+  // OHLC always come from the source. Volume is missing when every bar has
+  // none, as in indices and files without a volume column.
+  static priceFields(bars: PricePoint[], derived: ('open' | 'high' | 'low')[] = []): Record<string, FieldAvailability> {
+    const fields: Record<string, FieldAvailability> = {};
+    (['open', 'high', 'low'] as const).forEach(field => {
+      fields[field] = derived.includes(field) ? 'derived' : 'reported';
+    });
+    fields.close = 'reported';
+    fields.volume = bars.some(bar => bar.volume > 0) ? 'reported' : 'missing';
+    return fields;
+  }
+
+  // Compare what the source reported with what FundamentalAnalysis.complete
+  // filled in. `absent` describes fields neither provides: 'missing' when the
+  // source offers fundamentals, 'unsupported' when it does not.
+  static fundamentalFields(
+    reported: Fundamentals,
+    completed: Fundamentals,
+    absent: FieldAvailability
+  ): Record<string, FieldAvailability> {
+    const fields: Record<string, FieldAvailability> = {};
+    FUNDAMENTAL_FIELDS.forEach(field => {
+      fields[field] = reported[field] !== null ? 'reported' : completed[field] !== null ? 'derived' : absent;
+    });
+    const { quarterly, annual } = reported.history;
+    fields.statements = quarterly.length + annual.length > 0 ? 'reported' : absent;
+    return fields;
+  }
+
+  // Counts per availability, for a one-line summary
+  static summarize(provenance: DataProvenance): Record<FieldAvailability, number> {
+    const counts: Record<FieldAvailability, number> = { reported: 0, derived: 0, missing: 0, unsupported: 0 };
+    Object.values(provenance.fields).forEach(availability => counts[availability]++);
+    return counts;
+  }
+}
@@ -0,0 +1,195 @@
+// src/QuoteStream.ts
+import { Quote, QuoteStreamProtocol } from './types';
+import { AuthError, DataFetchError, NetworkError, RetryOptions, backoffDelay } from './DataErrors';
+
+// Where `npm run mock-quotes` listens
+export const MOCK_QUOTE_SERVER_URL = 'ws://localhost:8787';
+
+export type QuoteStreamStatus = 'connecting' | 'live' | 'reconnecting' | 'closed' | 'error';
+
+export type QuoteListener = (quote: Quote) => void;
+export type QuoteStatusListener = (status: QuoteStreamStatus, error: DataFetchError | null) => void;
+
+// Tests substitute a fake socket
+export type SocketFactory = (url: string) => WebSocket;
+
+// Consecutive failed connection attempts before giving up
+const RECONNECT_OPTIONS: RetryOptions = {
+  maxAttempts: 6,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// Plain JSON protocol spoken by the mock server, simple enough for in-house feeds:
+//   client: {"type":"auth","apiKey":"..."} (optional), {"type":"subscribe","symbols":["AAPL"]}
+//   server: {"type":"trade","symbol":"AAPL","price":189.5,"size":100,"timestamp":1718000000000}
+//           {"type":"error","message":"...","auth":true}
+export function genericQuoteProtocol(url: string, apiKey: string | null = null): QuoteStreamProtocol {
+  return {
+    url,
+    handshake: apiKey ? [JSON.stringify({ type: 'auth', apiKey })] : [],
+    subscribe: symbols => JSON.stringify({ type: 'subscribe', symbols }),
+    unsubscribe: symbols => JSON.stringify({ type: 'unsubscribe', symbols }),
+    parse(message: string): Quote[] {
+      const data = JSON.parse(message);
+      return (Array.isArray(data) ? data : [data]).flatMap((event: any): Quote[] => {
+        if (event.type === 'error' && event.auth) {
+          throw new AuthError(event.message || 'The quote server rejected the credentials.');
+        }
+        if (event.type !== 'trade' || typeof event.price !== 'number') return [];
+        return [{ ticker: event.symbol, price: event.price, size: event.size || 0, timestamp: new Date(event.timestamp) }];
+      });
+    }
+  };
+}
+
+// One WebSocket connection carrying trades for any number of tickers. Drops
+// are retried with the same backoff as HTTP requests; rejected credentials
+// are not.
+export class QuoteStream {
+  private socket: WebSocket | null = null;
+  private tickers = new Set<string>();
+  private quoteListeners = new Set<QuoteListener>();
+  private statusListeners = new Set<QuoteStatusListener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private failedAttempts = 0;
+  private stopped = true;
+  private retryOptions: RetryOptions;
+  status: QuoteStreamStatus = 'closed';
+
+  constructor(
+    private protocol: QuoteStreamProtocol,
+    private createSocket: SocketFactory = url => new WebSocket(url),
+    retryOptions: Partial<RetryOptions> = {}
+  ) {
+    this.retryOptions = { ...RECONNECT_OPTIONS, ...retryOptions };
+  }
+
+  get url(): string {
+    return this.protocol.url;
+  }
+
+  connect(): void {
+    this.stopped = false;
+    this.failedAttempts = 0;
+    this.open('connecting');
+  }
+
+  close(): void {
+    this.stopped = true;
+    this.clearReconnect();
+    this.detach();
+    this.setStatus('closed', null);
+  }
+
+  subscribe(ticker: string): void {
+    const symbol = ticker.toUpperCase();
+    if (this.tickers.has(symbol)) return;
+    this.tickers.add(symbol);
+    if (this.status === 'live') this.socket!.send(this.protocol.subscribe([symbol]));
+  }
+
+  unsubscribe(ticker: string): void {
+    const symbol = ticker.toUpperCase();
+    if (!this.tickers.delete(symbol)) return;
+    if (this.status === 'live') this.socket!.send(this.protocol.unsubscribe([symbol]));
+  }
+
+  onQuote(listener: QuoteListener): () => void {
+    this.quoteListeners.add(listener);
+    return () => {
+      this.quoteListeners.delete(listener);
+    };
+  }
+
+  onStatus(listener: QuoteStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private open(status: QuoteStreamStatus): void {
+    this.setStatus(status, null);
+    let socket: WebSocket;
+    try {
+      socket = this.createSocket(this.protocol.url);
+    } catch (error) {
+      this.fail(new NetworkError(`Could not open ${this.protocol.url}`, { cause: error }));
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.failedAttempts = 0;
+      this.protocol.handshake.forEach(message => socket.send(message));
+      if (this.tickers.size > 0) socket.send(this.protocol.subscribe(Array.from(this.tickers)));
+      this.setStatus('live', null);
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      let quotes: Quote[];
+      try {
+        quotes = this.protocol.parse(String(event.data));
+      } catch (error) {
+        if (error instanceof AuthError) {
+          this.stopped = true;
+          this.detach();
+          this.setStatus('error', error);
+        }
+        // Anything else is a message we don't understand; skip it
+        return;
+      }
+      quotes
+        .filter(quote => this.tickers.has(quote.ticker.toUpperCase()) && isFinite(quote.price) && quote.price > 0)
+        .forEach(quote => this.quoteListeners.forEach(listener => listener(quote)));
+    };
+
+    // Errors are always followed by a close event, which does the reconnecting
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (!this.stopped) {
+        this.fail(new NetworkError(`Quote stream at ${this.protocol.url} disconnected`));
+      }
+    };
+  }
+
+  private fail(error: DataFetchError): void {
+    this.failedAttempts++;
+    if (this.failedAttempts >= this.retryOptions.maxAttempts) {
+      this.stopped = true;
+      this.setStatus('error', error);
+      return;
+    }
+    this.setStatus('reconnecting', error);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) this.open('reconnecting');
+    }, backoffDelay(this.failedAttempts, this.retryOptions));
+  }
+
+  private detach(): void {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setStatus(status: QuoteStreamStatus, error: DataFetchError | null): void {
+    if (status === this.status && error === null) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status, error));
+  }
+}
@@ -0,0 +1,60 @@
+// src/Random.ts
+
+// Seedable pseudo-random numbers (xoshiro128**), so a simulation can be run
+// again from its seed and give exactly the same paths. Seeds are unsigned
+// 32-bit integers.
+export const MAX_SEED = 0xffffffff;
+
+const rotl = (x: number, k: number) => (x << k) | (x >>> (32 - k));
+
+export class Random {
+  private readonly state = new Uint32Array(4);
+
+  constructor(readonly seed: number) {
+    if (!Random.isSeed(seed)) {
+      throw new Error(`Seed must be an integer between 0 and ${MAX_SEED}`);
+    }
+    // Expand the seed into the 128-bit state with splitmix32
+    let x = seed;
+    for (let i = 0; i < 4; i++) {
+      x = (x + 0x9e3779b9) >>> 0;
+      let z = x;
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+      this.state[i] = z ^ (z >>> 16);
+    }
+  }
+
+  static isSeed(value: number): boolean {
+    return Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+  }
+
+  // Seed for a run the user did not seed
+  static randomSeed(): number {
+    if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+      return crypto.getRandomValues(new Uint32Array(1))[0];
+    }
+    return Math.floor(Math.random() * (MAX_SEED + 1));
+  }
+
+  // Uniform on [0, 1)
+  next(): number {
+    const s = this.state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+    return result / (MAX_SEED + 1);
+  }
+
+  // Standard normal by the Box-Muller transform; 1 - u keeps the log finite
+  normal(): number {
+    const u = 1 - this.next();
+    const v = this.next();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
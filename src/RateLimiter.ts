@@ -0,0 +1,209 @@
+// src/RateLimiter.ts
+import { ApiProvider, ProviderRateLimit } from './types';
+import { msUntilUtcMidnight, QuotaExceededError } from './DataErrors';
+
+export interface SchedulerStatus {
+  provider: ApiProvider;
+  queued: number;
+  waitMs: number; // time until the next queued request may start
+}
+
+export type SchedulerListener = (status: SchedulerStatus) => void;
+
+// Requests that can still be made right now, and today (null when the plan has no daily cap)
+export interface ProviderQuota {
+  provider: ApiProvider;
+  minute: { remaining: number; limit: number };
+  day: { remaining: number; limit: number } | null;
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private capacity: number,
+    private refillPerMs: number,
+    private now: () => number = Date.now
+  ) {
+    if (capacity <= 0 || refillPerMs <= 0) {
+      throw new Error('Token bucket capacity and refill rate must be positive');
+    }
+    this.tokens = capacity;
+    this.lastRefill = this.now();
+  }
+
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+    return false;
+  }
+
+  // Whole tokens available now
+  available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  // Milliseconds until one token is available (0 if one is available now)
+  msUntilToken(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  // Empty the bucket, e.g. when the server reports throttling we did not predict
+  drain(): void {
+    this.refill();
+    this.tokens = 0;
+  }
+
+  private refill(): void {
+    const current = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (current - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = current;
+  }
+}
+
+interface QueuedTask {
+  run: () => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAILY_KEY_PREFIX = 'finance-rate-limit';
+
+// Queues provider requests and releases them no faster than the plan allows.
+// The per-day quota is tracked in localStorage so reloads don't reset it:
+// one entry per provider holding the UTC date and that day's count.
+export class RequestScheduler {
+  private bucket: TokenBucket;
+  private queue: QueuedTask[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<SchedulerListener>();
+
+  constructor(
+    private provider: ApiProvider,
+    private rateLimit: ProviderRateLimit,
+    private now: () => number = Date.now
+  ) {
+    this.bucket = new TokenBucket(
+      rateLimit.requestsPerMinute,
+      rateLimit.requestsPerMinute / MINUTE_MS,
+      now
+    );
+  }
+
+  schedule<T>(run: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({ run, resolve, reject });
+      this.pump();
+    });
+  }
+
+  subscribe(listener: SchedulerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): SchedulerStatus {
+    return {
+      provider: this.provider,
+      queued: this.queue.length,
+      waitMs: this.queue.length > 0 ? this.bucket.msUntilToken() : 0
+    };
+  }
+
+  // Requests made today against the daily quota (null when the plan has none)
+  getDailyUsage(): { used: number; limit: number } | null {
+    if (this.rateLimit.requestsPerDay === null) return null;
+    return { used: this.readDailyCount(), limit: this.rateLimit.requestsPerDay };
+  }
+
+  getQuota(): ProviderQuota {
+    const daily = this.getDailyUsage();
+    return {
+      provider: this.provider,
+      minute: { remaining: this.bucket.available(), limit: this.rateLimit.requestsPerMinute },
+      day: daily && { remaining: Math.max(0, daily.limit - daily.used), limit: daily.limit }
+    };
+  }
+
+  // Called when the provider throttles us anyway; hold further requests back
+  // for a full refill window.
+  penalize(): void {
+    this.bucket.drain();
+    this.pump();
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      if (this.isDailyQuotaExhausted()) {
+        const error = new QuotaExceededError(`Daily request limit reached for ${this.provider}. Please try again tomorrow.`, {
+          provider: this.provider,
+          retryAfterMs: msUntilUtcMidnight(this.now())
+        });
+        this.queue.splice(0).forEach(task => task.reject(error));
+        break;
+      }
+
+      if (!this.bucket.tryTake()) {
+        this.timer = setTimeout(() => this.pump(), this.bucket.msUntilToken());
+        break;
+      }
+
+      const task = this.queue.shift()!;
+      this.incrementDailyCount();
+      task.run().then(task.resolve, task.reject);
+    }
+
+    this.notify();
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  private isDailyQuotaExhausted(): boolean {
+    const limit = this.rateLimit.requestsPerDay;
+    return limit !== null && this.readDailyCount() >= limit;
+  }
+
+  private dailyKey(): string {
+    return `${DAILY_KEY_PREFIX}:${this.provider}`;
+  }
+
+  private today(): string {
+    return new Date(this.now()).toISOString().split('T')[0];
+  }
+
+  // A count from an earlier day has reset
+  private readDailyCount(): number {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.dailyKey()) || 'null');
+      return stored?.date === this.today() ? Number(stored.count) || 0 : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  private incrementDailyCount(): void {
+    if (this.rateLimit.requestsPerDay === null) return;
+    try {
+      localStorage.setItem(this.dailyKey(), JSON.stringify({ date: this.today(), count: this.readDailyCount() + 1 }));
+    } catch {
+      // Storage unavailable; the per-minute bucket still applies
+    }
+  }
+}
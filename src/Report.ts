@@ -0,0 +1,115 @@
+// src/Report.ts
+import {
+  AnalyticsParams,
+  AnalyticsResult,
+  AssetType,
+  BarInterval,
+  DataProvenance,
+  DataSources,
+  Fundamentals,
+  FxRate,
+  ProviderFailure,
+  Recommendation,
+  RecommendationAnalysis,
+  StockData
+} from './types';
+
+// A saved copy of the analysis. The provenance travels with the numbers so a
+// report always says where its data came from and what was missing.
+export interface AnalysisReport {
+  generatedAt: Date;
+  ticker: string;
+  assetType: AssetType;
+  provenance: DataProvenance | null;
+  sources: DataSources | null;
+  providerFailures: ProviderFailure[];
+  // Currency of every amount below, and the conversion into it if any
+  currency: string | null;
+  fx: FxRate | null;
+  prices: {
+    current: number;
+    interval: BarInterval;
+    bars: number;
+    first: Date | null;
+    last: Date | null;
+  };
+  fundamentals: Omit<Fundamentals, 'history'>;
+  quality: { dropped: number; repaired: number; flagged: number; missingSessions: number } | null;
+  simulation: {
+    params: Omit<AnalyticsParams, 'eventJumps'>;
+    eventJumpSteps: number[];
+    probabilities: AnalyticsResult['probabilities'];
+    percentiles: AnalyticsResult['percentiles'];
+    var95: number;
+    var99: number;
+    expectedShortfall95: number;
+    expectedShortfall99: number;
+    currentVolatility: number;
+  } | null;
+  recommendation: {
+    overall: Recommendation;
+    summary: string;
+  } | null;
+}
+
+export class Report {
+  static build(
+    data: StockData,
+    analytics: AnalyticsResult | null,
+    params: AnalyticsParams,
+    recommendations: RecommendationAnalysis | null,
+    now: Date = new Date()
+  ): AnalysisReport {
+    const { history, ...fundamentals } = data.fundamentals;
+    const { eventJumps, ...simulationParams } = params;
+
+    return {
+      generatedAt: now,
+      ticker: data.ticker,
+      assetType: data.assetType || 'equity',
+      provenance: data.provenance || null,
+      sources: data.sources || null,
+      providerFailures: data.providerFailures || [],
+      currency: data.currency ?? null,
+      fx: data.fx || null,
+      prices: {
+        current: data.currentPrice,
+        interval: data.interval || 'daily',
+        bars: data.prices.length,
+        first: data.prices[0]?.date || null,
+        last: data.prices[data.prices.length - 1]?.date || null
+      },
+      fundamentals,
+      quality: data.quality
+        ? {
+          dropped: data.quality.dropped,
+          repaired: data.quality.repaired,
+          flagged: data.quality.flagged,
+          missingSessions: data.quality.missingSessions.length
+        }
+        : null,
+      simulation: analytics
+        ? {
+          params: simulationParams,
+          eventJumpSteps: eventJumps?.steps || [],
+          probabilities: analytics.probabilities,
+          percentiles: analytics.percentiles,
+          var95: analytics.var95,
+          var99: analytics.var99,
+          expectedShortfall95: analytics.expectedShortfall95,
+          expectedShortfall99: analytics.expectedShortfall99,
+          currentVolatility: analytics.currentVolatility
+        }
+        : null,
+      recommendation: recommendations ? { overall: recommendations.overall, summary: recommendations.summary } : null
+    };
+  }
+
+  static toJSON(report: AnalysisReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  static fileName(report: AnalysisReport): string {
+    return `${report.ticker}-report-${report.generatedAt.toISOString().split('T')[0]}.json`;
+  }
+}
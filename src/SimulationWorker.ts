@@ -0,0 +1,90 @@
+// src/SimulationWorker.ts
+import { Analytics } from './Analytics';
+import { AnalyticsParams, WorkerMessage, WorkerResponse } from './types';
+
+// Module worker for the heavy analytics, so simulations run the same
+// Analytics code as everything else. Loaded by App with
+// new Worker(new URL('./SimulationWorker.ts', import.meta.url)).
+
+interface StartingPoint {
+  initialPrice: number;
+  initialVolatility: number;
+  drift: number;
+  trend: number;
+}
+
+// Explicit values win; the rest are estimated from the price history: the
+// last close, the latest GARCH volatility and the trend-following drift
+function startingPoint(payload: WorkerMessage['payload'], params: AnalyticsParams): StartingPoint {
+  const { prices, elapsedBars, initialPrice, initialVolatility, drift } = payload;
+  if (!prices) {
+    if (initialPrice === undefined || initialVolatility === undefined || drift === undefined) {
+      throw new Error('Need a price history or an initial price, volatility and drift');
+    }
+    return { initialPrice, initialVolatility, drift, trend: 0 };
+  }
+
+  const returns = Analytics.calculateReturns(prices, elapsedBars);
+  const volatilities = Analytics.calculateGARCHVolatility(returns, params.alpha, params.beta);
+  const estimate = Analytics.calculateTrendAndDrift(prices, params.theta);
+  return {
+    initialPrice: initialPrice ?? prices[prices.length - 1].close,
+    initialVolatility: initialVolatility ?? volatilities[volatilities.length - 1],
+    drift: drift ?? estimate.drift,
+    trend: estimate.trend
+  };
+}
+
+function required<T>(value: T | undefined, name: string): T {
+  if (value === undefined) {
+    throw new Error(`Missing ${name}`);
+  }
+  return value;
+}
+
+export function handleWorkerMessage({ type, payload }: WorkerMessage): WorkerResponse {
+  try {
+    switch (type) {
+      case 'RUN_SIMULATION': {
+        const params = required(payload.params, 'simulation parameters');
+        const start = startingPoint(payload, params);
+        const result = Analytics.runMonteCarloSimulation(start.initialPrice, params, start.initialVolatility, start.drift);
+        return {
+          type: 'SIMULATION_COMPLETE',
+          payload: { ...result, currentVolatility: start.initialVolatility, trend: start.trend, drift: start.drift }
+        };
+      }
+      case 'RUN_STRESS_TEST': {
+        const params = required(payload.params, 'simulation parameters');
+        const start = startingPoint(payload, params);
+        return {
+          type: 'STRESS_TEST_COMPLETE',
+          payload: Analytics.runStressTest(start.initialPrice, params, start.initialVolatility, start.drift, required(payload.scenarios, 'scenarios'))
+        };
+      }
+      case 'CALCULATE_CORRELATIONS':
+        return {
+          type: 'CORRELATIONS_COMPLETE',
+          payload: Analytics.calculateCorrelationMatrix(required(payload.assetPrices, 'asset prices'), payload.assets)
+        };
+      default:
+        return { type: 'ERROR', payload: `Unknown message type: ${type}` };
+    }
+  } catch (error) {
+    return { type: 'ERROR', payload: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// The worker global, typed without the webworker lib so it doesn't clash
+// with the DOM types the rest of src compiles against
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerMessage>) => void) | null;
+  postMessage(response: WorkerResponse): void;
+}
+
+declare const self: WorkerScope;
+
+// Only bind when loaded as a worker; tests import the handler directly
+if (typeof window === 'undefined') {
+  self.onmessage = event => self.postMessage(handleWorkerMessage(event.data));
+}
@@ -12,12 +12,27 @@ import {
   Legend,
   ResponsiveContainer,
   ComposedChart,
+  ReferenceArea,
   ReferenceLine
 } from 'recharts';
 import { PricePoint, TechnicalIndicators, RecommendationAnalysis } from './types';
+import { MarketEvent } from './EventCalendar';
+import { Format } from './Format';
+
+const EVENT_MARKERS = {
+  earnings: { stroke: '#dc2626', label: 'E' },
+  'ex-dividend': { stroke: '#059669', label: 'D' }
+};
 
 interface StunningHistoricalChartProps {
   prices: PricePoint[];
+  // Unadjusted bars, drawn alongside when they differ from `prices`
+  rawPrices?: PricePoint[];
+  // Earnings and ex-dividend dates marked on the chart
+  events?: MarketEvent[];
+  // Inferred regime of each bar (1 bull, -1 bear), shaded behind the price
+  regimes?: number[];
+  currency?: string | null;
   indicators: TechnicalIndicators;
   trend: number;
   showIndicators: {
@@ -31,14 +46,22 @@ interface StunningHistoricalChartProps {
 
 export const StunningHistoricalChart: React.FC<StunningHistoricalChartProps> = ({
   prices,
+  rawPrices,
+  events = [],
+  regimes = [],
+  currency = null,
   indicators,
   trend,
   showIndicators
 }) => {
+  const showRaw = !!rawPrices && rawPrices.length === prices.length
+    && rawPrices.some((raw, i) => Math.abs(raw.close - prices[i].close) > 1e-9);
+
   const chartData = useMemo(() => {
     return prices.map((price, index) => ({
       date: price.date.toISOString().split('T')[0],
       price: price.close,
+      rawPrice: rawPrices?.[index]?.close,
       open: price.open,
       high: price.high,
       low: price.low,
@@ -51,16 +74,49 @@ export const StunningHistoricalChart: React.FC<StunningHistoricalChartProps> = (
       sma50: indicators.movingAverages.sma50[index] || price.close,
       volumeSMA: indicators.volume.volumeSMA[index] || price.volume,
     }));
-  }, [prices, indicators, trend]);
+  }, [prices, rawPrices, indicators, trend]);
+
+  // Place each event on the first bar on or after its date (events on
+  // non-trading days show on the next session)
+  const eventMarkers = useMemo(() => {
+    if (chartData.length === 0) return [];
+    const first = chartData[0].date;
+    const last = chartData[chartData.length - 1].date;
+    return events
+      .map(event => ({ event, day: event.date.toISOString().split('T')[0] }))
+      .filter(({ day }) => day >= first && day <= last)
+      .map(({ event, day }) => ({ event, x: chartData.find(point => point.date >= day)!.date }));
+  }, [chartData, events]);
+
+  // Runs of bars in the same regime; bars past the end of `regimes` (live
+  // candles) are left unshaded
+  const regimeBands = useMemo(() => {
+    const bands: { regime: number; x1: string; x2: string }[] = [];
+    chartData.slice(0, regimes.length).forEach((point, i) => {
+      const last = bands[bands.length - 1];
+      if (last && last.regime === regimes[i]) {
+        last.x2 = point.date;
+      } else {
+        bands.push({ regime: regimes[i], x1: point.date, x2: point.date });
+      }
+    });
+    return bands;
+  }, [chartData, regimes]);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
+      const dayEvents = eventMarkers.filter(marker => marker.x === label);
       return (
         <div className="bg-white/95 backdrop-blur-sm border border-gray-200 rounded-lg p-4 shadow-lg">
           <p className="font-semibold text-gray-900 mb-2">{label}</p>
           {payload.map((entry: any, index: number) => (
             <p key={index} className="text-sm" style={{ color: entry.color }}>
-              {entry.name}: {entry.value?.toFixed(2)}
+              {entry.name}: {Format.number(entry.value)}
+            </p>
+          ))}
+          {dayEvents.map(({ event }, index) => (
+            <p key={`event-${index}`} className="text-sm" style={{ color: EVENT_MARKERS[event.type].stroke }}>
+              {event.label}
             </p>
           ))}
         </div>
@@ -85,6 +141,18 @@ export const StunningHistoricalChart: React.FC<StunningHistoricalChartProps> = (
           </defs>
           
           <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" opacity={0.3} />
+
+          {/* Bull (green) and bear (red) regimes */}
+          {regimeBands.map(band => (
+            <ReferenceArea
+              key={band.x1}
+              x1={band.x1}
+              x2={band.x2}
+              fill={band.regime > 0 ? '#10b981' : '#ef4444'}
+              fillOpacity={0.08}
+              strokeOpacity={0}
+            />
+          ))}
           <XAxis 
             dataKey="date" 
             stroke="#6b7280"
@@ -97,7 +165,7 @@ export const StunningHistoricalChart: React.FC<StunningHistoricalChartProps> = (
             fontSize={12}
             tickLine={false}
             axisLine={false}
-            tickFormatter={(value) => `$${value.toFixed(0)}`}
+            tickFormatter={(value) => Format.money(value, currency, 0)}
           />
           <Tooltip content={<CustomTooltip />} />
           <Legend />
@@ -113,6 +181,19 @@ export const StunningHistoricalChart: React.FC<StunningHistoricalChartProps> = (
             name="Price"
           />
 
+          {/* Unadjusted close, shown when splits or dividends changed the series */}
+          {showRaw && (
+            <Line
+              type="monotone"
+              dataKey="rawPrice"
+              stroke="#94a3b8"
+              strokeWidth={1.5}
+              strokeDasharray="3 3"
+              dot={false}
+              name="Raw Close"
+            />
+          )}
+
           {/* Trend Line */}
           <Line
             type="monotone"
@@ -185,6 +266,18 @@ export const StunningHistoricalChart: React.FC<StunningHistoricalChartProps> = (
               name="Volume"
             />
           )}
+
+          {/* Earnings (E) and ex-dividend (D) dates */}
+          {eventMarkers.map(({ event, x }, index) => (
+            <ReferenceLine
+              key={`${event.type}-${index}`}
+              x={x}
+              stroke={EVENT_MARKERS[event.type].stroke}
+              strokeDasharray="2 4"
+              strokeOpacity={0.7}
+              label={{ value: EVENT_MARKERS[event.type].label, position: 'top', fill: EVENT_MARKERS[event.type].stroke, fontSize: 11 }}
+            />
+          ))}
         </ComposedChart>
       </ResponsiveContainer>
     </div>
@@ -217,7 +310,7 @@ export const StunningTechnicalChart: React.FC<StunningTechnicalChartProps> = ({
           <p className="font-semibold text-gray-900 mb-2">{label}</p>
           {payload.map((entry: any, index: number) => (
             <p key={index} className="text-sm" style={{ color: entry.color }}>
-              {entry.name}: {entry.value?.toFixed(2)}
+              {entry.name}: {Format.number(entry.value)}
             </p>
           ))}
         </div>
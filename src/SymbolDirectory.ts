@@ -0,0 +1,117 @@
+// src/SymbolDirectory.ts
+import { SymbolMatch } from './types';
+
+type BundledSymbol = [symbol: string, name: string, exchange: string, assetType: string];
+
+// Widely held US listings, searchable without an API key or network access
+const BUNDLED: BundledSymbol[] = [
+  ['AAPL', 'Apple Inc.', 'NASDAQ', 'Equity'],
+  ['MSFT', 'Microsoft Corporation', 'NASDAQ', 'Equity'],
+  ['NVDA', 'NVIDIA Corporation', 'NASDAQ', 'Equity'],
+  ['AMZN', 'Amazon.com Inc.', 'NASDAQ', 'Equity'],
+  ['GOOGL', 'Alphabet Inc. Class A', 'NASDAQ', 'Equity'],
+  ['GOOG', 'Alphabet Inc. Class C', 'NASDAQ', 'Equity'],
+  ['META', 'Meta Platforms Inc.', 'NASDAQ', 'Equity'],
+  ['TSLA', 'Tesla Inc.', 'NASDAQ', 'Equity'],
+  ['AVGO', 'Broadcom Inc.', 'NASDAQ', 'Equity'],
+  ['AMD', 'Advanced Micro Devices Inc.', 'NASDAQ', 'Equity'],
+  ['INTC', 'Intel Corporation', 'NASDAQ', 'Equity'],
+  ['QCOM', 'QUALCOMM Inc.', 'NASDAQ', 'Equity'],
+  ['CSCO', 'Cisco Systems Inc.', 'NASDAQ', 'Equity'],
+  ['ADBE', 'Adobe Inc.', 'NASDAQ', 'Equity'],
+  ['NFLX', 'Netflix Inc.', 'NASDAQ', 'Equity'],
+  ['PEP', 'PepsiCo Inc.', 'NASDAQ', 'Equity'],
+  ['COST', 'Costco Wholesale Corporation', 'NASDAQ', 'Equity'],
+  ['SBUX', 'Starbucks Corporation', 'NASDAQ', 'Equity'],
+  ['PYPL', 'PayPal Holdings Inc.', 'NASDAQ', 'Equity'],
+  ['ORCL', 'Oracle Corporation', 'NYSE', 'Equity'],
+  ['CRM', 'Salesforce Inc.', 'NYSE', 'Equity'],
+  ['IBM', 'International Business Machines Corporation', 'NYSE', 'Equity'],
+  ['JPM', 'JPMorgan Chase & Co.', 'NYSE', 'Equity'],
+  ['BAC', 'Bank of America Corporation', 'NYSE', 'Equity'],
+  ['WFC', 'Wells Fargo & Company', 'NYSE', 'Equity'],
+  ['GS', 'Goldman Sachs Group Inc.', 'NYSE', 'Equity'],
+  ['MS', 'Morgan Stanley', 'NYSE', 'Equity'],
+  ['V', 'Visa Inc.', 'NYSE', 'Equity'],
+  ['MA', 'Mastercard Inc.', 'NYSE', 'Equity'],
+  ['BRK.B', 'Berkshire Hathaway Inc. Class B', 'NYSE', 'Equity'],
+  ['JNJ', 'Johnson & Johnson', 'NYSE', 'Equity'],
+  ['PFE', 'Pfizer Inc.', 'NYSE', 'Equity'],
+  ['MRK', 'Merck & Co. Inc.', 'NYSE', 'Equity'],
+  ['LLY', 'Eli Lilly and Company', 'NYSE', 'Equity'],
+  ['UNH', 'UnitedHealth Group Inc.', 'NYSE', 'Equity'],
+  ['PG', 'Procter & Gamble Company', 'NYSE', 'Equity'],
+  ['KO', 'Coca-Cola Company', 'NYSE', 'Equity'],
+  ['WMT', 'Walmart Inc.', 'NYSE', 'Equity'],
+  ['HD', 'Home Depot Inc.', 'NYSE', 'Equity'],
+  ['MCD', "McDonald's Corporation", 'NYSE', 'Equity'],
+  ['NKE', 'Nike Inc.', 'NYSE', 'Equity'],
+  ['DIS', 'Walt Disney Company', 'NYSE', 'Equity'],
+  ['XOM', 'Exxon Mobil Corporation', 'NYSE', 'Equity'],
+  ['CVX', 'Chevron Corporation', 'NYSE', 'Equity'],
+  ['BA', 'Boeing Company', 'NYSE', 'Equity'],
+  ['CAT', 'Caterpillar Inc.', 'NYSE', 'Equity'],
+  ['GE', 'General Electric Company', 'NYSE', 'Equity'],
+  ['F', 'Ford Motor Company', 'NYSE', 'Equity'],
+  ['GM', 'General Motors Company', 'NYSE', 'Equity'],
+  ['T', 'AT&T Inc.', 'NYSE', 'Equity'],
+  ['VZ', 'Verizon Communications Inc.', 'NYSE', 'Equity'],
+  ['SPY', 'SPDR S&P 500 ETF Trust', 'NYSE Arca', 'ETF'],
+  ['VOO', 'Vanguard S&P 500 ETF', 'NYSE Arca', 'ETF'],
+  ['VTI', 'Vanguard Total Stock Market ETF', 'NYSE Arca', 'ETF'],
+  ['QQQ', 'Invesco QQQ Trust', 'NASDAQ', 'ETF'],
+  ['IWM', 'iShares Russell 2000 ETF', 'NYSE Arca', 'ETF'],
+  ['DIA', 'SPDR Dow Jones Industrial Average ETF Trust', 'NYSE Arca', 'ETF'],
+  ['GLD', 'SPDR Gold Shares', 'NYSE Arca', 'ETF'],
+  ['TLT', 'iShares 20+ Year Treasury Bond ETF', 'NASDAQ', 'ETF'],
+  ['AGG', 'iShares Core US Aggregate Bond ETF', 'NYSE Arca', 'ETF']
+];
+
+const OFFLINE_SYMBOLS: SymbolMatch[] = BUNDLED.map(([symbol, name, exchange, assetType]) => ({
+  symbol,
+  name,
+  exchange,
+  assetType,
+  currency: 'USD',
+  region: 'United States'
+}));
+
+export class SymbolDirectory {
+  // Rank a match against the query: exact symbol, symbol prefix, word prefix
+  // in the name, then any substring. Lower is better; null means no match.
+  static rank(match: SymbolMatch, query: string): number | null {
+    const q = query.trim().toUpperCase();
+    if (!q) return null;
+
+    const symbol = match.symbol.toUpperCase();
+    const name = match.name.toUpperCase();
+    if (symbol === q) return 0;
+    if (symbol.startsWith(q)) return 1;
+    if (name.split(/[\s.,&-]+/).some(word => word.startsWith(q))) return 2;
+    if (symbol.includes(q) || name.includes(q)) return 3;
+    return null;
+  }
+
+  static search(query: string, limit: number = 8, symbols: SymbolMatch[] = OFFLINE_SYMBOLS): SymbolMatch[] {
+    return symbols
+      .map(match => ({ match, rank: this.rank(match, query) }))
+      .filter((entry): entry is { match: SymbolMatch; rank: number } => entry.rank !== null)
+      // Stable sort keeps the bundled (rough market-cap) order within a rank
+      .sort((a, b) => a.rank - b.rank)
+      .slice(0, limit)
+      .map(entry => entry.match);
+  }
+
+  // The bundled entry for exactly this symbol
+  static lookup(symbol: string, symbols: SymbolMatch[] = OFFLINE_SYMBOLS): SymbolMatch | null {
+    const s = symbol.trim().toUpperCase();
+    return symbols.find(match => match.symbol.toUpperCase() === s) || null;
+  }
+
+  // Provider results first, then offline matches for symbols not already listed
+  static merge(primary: SymbolMatch[], secondary: SymbolMatch[], limit: number): SymbolMatch[] {
+    const seen = new Set(primary.map(match => match.symbol.toUpperCase()));
+    const extra = secondary.filter(match => !seen.has(match.symbol.toUpperCase()));
+    return [...primary, ...extra].slice(0, limit);
+  }
+}
@@ -1,5 +1,11 @@
 // src/TechnicalAnalysis.ts
-import { PricePoint, TechnicalIndicators, Recommendation, RecommendationAnalysis } from './types';
+import { Fundamentals, PricePoint, TechnicalIndicators, Recommendation, RecommendationAnalysis } from './types';
+import { TRADING_DAYS_PER_YEAR } from './TimeRange';
+import { FundamentalAnalysis } from './FundamentalAnalysis';
+
+type Signals = RecommendationAnalysis['signals'];
+
+const pct = (value: number) => (value * 100).toFixed(1) + '%';
 
 export class TechnicalAnalysis {
   // RSI (Relative Strength Index)
@@ -182,8 +188,9 @@ export class TechnicalAnalysis {
   static generateRecommendations(
     prices: PricePoint[], 
     indicators: TechnicalIndicators, 
-    fundamentals: any,
-    currentPrice: number
+    fundamentals: Partial<Fundamentals>,
+    currentPrice: number,
+    barsPerYear: number = TRADING_DAYS_PER_YEAR
   ): RecommendationAnalysis {
     const signals = {
       bullish: [] as string[],
@@ -192,7 +199,6 @@ export class TechnicalAnalysis {
     };
 
     let technicalScore = 0;
-    let fundamentalScore = 0;
     let riskScore = 0;
 
     // Technical Analysis
@@ -245,33 +251,14 @@ export class TechnicalAnalysis {
       technicalScore -= 1;
     }
 
-    // Fundamental Analysis
-    if (fundamentals.pe && fundamentals.pe < 15) {
-      signals.bullish.push('P/E ratio is low (P/E: ' + fundamentals.pe.toFixed(1) + ')');
-      fundamentalScore += 1;
-    } else if (fundamentals.pe && fundamentals.pe > 25) {
-      signals.bearish.push('P/E ratio is high (P/E: ' + fundamentals.pe.toFixed(1) + ')');
-      fundamentalScore -= 1;
-    }
-
-    if (fundamentals.pb && fundamentals.pb < 1) {
-      signals.bullish.push('P/B ratio is below 1 (P/B: ' + fundamentals.pb.toFixed(2) + ')');
-      fundamentalScore += 1;
-    } else if (fundamentals.pb && fundamentals.pb > 3) {
-      signals.bearish.push('P/B ratio is high (P/B: ' + fundamentals.pb.toFixed(2) + ')');
-      fundamentalScore -= 1;
-    }
-
-    if (fundamentals.peg && fundamentals.peg < 1) {
-      signals.bullish.push('PEG ratio indicates undervaluation (PEG: ' + fundamentals.peg.toFixed(2) + ')');
-      fundamentalScore += 1;
-    } else if (fundamentals.peg && fundamentals.peg > 1.5) {
-      signals.bearish.push('PEG ratio indicates overvaluation (PEG: ' + fundamentals.peg.toFixed(2) + ')');
-      fundamentalScore -= 1;
-    }
+    // Fundamental Analysis: statement trends when there is history to
+    // compare, single-point valuation thresholds otherwise
+    const fundamentalScore = fundamentals.history
+      ? this.scoreFundamentalTrends(fundamentals, signals) ?? this.scoreValuation(fundamentals, signals)
+      : this.scoreValuation(fundamentals, signals);
 
     // Risk Analysis
-    const volatility = this.calculateVolatility(prices);
+    const volatility = this.calculateVolatility(prices, barsPerYear);
     if (volatility < 0.15) {
       signals.neutral.push('Low volatility indicates stable price movement');
       riskScore += 1;
@@ -301,7 +288,123 @@ export class TechnicalAnalysis {
     };
   }
 
-  private static calculateVolatility(prices: PricePoint[]): number {
+  private static scoreValuation(fundamentals: Partial<Fundamentals>, signals: Signals): number {
+    let score = 0;
+
+    if (fundamentals.pe && fundamentals.pe < 15) {
+      signals.bullish.push('P/E ratio is low (P/E: ' + fundamentals.pe.toFixed(1) + ')');
+      score += 1;
+    } else if (fundamentals.pe && fundamentals.pe > 25) {
+      signals.bearish.push('P/E ratio is high (P/E: ' + fundamentals.pe.toFixed(1) + ')');
+      score -= 1;
+    }
+
+    if (fundamentals.pb && fundamentals.pb < 1) {
+      signals.bullish.push('P/B ratio is below 1 (P/B: ' + fundamentals.pb.toFixed(2) + ')');
+      score += 1;
+    } else if (fundamentals.pb && fundamentals.pb > 3) {
+      signals.bearish.push('P/B ratio is high (P/B: ' + fundamentals.pb.toFixed(2) + ')');
+      score -= 1;
+    }
+
+    if (fundamentals.peg && fundamentals.peg < 1) {
+      signals.bullish.push('PEG ratio indicates undervaluation (PEG: ' + fundamentals.peg.toFixed(2) + ')');
+      score += 1;
+    } else if (fundamentals.peg && fundamentals.peg > 1.5) {
+      signals.bearish.push('PEG ratio indicates overvaluation (PEG: ' + fundamentals.peg.toFixed(2) + ')');
+      score -= 1;
+    }
+
+    return score;
+  }
+
+  // Year-over-year direction of the business, with valuation judged against
+  // growth rather than on its own. Null when there are not two years to compare.
+  private static scoreFundamentalTrends(fundamentals: Partial<Fundamentals>, signals: Signals): number | null {
+    const trends = FundamentalAnalysis.trends(fundamentals.history!);
+    if (!trends.basis) return null;
+
+    const basis = trends.basis === 'ttm' ? 'trailing 12 months' : 'last fiscal year';
+    let score = 0;
+
+    if (trends.revenueGrowth !== null) {
+      if (trends.revenueGrowth > 0.1) {
+        signals.bullish.push(`Revenue grew ${pct(trends.revenueGrowth)} year over year (${basis})`);
+        score += 1;
+      } else if (trends.revenueGrowth < 0) {
+        signals.bearish.push(`Revenue fell ${pct(-trends.revenueGrowth)} year over year (${basis})`);
+        score -= 1;
+      } else {
+        signals.neutral.push(`Revenue grew ${pct(trends.revenueGrowth)} year over year (${basis})`);
+      }
+    }
+
+    if (trends.epsGrowth !== null) {
+      if (trends.epsGrowth > 0.1) {
+        signals.bullish.push(`Earnings per share grew ${pct(trends.epsGrowth)} year over year`);
+        score += 1;
+      } else if (trends.epsGrowth < -0.1) {
+        signals.bearish.push(`Earnings per share fell ${pct(-trends.epsGrowth)} year over year`);
+        score -= 1;
+      }
+    }
+
+    // Margin and leverage changes are in percentage points / ratio units
+    if (trends.operatingMarginChange !== null) {
+      if (trends.operatingMarginChange > 0.02) {
+        signals.bullish.push(`Operating margin expanded by ${(trends.operatingMarginChange * 100).toFixed(1)} points`);
+        score += 1;
+      } else if (trends.operatingMarginChange < -0.02) {
+        signals.bearish.push(`Operating margin contracted by ${(-trends.operatingMarginChange * 100).toFixed(1)} points`);
+        score -= 1;
+      }
+    }
+
+    if (trends.debtToEquityChange !== null) {
+      if (trends.debtToEquityChange > 0.25) {
+        signals.bearish.push(`Leverage is rising (debt/equity up ${trends.debtToEquityChange.toFixed(2)})`);
+        score -= 1;
+      } else if (trends.debtToEquityChange < -0.25) {
+        signals.bullish.push(`Leverage is falling (debt/equity down ${(-trends.debtToEquityChange).toFixed(2)})`);
+        score += 1;
+      }
+    }
+
+    if (fundamentals.freeCashFlow !== null && fundamentals.freeCashFlow !== undefined && fundamentals.freeCashFlow < 0) {
+      signals.bearish.push('Free cash flow is negative');
+      score -= 1;
+    } else if (trends.freeCashFlowGrowth !== null && trends.freeCashFlowGrowth > 0.1) {
+      signals.bullish.push(`Free cash flow grew ${pct(trends.freeCashFlowGrowth)} year over year`);
+      score += 1;
+    }
+
+    // Price relative to growth: a high P/E is fine if earnings keep up
+    if (fundamentals.pe && fundamentals.pe > 0 && trends.epsGrowth !== null && trends.epsGrowth > 0) {
+      const growthAdjusted = fundamentals.pe / (trends.epsGrowth * 100);
+      if (growthAdjusted < 1) {
+        signals.bullish.push(`P/E of ${fundamentals.pe.toFixed(1)} is low relative to earnings growth`);
+        score += 1;
+      } else if (growthAdjusted > 2) {
+        signals.bearish.push(`P/E of ${fundamentals.pe.toFixed(1)} is high relative to earnings growth`);
+        score -= 1;
+      }
+    }
+
+    if (fundamentals.pe && fundamentals.pe > 0 && fundamentals.forwardPe && fundamentals.forwardPe > 0) {
+      if (fundamentals.forwardPe < fundamentals.pe * 0.9) {
+        signals.bullish.push(`Analysts expect earnings to rise (forward P/E ${fundamentals.forwardPe.toFixed(1)} vs ${fundamentals.pe.toFixed(1)})`);
+        score += 1;
+      } else if (fundamentals.forwardPe > fundamentals.pe * 1.1) {
+        signals.bearish.push(`Analysts expect earnings to fall (forward P/E ${fundamentals.forwardPe.toFixed(1)} vs ${fundamentals.pe.toFixed(1)})`);
+        score -= 1;
+      }
+    }
+
+    return score;
+  }
+
+  // barsPerYear follows the asset's calendar, so crypto annualizes over 365 days
+  private static calculateVolatility(prices: PricePoint[], barsPerYear: number): number {
     const returns = [];
     for (let i = 1; i < prices.length; i++) {
       returns.push(Math.log(prices[i].close / prices[i - 1].close));
@@ -309,7 +412,7 @@ export class TechnicalAnalysis {
     
     const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
     const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) / returns.length;
-    return Math.sqrt(variance * 252); // Annualized volatility
+    return Math.sqrt(variance * barsPerYear); // Annualized volatility
   }
 
   private static createRecommendation(
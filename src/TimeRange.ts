@@ -0,0 +1,129 @@
+// src/TimeRange.ts
+import { BarInterval, PricePoint, ResolvedRange, Timeline } from './types';
+import type { TradingCalendar } from './TradingCalendar';
+
+// Trading-day windows shared by every provider, so '6m' means the same
+// number of bars regardless of where the data comes from
+export const TIMELINE_TRADING_DAYS: Record<Timeline, number | null> = {
+  '1d': 1,
+  '1w': 5,
+  '1m': 21,
+  '6m': 126,
+  '1y': 252,
+  '2y': 504,
+  '5y': 1260,
+  max: null
+};
+
+export const DEFAULT_TIMELINE: Timeline = '1y';
+
+// Alpha Vantage outputsize=compact returns the latest 100 bars
+export const COMPACT_BAR_COUNT = 100;
+
+export const TRADING_DAYS_PER_YEAR = 252;
+export const SESSION_MINUTES = 390; // 09:30-16:00 regular US session
+
+export const INTERVAL_MINUTES: Record<BarInterval, number | null> = {
+  '1min': 1,
+  '5min': 5,
+  '15min': 15,
+  '60min': 60,
+  daily: null
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CALENDAR_DAYS_PER_TRADING_DAY = 365 / 252;
+const HOLIDAY_BUFFER_DAYS = 7;
+
+export function isTimeline(value: string): value is Timeline {
+  return Object.prototype.hasOwnProperty.call(TIMELINE_TRADING_DAYS, value);
+}
+
+// With an exchange calendar the start is the exact first session of the
+// window; without one, trading days are converted to padded calendar days.
+// Windows are defined for a 252-session year and scale to calendars that
+// trade more often, so '1y' of crypto is 365 daily bars.
+export function resolveRange(timeline: string, now: Date = new Date(), calendar?: TradingCalendar): ResolvedRange {
+  const resolved: Timeline = isTimeline(timeline) ? timeline : DEFAULT_TIMELINE;
+  const equityDays = TIMELINE_TRADING_DAYS[resolved];
+  const sessionsPerYear = calendar ? calendar.config.sessionsPerYear : TRADING_DAYS_PER_YEAR;
+  const tradingDays = equityDays === null ? null : Math.round(equityDays * sessionsPerYear / TRADING_DAYS_PER_YEAR);
+
+  const start = tradingDays === null
+    ? null
+    : calendar
+      ? calendar.subtractTradingDays(now, tradingDays + 1)
+      : new Date(now.getTime() - (Math.ceil((tradingDays + 1) * CALENDAR_DAYS_PER_TRADING_DAY) + HOLIDAY_BUFFER_DAYS) * DAY_MS);
+
+  return { timeline: resolved, tradingDays, start, end: now };
+}
+
+// Number of bars needed to cover the window: N returns need N + 1 closes
+export function barsForRange(range: ResolvedRange): number | null {
+  return range.tradingDays === null ? null : range.tradingDays + 1;
+}
+
+export function isIntraday(interval: BarInterval): boolean {
+  return INTERVAL_MINUTES[interval] !== null;
+}
+
+// Bars per year used to annualize volatility and size simulation steps.
+// The calendar supplies the sessions per year and their length; without
+// one the US equity session is assumed.
+export function barsPerYear(interval: BarInterval = 'daily', calendar?: TradingCalendar): number {
+  const minutes = INTERVAL_MINUTES[interval];
+  const sessions = calendar ? calendar.config.sessionsPerYear : TRADING_DAYS_PER_YEAR;
+  const sessionMinutes = calendar ? calendar.config.closeMinutes - calendar.config.openMinutes : SESSION_MINUTES;
+  return minutes === null ? sessions : sessions * Math.ceil(sessionMinutes / minutes);
+}
+
+// Daily bars are keyed by their session date at midnight UTC, whichever time
+// of day a source stamps them with (Polygon uses midnight New York), so
+// series from different providers line up bar for bar
+export function sessionDate(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Guess the bar interval of a series from its median spacing (for imports)
+export function inferInterval(prices: PricePoint[]): BarInterval {
+  if (prices.length < 2) return 'daily';
+
+  const gaps: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    gaps.push((prices[i].date.getTime() - prices[i - 1].date.getTime()) / 60000);
+  }
+  gaps.sort((a, b) => a - b);
+  const median = gaps[Math.floor(gaps.length / 2)];
+
+  const intraday = (Object.keys(INTERVAL_MINUTES) as BarInterval[])
+    .find(interval => INTERVAL_MINUTES[interval] === median);
+  return intraday || 'daily';
+}
+
+// Keep the last bars of the window; providers may return a little extra
+// because calendar padding over-fetches. Intraday series keep whole sessions.
+export function sliceToRange(prices: PricePoint[], range: ResolvedRange, interval: BarInterval = 'daily'): PricePoint[] {
+  if (isIntraday(interval)) {
+    if (range.tradingDays === null) return prices;
+    const sessions = Array.from(new Set(prices.map(p => p.date.toISOString().split('T')[0])));
+    const firstSession = sessions[Math.max(0, sessions.length - range.tradingDays)];
+    return prices.filter(p => p.date.toISOString().split('T')[0] >= firstSession);
+  }
+
+  const bars = barsForRange(range);
+  if (bars === null || prices.length <= bars) {
+    return prices;
+  }
+  return prices.slice(prices.length - bars);
+}
+
+// Whether a request can be served by a provider's compact (latest-100-bar)
+// response. A cache top-up only needs the bars since `since`.
+export function fitsCompactOutput(range: ResolvedRange, since?: Date, now: Date = new Date()): boolean {
+  if (since) {
+    const calendarDays = (now.getTime() - since.getTime()) / DAY_MS;
+    return calendarDays / CALENDAR_DAYS_PER_TRADING_DAY + HOLIDAY_BUFFER_DAYS < COMPACT_BAR_COUNT;
+  }
+  const bars = barsForRange(range);
+  return bars !== null && bars <= COMPACT_BAR_COUNT;
+}
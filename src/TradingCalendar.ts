@@ -0,0 +1,347 @@
+// src/TradingCalendar.ts
+import { BarInterval, PricePoint } from './types';
+import { INTERVAL_MINUTES } from './TimeRange';
+
+// Days are identified by their UTC date ('YYYY-MM-DD'). Daily bars are
+// stamped at UTC midnight of the session, and the regular sessions of the
+// supported exchanges fall within a single UTC day.
+export interface ExchangeCalendarConfig {
+  id: string;
+  name: string;
+  timeZone: string;
+  openMinutes: number; // session open, minutes after local midnight
+  closeMinutes: number;
+  halfDayCloseMinutes: number;
+  weekendDays: number[]; // 0 = Sunday
+  holidays: (year: number) => string[];
+  halfDays: (year: number) => string[];
+  sessionsPerYear: number; // annualization factor for daily bars
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+const fromDayKey = (day: string) => new Date(`${day}T00:00:00Z`);
+const ymd = (year: number, month: number, day: number) => dayKey(new Date(Date.UTC(year, month, day)));
+
+// n-th (1-based) given weekday of a month; n = -1 for the last one
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    return ymd(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+  }
+  const lastDate = new Date(Date.UTC(year, month + 1, 0));
+  return ymd(year, month, lastDate.getUTCDate() - ((lastDate.getUTCDay() - weekday + 7) % 7));
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+const shiftDays = (date: Date, days: number) => dayKey(new Date(date.getTime() + days * DAY_MS));
+
+// US rule: Saturday holidays are observed on Friday, Sunday ones on Monday
+function usObserved(year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month, day));
+  const weekday = date.getUTCDay();
+  return weekday === 6 ? shiftDays(date, -1) : weekday === 0 ? shiftDays(date, 1) : dayKey(date);
+}
+
+// UK rule: weekend holidays move to the next free weekday
+function ukObserved(date: Date, taken: string[] = []): string {
+  let candidate = date;
+  while (candidate.getUTCDay() === 0 || candidate.getUTCDay() === 6 || taken.includes(dayKey(candidate))) {
+    candidate = new Date(candidate.getTime() + DAY_MS);
+  }
+  return dayKey(candidate);
+}
+
+function nyseHolidays(year: number): string[] {
+  const easter = easterSunday(year);
+  const holidays = [
+    nthWeekday(year, 0, 1, 3), // Martin Luther King Jr. Day
+    nthWeekday(year, 1, 1, 3), // Presidents' Day
+    shiftDays(easter, -2), // Good Friday
+    nthWeekday(year, 4, 1, -1), // Memorial Day
+    usObserved(year, 6, 4), // Independence Day
+    nthWeekday(year, 8, 1, 1), // Labor Day
+    nthWeekday(year, 10, 4, 4), // Thanksgiving
+    usObserved(year, 11, 25) // Christmas
+  ];
+  // New Year's Day falling on a Saturday is not observed on the prior Friday
+  if (new Date(Date.UTC(year, 0, 1)).getUTCDay() !== 6) {
+    holidays.push(usObserved(year, 0, 1));
+  }
+  if (year >= 2022) {
+    holidays.push(usObserved(year, 5, 19)); // Juneteenth
+  }
+  return holidays;
+}
+
+// Early 13:00 closes: July 3, the day after Thanksgiving and Christmas Eve,
+// when they are regular weekdays
+function nyseHalfDays(year: number): string[] {
+  const isMonToThu = (month: number, day: number) => {
+    const weekday = new Date(Date.UTC(year, month, day)).getUTCDay();
+    return weekday >= 1 && weekday <= 4;
+  };
+  const halfDays = [shiftDays(fromDayKey(nthWeekday(year, 10, 4, 4)), 1)];
+  if (isMonToThu(6, 3)) halfDays.push(ymd(year, 6, 3));
+  if (isMonToThu(11, 24)) halfDays.push(ymd(year, 11, 24));
+  return halfDays;
+}
+
+function lseHolidays(year: number): string[] {
+  const easter = easterSunday(year);
+  const christmas = ukObserved(new Date(Date.UTC(year, 11, 25)));
+  return [
+    ukObserved(new Date(Date.UTC(year, 0, 1))), // New Year's Day
+    shiftDays(easter, -2), // Good Friday
+    shiftDays(easter, 1), // Easter Monday
+    nthWeekday(year, 4, 1, 1), // Early May bank holiday
+    nthWeekday(year, 4, 1, -1), // Spring bank holiday
+    nthWeekday(year, 7, 1, -1), // Summer bank holiday
+    christmas,
+    ukObserved(new Date(Date.UTC(year, 11, 26)), [christmas]) // Boxing Day
+  ];
+}
+
+// 12:30 closes on Christmas Eve and New Year's Eve
+function lseHalfDays(year: number): string[] {
+  return [ymd(year, 11, 24), ymd(year, 11, 31)].filter(day => {
+    const weekday = fromDayKey(day).getUTCDay();
+    return weekday !== 0 && weekday !== 6;
+  });
+}
+
+const NYSE_CONFIG: ExchangeCalendarConfig = {
+  id: 'NYSE',
+  name: 'New York Stock Exchange',
+  timeZone: 'America/New_York',
+  openMinutes: 9 * 60 + 30,
+  closeMinutes: 16 * 60,
+  halfDayCloseMinutes: 13 * 60,
+  weekendDays: [0, 6],
+  holidays: nyseHolidays,
+  halfDays: nyseHalfDays,
+  sessionsPerYear: 252
+};
+
+export class TradingCalendar {
+  private years = new Map<number, { holidays: Set<string>; halfDays: Set<string> }>();
+  private localDate: Intl.DateTimeFormat | null = null;
+
+  constructor(readonly config: ExchangeCalendarConfig) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  isHoliday(date: Date | string): boolean {
+    const day = typeof date === 'string' ? date : dayKey(date);
+    return this.year(day).holidays.has(day);
+  }
+
+  isHalfDay(date: Date | string): boolean {
+    const day = typeof date === 'string' ? date : dayKey(date);
+    return this.year(day).halfDays.has(day);
+  }
+
+  isTradingDay(date: Date | string): boolean {
+    const day = typeof date === 'string' ? date : dayKey(date);
+    return !this.config.weekendDays.includes(fromDayKey(day).getUTCDay()) && !this.isHoliday(day);
+  }
+
+  // Length of the regular session in minutes (0 when the exchange is closed)
+  sessionMinutes(date: Date | string): number {
+    if (!this.isTradingDay(date)) return 0;
+    const close = this.isHalfDay(date) ? this.config.halfDayCloseMinutes : this.config.closeMinutes;
+    return close - this.config.openMinutes;
+  }
+
+  // Trading sessions from start to end, both inclusive
+  sessionsBetween(start: Date, end: Date): string[] {
+    const sessions: string[] = [];
+    const last = dayKey(end);
+    for (let day = dayKey(start); day <= last; day = shiftDays(fromDayKey(day), 1)) {
+      if (this.isTradingDay(day)) sessions.push(day);
+    }
+    return sessions;
+  }
+
+  // Sessions after `from` up to and including `to`
+  tradingDaysBetween(from: Date, to: Date): number {
+    if (dayKey(to) <= dayKey(from)) return 0;
+    return this.sessionsBetween(new Date(from.getTime() + DAY_MS), to).length;
+  }
+
+  // The session `count` sessions before `end` (end itself counts if it is a session)
+  subtractTradingDays(end: Date, count: number): Date {
+    let day = dayKey(end);
+    while (!this.isTradingDay(day)) {
+      day = shiftDays(fromDayKey(day), -1);
+    }
+    for (let remaining = count; remaining > 0; ) {
+      day = shiftDays(fromDayKey(day), -1);
+      if (this.isTradingDay(day)) remaining--;
+    }
+    return fromDayKey(day);
+  }
+
+  // The session `count` sessions after `start` (start itself never counts)
+  addTradingDays(start: Date, count: number): Date {
+    let day = dayKey(start);
+    for (let remaining = count; remaining > 0; ) {
+      day = shiftDays(fromDayKey(day), 1);
+      if (this.isTradingDay(day)) remaining--;
+    }
+    return fromDayKey(day);
+  }
+
+  // First session on or after `date`
+  nextSession(date: Date): Date {
+    let day = dayKey(date);
+    while (!this.isTradingDay(day)) {
+      day = shiftDays(fromDayKey(day), 1);
+    }
+    return fromDayKey(day);
+  }
+
+  // Sessions between the first and last bar that have no bars at all
+  findMissingSessions(prices: PricePoint[]): Date[] {
+    if (prices.length < 2) return [];
+    const present = new Set(prices.map(bar => dayKey(bar.date)));
+    return this.sessionsBetween(prices[0].date, prices[prices.length - 1].date)
+      .filter(day => !present.has(day))
+      .map(fromDayKey);
+  }
+
+  // Elapsed time between consecutive bars, in units of one bar. Consecutive
+  // sessions (or consecutive intraday bars) are 1; a skipped session adds a
+  // full session's worth. The overnight break counts as a single bar.
+  barGaps(prices: PricePoint[], interval: BarInterval = 'daily'): number[] {
+    const intervalMinutes = INTERVAL_MINUTES[interval];
+    const gaps: number[] = [];
+    for (let i = 1; i < prices.length; i++) {
+      const sessions = this.tradingDaysBetween(prices[i - 1].date, prices[i].date);
+      if (intervalMinutes === null) {
+        gaps.push(Math.max(1, sessions));
+      } else if (sessions === 0) {
+        const minutes = (prices[i].date.getTime() - prices[i - 1].date.getTime()) / 60000;
+        gaps.push(Math.max(1, Math.round(minutes / intervalMinutes)));
+      } else {
+        const barsPerSession = Math.ceil((this.config.closeMinutes - this.config.openMinutes) / intervalMinutes);
+        gaps.push(1 + (sessions - 1) * barsPerSession);
+      }
+    }
+    return gaps;
+  }
+
+  // Exchange-local date of a moment in time, e.g. the daily bar a live trade belongs to
+  sessionDay(timestamp: Date): string {
+    this.localDate ??= new Intl.DateTimeFormat('en-US', {
+      timeZone: this.config.timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    });
+    const parts = Object.fromEntries(this.localDate.formatToParts(timestamp).map(part => [part.type, part.value]));
+    return `${parts.year}-${parts.month}-${parts.day}`;
+  }
+
+  private year(day: string): { holidays: Set<string>; halfDays: Set<string> } {
+    const year = parseInt(day.slice(0, 4), 10);
+    let entry = this.years.get(year);
+    if (!entry) {
+      entry = {
+        holidays: new Set(this.config.holidays(year)),
+        halfDays: new Set(this.config.halfDays(year))
+      };
+      this.years.set(year, entry);
+    }
+    return entry;
+  }
+}
+
+const calendars = new Map<string, TradingCalendar>();
+
+export const DEFAULT_EXCHANGE = 'NYSE';
+
+export function registerCalendar(config: ExchangeCalendarConfig): TradingCalendar {
+  const calendar = new TradingCalendar(config);
+  calendars.set(config.id, calendar);
+  return calendar;
+}
+
+export function getCalendar(id: string = DEFAULT_EXCHANGE): TradingCalendar {
+  const calendar = calendars.get(id);
+  if (!calendar) {
+    throw new Error(`Unknown exchange calendar: ${id}`);
+  }
+  return calendar;
+}
+
+export function listCalendars(): TradingCalendar[] {
+  return Array.from(calendars.values());
+}
+
+registerCalendar(NYSE_CONFIG);
+// NASDAQ follows the NYSE holiday and early-close schedule
+registerCalendar({ ...NYSE_CONFIG, id: 'NASDAQ', name: 'Nasdaq' });
+registerCalendar({
+  id: 'LSE',
+  name: 'London Stock Exchange',
+  timeZone: 'Europe/London',
+  openMinutes: 8 * 60,
+  closeMinutes: 16 * 60 + 30,
+  halfDayCloseMinutes: 12 * 60 + 30,
+  weekendDays: [0, 6],
+  holidays: lseHolidays,
+  halfDays: lseHalfDays,
+  sessionsPerYear: 252
+});
+// Crypto never closes. Spot FX runs from Sunday evening to Friday evening
+// New York time, taken here as the five UTC weekdays.
+registerCalendar({
+  id: 'CRYPTO',
+  name: 'Crypto (24/7)',
+  timeZone: 'UTC',
+  openMinutes: 0,
+  closeMinutes: 24 * 60,
+  halfDayCloseMinutes: 24 * 60,
+  weekendDays: [],
+  holidays: () => [],
+  halfDays: () => [],
+  sessionsPerYear: 365
+});
+registerCalendar({
+  id: 'FX',
+  name: 'Foreign exchange (24/5)',
+  timeZone: 'UTC',
+  openMinutes: 0,
+  closeMinutes: 24 * 60,
+  halfDayCloseMinutes: 24 * 60,
+  weekendDays: [0, 6],
+  holidays: () => [],
+  halfDays: () => [],
+  sessionsPerYear: 260
+});
@@ -0,0 +1,127 @@
+// src/components/CorporateActionsPanel.tsx
+import React, { useState } from 'react';
+import { CorporateAction, CorporateActionType, PriceAdjustment } from '../types';
+import { CorporateActions } from '../CorporateActions';
+import { Format } from '../Format';
+import { InfoIcon } from './Tooltip';
+
+interface CorporateActionsPanelProps {
+  providerActions: CorporateAction[];
+  manualActions: CorporateAction[];
+  adjustment: PriceAdjustment;
+  // Of dividend amounts, including manual ones
+  currency: string | null;
+  onAdjustmentChange: (adjustment: PriceAdjustment) => void;
+  onManualActionsChange: (actions: CorporateAction[]) => void;
+}
+
+const ADJUSTMENT_OPTIONS: { value: PriceAdjustment; label: string }[] = [
+  { value: 'raw', label: 'Raw' },
+  { value: 'split', label: 'Split-adjusted' },
+  { value: 'total', label: 'Total return' }
+];
+
+const formatAction = (action: CorporateAction, currency: string | null) => action.type === 'split'
+  ? `${action.value}-for-1 split`
+  : `${Format.money(action.value, currency)} dividend`;
+
+export const CorporateActionsPanel: React.FC<CorporateActionsPanelProps> = ({
+  providerActions,
+  manualActions,
+  adjustment,
+  currency,
+  onAdjustmentChange,
+  onManualActionsChange
+}) => {
+  const [date, setDate] = useState('');
+  const [type, setType] = useState<CorporateActionType>('split');
+  const [value, setValue] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const actions = CorporateActions.merge(providerActions, manualActions);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const action: CorporateAction = {
+      date: new Date(`${date}T00:00:00Z`),
+      type,
+      value: parseFloat(value),
+      source: 'manual'
+    };
+    if (!CorporateActions.isValid(action)) {
+      setFormError('Enter a date and a positive split ratio or dividend amount');
+      return;
+    }
+    setFormError(null);
+    setDate('');
+    setValue('');
+    onManualActionsChange(CorporateActions.merge(manualActions, [action]));
+  };
+
+  const handleRemove = (removed: CorporateAction) => {
+    onManualActionsChange(manualActions.filter(action => action !== removed));
+  };
+
+  return (
+    <div className="corporate-actions">
+      <div className="corporate-actions-header">
+        <h3 className="metrics-title">
+          Corporate Actions
+          <InfoIcon content="Splits and dividends used to adjust the price history. Split adjustment removes fake crashes on split dates; total return also reinvests dividends. Add events manually when the provider does not report them." />
+        </h3>
+        <select
+          value={adjustment}
+          onChange={(e) => onAdjustmentChange(e.target.value as PriceAdjustment)}
+          className="corporate-actions-select"
+        >
+          {ADJUSTMENT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {actions.length === 0 ? (
+        <p className="price-label">No splits or dividends in this history.</p>
+      ) : (
+        <ul className="corporate-actions-list">
+          {actions.slice().reverse().map(action => (
+            <li key={`${action.type}:${action.date.toISOString()}`} className="metric-row">
+              <span className="metric-label">{action.date.toISOString().split('T')[0]}</span>
+              <span className="metric-value">
+                {formatAction(action, currency)}
+                {action.source === 'manual' && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(action)}
+                    className="corporate-actions-remove"
+                    title="Remove manual event"
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="corporate-actions-form">
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        <select value={type} onChange={(e) => setType(e.target.value as CorporateActionType)}>
+          <option value="split">Split ratio</option>
+          <option value="dividend">Dividend{currency ? ` (${currency})` : ''}</option>
+        </select>
+        <input
+          type="number"
+          step="any"
+          min="0"
+          placeholder={type === 'split' ? 'e.g. 4' : 'e.g. 0.24'}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+        <button type="submit" className="import-button">Add</button>
+      </form>
+      {formError && <p className="price-label">{formError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+// src/components/CredentialsPanel.tsx
+import React, { useState } from 'react';
+import { DataFetcher } from '../DataFetch';
+import { ApiProvider } from '../types';
+
+interface CredentialsPanelProps {
+  fetcher: DataFetcher;
+}
+
+type ConnectionStatus = { state: 'testing' } | { state: 'ok' } | { state: 'failed'; message: string };
+
+const inputClassName = 'w-full px-4 py-3 bg-secondary border border-light rounded-xl focus:outline-none focus:ring-2 focus:ring-accent-primary focus:border-transparent transition-colors';
+
+export const CredentialsPanel: React.FC<CredentialsPanelProps> = ({ fetcher }) => {
+  const credentials = fetcher.getCredentials();
+  const [connections, setConnections] = useState<Record<ApiProvider, ConnectionStatus | null>>({});
+  const [passphrase, setPassphrase] = useState('');
+  const [vaultError, setVaultError] = useState<string | null>(null);
+  const [keyErrors, setKeyErrors] = useState<Record<ApiProvider, string | null>>({});
+  const [, setVersion] = useState(0);
+
+  // The store lives outside React; re-read it after every change
+  const refresh = () => setVersion(version => version + 1);
+
+  const handleTest = async (id: ApiProvider) => {
+    setConnections(current => ({ ...current, [id]: { state: 'testing' } }));
+    try {
+      await fetcher.testConnection(id);
+      setConnections(current => ({ ...current, [id]: { state: 'ok' } }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Connection failed';
+      setConnections(current => ({ ...current, [id]: { state: 'failed', message } }));
+    }
+  };
+
+  // Saving or removing a key re-encrypts the saved copy, which can fail
+  const changeKey = async (id: ApiProvider, change: () => Promise<void>) => {
+    setKeyErrors(current => ({ ...current, [id]: null }));
+    try {
+      await change();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not update the key';
+      setKeyErrors(current => ({ ...current, [id]: message }));
+    }
+    refresh();
+  };
+
+  const handleVault = async (action: 'remember' | 'unlock') => {
+    setVaultError(null);
+    try {
+      await (action === 'remember' ? credentials.remember(passphrase) : credentials.unlock(passphrase));
+      setPassphrase('');
+      refresh();
+    } catch (error) {
+      setVaultError(error instanceof Error ? error.message : 'Could not open the saved keys');
+    }
+  };
+
+  const quotaLabel = (id: ApiProvider) => {
+    const { minute, day } = fetcher.getQuota(id);
+    const perMinute = `${minute.remaining} of ${minute.limit} requests left this minute`;
+    return day ? `${perMinute}, ${day.remaining} of ${day.limit} today` : perMinute;
+  };
+
+  const connectionLabel = (status: ConnectionStatus | null | undefined) => {
+    if (!status) return null;
+    if (status.state === 'testing') return 'Testing…';
+    if (status.state === 'ok') return 'Connected';
+    return status.message;
+  };
+
+  return (
+    <div className="space-y-4">
+      {fetcher.getProviders().map((provider) => (
+        <div key={provider.id}>
+          <label className="block text-sm font-medium text-primary mb-2">
+            {provider.name} API Key
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              placeholder={!provider.capabilities.requiresApiKey
+                ? 'No API key required'
+                : credentials.has(provider.id) ? 'Key saved (type to replace)' : `Enter your ${provider.name} API key`}
+              disabled={!provider.capabilities.requiresApiKey}
+              className={inputClassName}
+              // Saved once typing is done, so the encrypted copy is written once
+              onBlur={(e) => {
+                const key = e.target.value;
+                if (key) {
+                  e.target.value = '';
+                  changeKey(provider.id, () => fetcher.setApiKey(key, provider.id));
+                  setConnections(current => ({ ...current, [provider.id]: null }));
+                }
+              }}
+            />
+            <button
+              type="button"
+              className="import-button"
+              disabled={connections[provider.id]?.state === 'testing' || (provider.capabilities.requiresApiKey && !credentials.has(provider.id))}
+              onClick={() => handleTest(provider.id)}
+            >
+              Test
+            </button>
+            {credentials.has(provider.id) && (
+              <button
+                type="button"
+                className="import-button"
+                onClick={() => changeKey(provider.id, () => fetcher.clearApiKey(provider.id))}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-tertiary mt-1">
+            {[keyErrors[provider.id], connectionLabel(connections[provider.id]), quotaLabel(provider.id)].filter(Boolean).join(' · ')}
+          </p>
+          {provider.signupUrl && (
+            <p className="text-xs text-tertiary mt-1">
+              Get your free API key at <a href={provider.signupUrl} target="_blank" rel="noopener noreferrer" className="text-accent-primary hover:underline">{provider.signupUrl.replace(/^https?:\/\/(www\.)?/, '')}</a>
+            </p>
+          )}
+        </div>
+      ))}
+
+      <div>
+        <label className="block text-sm font-medium text-primary mb-2">
+          Remember Keys on This Device
+        </label>
+        {!credentials.isEncryptionSupported() ? (
+          <p className="text-xs text-tertiary">
+            Keys last for this browser tab only. Saving them needs WebCrypto, which browsers offer over HTTPS and on localhost.
+          </p>
+        ) : credentials.hasVault() && !credentials.isLocked() ? (
+          <div className="flex items-center gap-2">
+            <p className="text-xs text-tertiary flex-1">Keys are saved encrypted with your passphrase and kept up to date.</p>
+            <button
+              type="button"
+              className="import-button"
+              onClick={() => {
+                credentials.forget();
+                refresh();
+              }}
+            >
+              Forget
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={passphrase}
+                placeholder="Passphrase"
+                onChange={(e) => setPassphrase(e.target.value)}
+                className={inputClassName}
+              />
+              <button
+                type="button"
+                className="import-button"
+                disabled={!passphrase}
+                onClick={() => handleVault(credentials.isLocked() ? 'unlock' : 'remember')}
+              >
+                {credentials.isLocked() ? 'Unlock' : 'Save'}
+              </button>
+            </div>
+            <p className="text-xs text-tertiary mt-1">
+              {credentials.isLocked()
+                ? 'Keys saved in an earlier session are locked. Enter your passphrase to restore them.'
+                : 'Encrypts your keys (AES-GCM) with this passphrase and keeps them in this browser. Without it, keys last for this tab only.'}
+            </p>
+            {vaultError && <p className="text-xs text-tertiary mt-1">{vaultError}</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+// src/components/DataQualityPanel.tsx
+import React, { useState } from 'react';
+import { DataQualityReport } from '../types';
+import { InfoIcon } from './Tooltip';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+}
+
+const COLLAPSED_ISSUES = 5;
+
+export const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ report }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const clean = report.issues.length === 0;
+  const visibleIssues = expanded ? report.issues : report.issues.slice(0, COLLAPSED_ISSUES);
+
+  return (
+    <div className="data-quality">
+      <div className="data-quality-header">
+        <h3 className="metrics-title">
+          Data Quality
+          <InfoIcon content="Price bars are checked before analysis. Unusable bars are dropped, fixable ones (e.g. high below low) are repaired, and unusually large returns are flagged but kept." />
+        </h3>
+        <span className={`data-quality-badge ${clean ? 'clean' : 'issues'}`}>
+          {clean ? 'Clean' : `${report.issues.length}${report.issues.length >= 100 ? '+' : ''} issues`}
+        </span>
+      </div>
+
+      <div className="metrics-grid">
+        <div className="metric-row">
+          <span className="metric-label">Bars checked</span>
+          <span className="metric-value">{report.totalRows}</span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Dropped / repaired</span>
+          <span className="metric-value">{report.dropped} / {report.repaired}</span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Missing sessions</span>
+          <span className="metric-value">{report.missingSessions.length}</span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Outlier returns</span>
+          <span className="metric-value">{report.outliers.length}</span>
+        </div>
+      </div>
+
+      {!clean && (
+        <ul className="data-quality-issues">
+          {visibleIssues.map((issue, i) => (
+            <li key={i} className={`data-quality-issue ${issue.action}`}>
+              <span className="metric-label">
+                {issue.date ? issue.date.toISOString().split('T')[0] : '—'} · {issue.action}
+              </span>
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {report.issues.length > COLLAPSED_ISSUES && (
+        <button type="button" onClick={() => setExpanded(!expanded)} className="data-quality-toggle">
+          {expanded ? 'Show fewer' : `Show all ${report.issues.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+// src/components/DataSourcePanel.tsx
+import React, { useState } from 'react';
+import { ApiProvider, DataProvenance, FieldAvailability, PriceAdjustment } from '../types';
+import { Provenance, PROVENANCE_FIELDS } from '../Provenance';
+import { InfoIcon } from './Tooltip';
+
+interface DataSourcePanelProps {
+  provenance: DataProvenance;
+  providerName: (id: ApiProvider) => string;
+  onExport: () => void;
+}
+
+const ADJUSTMENT_LABELS: Record<PriceAdjustment, string> = {
+  raw: 'Raw (as traded)',
+  split: 'Split-adjusted',
+  total: 'Total return'
+};
+
+const CACHE_LABELS = {
+  hit: 'from cache',
+  topup: 'cache + new bars',
+  miss: 'fresh'
+};
+
+const AVAILABILITY_LABELS: Record<FieldAvailability, string> = {
+  reported: 'Reported',
+  derived: 'Derived',
+  missing: 'Missing',
+  unsupported: 'Not offered'
+};
+
+export const DataSourcePanel: React.FC<DataSourcePanelProps> = ({ provenance, providerName, onExport }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const counts = Provenance.summarize(provenance);
+  // Reported fields are the norm; list the rest unless asked for everything
+  const fields = Object.entries(provenance.fields)
+    .filter(([, availability]) => expanded || availability !== 'reported');
+
+  return (
+    <div className="data-source">
+      <div className="data-quality-header">
+        <h3 className="metrics-title">
+          Data Source
+          <InfoIcon content="Where the loaded data came from and when. Derived fields were computed from others (e.g. P/E from EPS and price); missing ones were offered but not returned, and some are not offered by the source at all." />
+        </h3>
+        <button type="button" onClick={onExport} className="import-button">
+          Export report
+        </button>
+      </div>
+
+      <div className="metrics-grid">
+        <div className="metric-row">
+          <span className="metric-label">Source</span>
+          <span className="metric-value">
+            {provenance.provider ? providerName(provenance.provider) : provenance.importedFrom || 'Imported file'}
+          </span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Fetched</span>
+          <span className="metric-value">
+            {provenance.fetchedAt.toLocaleString()}
+            {provenance.cacheStatus && ` (${CACHE_LABELS[provenance.cacheStatus]})`}
+          </span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Prices</span>
+          <span className="metric-value">
+            {ADJUSTMENT_LABELS[provenance.adjustment]}
+            {provenance.providerAdjusted && ', adjusted at source'}
+          </span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Currency</span>
+          <span className="metric-value">{provenance.currency || 'Unknown'}</span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Exchange time</span>
+          <span className="metric-value">{provenance.exchange} · {provenance.timeZone}</span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Fields</span>
+          <span className="metric-value">
+            {counts.reported} reported, {counts.derived} derived, {counts.missing + counts.unsupported} unavailable
+          </span>
+        </div>
+      </div>
+
+      {fields.length > 0 && (
+        <ul className="data-quality-issues">
+          {fields.map(([field, availability]) => (
+            <li key={field} className={`data-source-field ${availability}`}>
+              <span>{PROVENANCE_FIELDS[field] || field}</span>
+              <span className="metric-label">{AVAILABILITY_LABELS[availability]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button type="button" onClick={() => setExpanded(!expanded)} className="data-quality-toggle">
+        {expanded ? 'Hide reported fields' : 'Show all fields'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+// src/components/EventCalendarPanel.tsx
+import React from 'react';
+import { MarketEvent } from '../EventCalendar';
+import { InfoIcon } from './Tooltip';
+
+interface EventCalendarPanelProps {
+  events: MarketEvent[];
+}
+
+const RECENT_EVENTS = 4;
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+export const EventCalendarPanel: React.FC<EventCalendarPanelProps> = ({ events }) => {
+  const upcoming = events.filter(event => event.upcoming);
+  const recent = events.filter(event => !event.upcoming).slice(-RECENT_EVENTS).reverse();
+
+  return (
+    <div className="event-calendar">
+      <h3 className="metrics-title">
+        Events
+        <InfoIcon content="Scheduled and past earnings releases and ex-dividend dates. They are marked on the price chart (E and D), and earnings inside the simulation horizon can add jump risk to the Monte Carlo paths." />
+      </h3>
+
+      {events.length === 0 ? (
+        <p className="price-label">No earnings or dividend dates from this provider.</p>
+      ) : (
+        <div className="metrics-grid">
+          {upcoming.length === 0 && (
+            <p className="price-label">Nothing scheduled yet.</p>
+          )}
+          {upcoming.map((event, i) => (
+            <div key={`upcoming-${i}`} className="metric-row event-calendar-upcoming">
+              <span className="metric-label">{formatDate(event.date)}</span>
+              <span className="metric-value">{event.label}</span>
+            </div>
+          ))}
+          {recent.map((event, i) => (
+            <div key={`recent-${i}`} className="metric-row">
+              <span className="metric-label">{formatDate(event.date)}</span>
+              <span>{event.label}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
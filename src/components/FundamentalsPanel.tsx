@@ -0,0 +1,131 @@
+// src/components/FundamentalsPanel.tsx
+import React, { useState } from 'react';
+import { Fundamentals, FinancialStatement } from '../types';
+import { FundamentalAnalysis } from '../FundamentalAnalysis';
+import { Format } from '../Format';
+import { InfoIcon } from './Tooltip';
+
+interface FundamentalsPanelProps {
+  fundamentals: Fundamentals;
+  currency: string | null;
+}
+
+type HistoryPeriod = 'quarterly' | 'annual';
+
+const HISTORY_ROWS = 8;
+
+const formatChange = (value: number | null, points = false) => {
+  if (value === null) return '—';
+  const scaled = value * 100;
+  return `${scaled >= 0 ? '+' : ''}${Format.number(scaled, 1)}${points ? ' pts' : '%'}`;
+};
+
+const trendClass = (value: number | null) => {
+  if (value === null || value === 0) return '';
+  return value > 0 ? 'positive' : 'negative';
+};
+
+// Fiscal quarters don't line up with calendar quarters, so show the period end
+const periodLabel = (statement: FinancialStatement) => statement.period === 'annual'
+  ? `FY ${statement.fiscalDateEnding.getUTCFullYear()}`
+  : statement.fiscalDateEnding.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+export const FundamentalsPanel: React.FC<FundamentalsPanelProps> = ({ fundamentals, currency }) => {
+  const [period, setPeriod] = useState<HistoryPeriod>('quarterly');
+
+  const trends = FundamentalAnalysis.trends(fundamentals.history);
+  const history = fundamentals.history[period].slice(-HISTORY_ROWS).reverse();
+
+  return (
+    <div className="fundamentals">
+      <div className="fundamentals-header">
+        <h3 className="metrics-title">
+          Financials
+          <InfoIcon content="Trailing-twelve-month profitability, balance sheet strength and cash generation, with year-over-year changes from the reported statements. Recommendations weigh these trends rather than a single P/E or P/B reading." />
+        </h3>
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as HistoryPeriod)}
+          className="fundamentals-select"
+        >
+          <option value="quarterly">Quarterly</option>
+          <option value="annual">Annual</option>
+        </select>
+      </div>
+
+      <div className="metrics-grid">
+        <div className="metric-row">
+          <span className="metric-label">Revenue (TTM)</span>
+          <span className="metric-value">
+            {Format.compactMoney(fundamentals.revenue, currency)}
+            <span className={`fundamentals-trend ${trendClass(trends.revenueGrowth)}`}>{formatChange(trends.revenueGrowth)}</span>
+          </span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Gross / Operating Margin</span>
+          <span className="metric-value">
+            {Format.percent(fundamentals.grossMargin)} / {Format.percent(fundamentals.operatingMargin)}
+            <span className={`fundamentals-trend ${trendClass(trends.operatingMarginChange)}`}>{formatChange(trends.operatingMarginChange, true)}</span>
+          </span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Net Margin</span>
+          <span className="metric-value">{Format.percent(fundamentals.profitMargin)}</span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Return on Equity</span>
+          <span className="metric-value">
+            {Format.percent(fundamentals.returnOnEquity)}
+            <span className={`fundamentals-trend ${trendClass(trends.returnOnEquityChange)}`}>{formatChange(trends.returnOnEquityChange, true)}</span>
+          </span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Debt / Equity</span>
+          <span className="metric-value">{Format.number(fundamentals.debtToEquity)}</span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Free Cash Flow</span>
+          <span className="metric-value">
+            {Format.compactMoney(fundamentals.freeCashFlow, currency)}
+            <span className={`fundamentals-trend ${trendClass(trends.freeCashFlowGrowth)}`}>{formatChange(trends.freeCashFlowGrowth)}</span>
+          </span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Forward P/E</span>
+          <span className="metric-value">{Format.number(fundamentals.forwardPe)}</span>
+        </div>
+        <div className="metric-row">
+          <span className="metric-label">Analyst Target</span>
+          <span className="metric-value">{Format.money(fundamentals.targetPrice, currency)}</span>
+        </div>
+      </div>
+
+      {history.length === 0 ? (
+        <p className="price-label">No statement history from this provider.</p>
+      ) : (
+        <table className="fundamentals-history">
+          <thead>
+            <tr>
+              <th>Period</th>
+              <th>Revenue</th>
+              <th>EPS</th>
+              <th>Op. Margin</th>
+              <th>FCF</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.map(statement => (
+              <tr key={statement.fiscalDateEnding.getTime()}>
+                <td>{periodLabel(statement)}</td>
+                <td>{Format.compactMoney(statement.revenue, currency)}</td>
+                <td>{Format.number(statement.eps)}</td>
+                <td>{Format.percent(FundamentalAnalysis.ratios(statement).operatingMargin)}</td>
+                <td>{Format.compactMoney(statement.freeCashFlow, currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
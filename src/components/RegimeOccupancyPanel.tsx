@@ -0,0 +1,57 @@
+// src/components/RegimeOccupancyPanel.tsx
+import React from 'react';
+import { RegimeSwitchingParams } from '../types';
+import { Format } from '../Format';
+import { InfoIcon } from './Tooltip';
+
+interface RegimeOccupancyPanelProps {
+  occupancy: number[]; // per path, share of steps in the bull regime
+  regimes: RegimeSwitchingParams;
+  barsPerYear: number;
+}
+
+const BINS = 10;
+
+export const RegimeOccupancyPanel: React.FC<RegimeOccupancyPanelProps> = ({ occupancy, regimes, barsPerYear }) => {
+  const counts = new Array(BINS).fill(0);
+  occupancy.forEach(share => counts[Math.min(Math.floor(share * BINS), BINS - 1)]++);
+  const tallest = Math.max(...counts, 1);
+  const average = occupancy.reduce((sum, share) => sum + share, 0) / Math.max(occupancy.length, 1);
+
+  return (
+    <div className="card-glass">
+      <h3 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+        Regime Occupancy
+        <InfoIcon content="Each path switches between a bull and a bear regime, each with the drift and volatility measured from this ticker's history. The chart shows how many paths spent each share of the horizon in the bull regime." />
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-700 mb-4">
+        <div>
+          <p className="font-medium text-green-700">Bull regime</p>
+          <p>Drift {Format.percent(regimes.bull.drift)} · volatility {Format.percent(regimes.bull.volatility * Math.sqrt(barsPerYear))} a year</p>
+        </div>
+        <div>
+          <p className="font-medium text-red-700">Bear regime</p>
+          <p>Drift {Format.percent(regimes.bear.drift)} · volatility {Format.percent(regimes.bear.volatility * Math.sqrt(barsPerYear))} a year</p>
+        </div>
+        <div>
+          <p className="font-medium text-gray-900">Average time in bull</p>
+          <p>{Format.percent(average)} of the horizon, starting in the {regimes.initial} regime</p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {counts.map((count, i) => (
+          <div key={i} className="flex items-center gap-2 text-xs text-gray-600">
+            <span className="w-20 text-right">{Format.percent(i / BINS, 0)}–{Format.percent((i + 1) / BINS, 0)}</span>
+            <div className="flex-1 bg-gray-100 rounded h-3">
+              <div className="bg-green-500 rounded h-3" style={{ width: `${(count / tallest) * 100}%` }} />
+            </div>
+            <span className="w-12">{count}</span>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">Paths by share of steps spent in the bull regime</p>
+    </div>
+  );
+};
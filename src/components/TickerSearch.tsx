@@ -0,0 +1,129 @@
+// src/components/TickerSearch.tsx
+import React, { useEffect, useId, useState } from 'react';
+import { SymbolMatch } from '../types';
+
+interface TickerSearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (symbol: string) => void;
+  search: (query: string) => Promise<SymbolMatch[]>;
+  placeholder?: string;
+  inputClassName?: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+export const TickerSearch: React.FC<TickerSearchProps> = ({
+  value,
+  onChange,
+  onSelect,
+  search,
+  placeholder,
+  inputClassName = ''
+}) => {
+  const [matches, setMatches] = useState<SymbolMatch[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const listId = useId();
+
+  // Only search while the user is typing, not after a selection fills the input
+  useEffect(() => {
+    if (!open || !value.trim()) {
+      setMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      search(value)
+        .then(results => {
+          if (!cancelled) {
+            setMatches(results);
+            setHighlighted(-1);
+          }
+        })
+        .catch(() => {
+          if (!cancelled) setMatches([]);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value, open, search]);
+
+  const select = (match: SymbolMatch) => {
+    setOpen(false);
+    setMatches([]);
+    onSelect(match.symbol);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || matches.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % matches.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(highlighted <= 0 ? matches.length - 1 : highlighted - 1);
+    } else if (e.key === 'Enter' && highlighted >= 0) {
+      // Pick the highlighted symbol instead of submitting what was typed
+      e.preventDefault();
+      select(matches[highlighted]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && matches.length > 0;
+
+  return (
+    <div className="ticker-search">
+      <input
+        type="text"
+        value={value}
+        onChange={e => {
+          setOpen(true);
+          onChange(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setOpen(false)}
+        placeholder={placeholder}
+        className={inputClassName}
+        autoComplete="off"
+        role="combobox"
+        aria-controls={listId}
+        aria-expanded={showList}
+        aria-autocomplete="list"
+      />
+      {showList && (
+        <ul id={listId} className="ticker-search-results" role="listbox">
+          {matches.map((match, i) => (
+            <li
+              key={`${match.symbol}-${match.exchange ?? match.region ?? i}`}
+              role="option"
+              aria-selected={i === highlighted}
+              className={`ticker-search-option ${i === highlighted ? 'highlighted' : ''}`}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={e => {
+                e.preventDefault();
+                select(match);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+            >
+              <div className="ticker-search-primary">
+                <span className="ticker-search-symbol">{match.symbol}</span>
+                <span className="ticker-search-name">{match.name}</span>
+              </div>
+              <div className="ticker-search-meta">
+                {[match.exchange ?? match.region, match.assetType, match.currency].filter(Boolean).join(' · ')}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
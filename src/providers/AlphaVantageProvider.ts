@@ -0,0 +1,369 @@
+// src/providers/AlphaVantageProvider.ts
+import {
+  MarketDataProvider,
+  BarsRequest,
+  FundamentalsRequest,
+  CorporateActionsRequest,
+  EarningsRequest,
+  SymbolSearchRequest,
+  FxRateRequest,
+  ConnectionRequest,
+  PricePoint,
+  Fundamentals,
+  CorporateAction,
+  EarningsEvent,
+  FinancialStatement,
+  SymbolMatch,
+  FxRate,
+  QuoteStreamProtocol,
+  AssetType,
+  BarInterval
+} from '../types';
+import { AuthError, DataFetchError, msUntilUtcMidnight, QuotaExceededError, RateLimitError, UnknownTickerError } from '../DataErrors';
+import { FundamentalAnalysis, toNumber } from '../FundamentalAnalysis';
+import { fitsCompactOutput, INTERVAL_MINUTES, COMPACT_BAR_COUNT } from '../TimeRange';
+import { AssetClass } from '../AssetClass';
+
+const BASE_URL = 'https://www.alphavantage.co/query';
+
+export const alphaVantageProvider: MarketDataProvider = {
+  id: 'alphavantage',
+  name: 'Alpha Vantage',
+  signupUrl: 'https://www.alphavantage.co',
+  capabilities: {
+    fundamentals: true,
+    intraday: true,
+    corporateActions: true,
+    earnings: true,
+    symbolSearch: true,
+    streaming: false,
+    adjustedPrices: false,
+    fx: true,
+    assetTypes: ['equity', 'crypto', 'fx'],
+    requiresApiKey: true
+  },
+  rateLimit: {
+    requestsPerMinute: 5,
+    requestsPerDay: 25
+  },
+
+  async fetchBars({ ticker, assetType, range, interval, apiKey, since, fetch }: BarsRequest): Promise<PricePoint[]> {
+    const intervalMinutes = INTERVAL_MINUTES[interval];
+
+    // Only pay for the full series when the window needs it. Intraday "full"
+    // is the trailing month; compact is the latest 100 bars.
+    const outputSize = intervalMinutes === null
+      ? (fitsCompactOutput(range, since) ? 'compact' : 'full')
+      : (since && Date.now() - since.getTime() < COMPACT_BAR_COUNT * intervalMinutes * 60000 ? 'compact' : 'full');
+
+    const series = seriesRequest(ticker, assetType, interval, outputSize);
+
+    const timeSeriesResponse = await fetch(`${BASE_URL}?${series.query}&apikey=${apiKey}`);
+    const timeSeriesData = await timeSeriesResponse.json();
+
+    checkResponse(timeSeriesData, ticker);
+
+    const timeSeries = timeSeriesData[series.key];
+    if (!timeSeries) {
+      throw new UnknownTickerError(ticker, 'Invalid ticker symbol or no data available', { provider: 'alphavantage' });
+    }
+
+    const startDate = since || range.start;
+    const startKey = startDate ? startDate.toISOString().split('T')[0] : '';
+    const dates = Object.keys(timeSeries).filter(date => date >= startKey).sort();
+    return dates.map(date => ({
+      // Intraday equity timestamps are US/Eastern wall-clock times; crypto
+      // and FX timestamps are UTC
+      date: intervalMinutes === null
+        ? new Date(date)
+        : series.utc ? new Date(`${date.replace(' ', 'T')}Z`) : easternToUtc(date),
+      open: parseFloat(barField(timeSeries[date], '1', 'open')),
+      high: parseFloat(barField(timeSeries[date], '2', 'high')),
+      low: parseFloat(barField(timeSeries[date], '3', 'low')),
+      close: parseFloat(barField(timeSeries[date], '4', 'close')),
+      // FX series carry no volume
+      volume: assetType === 'fx' ? 0 : parseInt(barField(timeSeries[date], '5', 'volume'))
+    }));
+  },
+
+  // OVERVIEW carries the trailing ratios and estimates; the three statement
+  // endpoints carry the quarterly and annual history
+  async fetchFundamentals({ ticker, apiKey, fetch }: FundamentalsRequest): Promise<Fundamentals> {
+    const [overviewData, incomeData, balanceData, cashFlowData] = await Promise.all(
+      ['OVERVIEW', 'INCOME_STATEMENT', 'BALANCE_SHEET', 'CASH_FLOW'].map(fn =>
+        fetch(`${BASE_URL}?function=${fn}&symbol=${ticker}&apikey=${apiKey}`).then(r => r.json())
+      )
+    );
+
+    [overviewData, incomeData, balanceData, cashFlowData].forEach(data => checkResponse(data, ticker));
+
+    const revenue = toNumber(overviewData.RevenueTTM);
+    const grossProfit = toNumber(overviewData.GrossProfitTTM);
+
+    return {
+      pe: toNumber(overviewData.PERatio),
+      pb: toNumber(overviewData.PriceToBookRatio),
+      peg: toNumber(overviewData.PEGRatio),
+      dividendYield: toNumber(overviewData.DividendYield),
+      marketCap: toNumber(overviewData.MarketCapitalization),
+      eps: toNumber(overviewData.EPS),
+      revenue,
+      grossMargin: revenue && grossProfit !== null ? grossProfit / revenue : null,
+      operatingMargin: toNumber(overviewData.OperatingMarginTTM),
+      profitMargin: toNumber(overviewData.ProfitMargin),
+      returnOnEquity: toNumber(overviewData.ReturnOnEquityTTM),
+      debtToEquity: null, // derived from the latest balance sheet
+      freeCashFlow: null,
+      sharesOutstanding: toNumber(overviewData.SharesOutstanding),
+      forwardPe: toNumber(overviewData.ForwardPE),
+      forwardEps: null,
+      targetPrice: toNumber(overviewData.AnalystTargetPrice),
+      history: {
+        quarterly: statementHistory('quarterly', incomeData.quarterlyReports, balanceData.quarterlyReports, cashFlowData.quarterlyReports),
+        annual: statementHistory('annual', incomeData.annualReports, balanceData.annualReports, cashFlowData.annualReports)
+      },
+      currency: overviewData.Currency || null
+    };
+  },
+
+  // TIME_SERIES_DAILY is unadjusted, so splits and dividends come from their own endpoints
+  async fetchCorporateActions({ ticker, apiKey, fetch }: CorporateActionsRequest): Promise<CorporateAction[]> {
+    const [splitsData, dividendsData] = await Promise.all([
+      fetch(`${BASE_URL}?function=SPLITS&symbol=${ticker}&apikey=${apiKey}`).then(r => r.json()),
+      fetch(`${BASE_URL}?function=DIVIDENDS&symbol=${ticker}&apikey=${apiKey}`).then(r => r.json())
+    ]);
+
+    checkResponse(splitsData, ticker);
+    checkResponse(dividendsData, ticker);
+
+    const splits: CorporateAction[] = (splitsData.data || []).map((split: any) => ({
+      date: new Date(split.effective_date),
+      type: 'split',
+      value: parseFloat(split.split_factor),
+      source: 'provider'
+    }));
+    const dividends: CorporateAction[] = (dividendsData.data || []).map((dividend: any) => ({
+      date: new Date(dividend.ex_dividend_date),
+      type: 'dividend',
+      value: parseFloat(dividend.amount),
+      source: 'provider'
+    }));
+
+    return [...splits, ...dividends].filter(action => !isNaN(action.date.getTime()) && action.value > 0);
+  },
+
+  // EARNINGS lists reported quarters; EARNINGS_CALENDAR (CSV) lists the
+  // scheduled ones for the next three months
+  async fetchEarnings({ ticker, apiKey, fetch }: EarningsRequest): Promise<EarningsEvent[]> {
+    const [earningsData, calendarText] = await Promise.all([
+      fetch(`${BASE_URL}?function=EARNINGS&symbol=${ticker}&apikey=${apiKey}`).then(r => r.json()),
+      fetch(`${BASE_URL}?function=EARNINGS_CALENDAR&symbol=${ticker}&horizon=3month&apikey=${apiKey}`).then(r => r.text())
+    ]);
+
+    checkResponse(earningsData, ticker);
+    // Errors come back as JSON even though the calendar itself is CSV
+    const calendarIsJson = calendarText.trim().startsWith('{');
+    if (calendarIsJson) {
+      checkResponse(JSON.parse(calendarText), ticker);
+    }
+
+    const reported: EarningsEvent[] = (earningsData.quarterlyEarnings || []).map((quarter: any) => ({
+      date: new Date(quarter.reportedDate),
+      fiscalDateEnding: new Date(quarter.fiscalDateEnding),
+      timing: parseReportTime(quarter.reportTime),
+      epsEstimate: toNumber(quarter.estimatedEPS),
+      epsActual: toNumber(quarter.reportedEPS)
+    }));
+
+    const [header, ...rows] = calendarText.trim().split(/\r?\n/).map((line: string) => line.split(','));
+    const column = (name: string) => header.indexOf(name);
+    const scheduled: EarningsEvent[] = calendarIsJson ? [] : rows.map((row: string[]) => ({
+      date: new Date(row[column('reportDate')]),
+      fiscalDateEnding: column('fiscalDateEnding') >= 0 ? new Date(row[column('fiscalDateEnding')]) : null,
+      timing: parseReportTime(row[column('timeOfTheDay')]),
+      epsEstimate: toNumber(row[column('estimate')]),
+      epsActual: null
+    }));
+
+    // A release already reported can still linger on the calendar
+    const reportedDays = new Set(reported.map(event => event.date.getTime()));
+    return [...reported, ...scheduled.filter(event => !reportedDays.has(event.date.getTime()))]
+      .filter(event => !isNaN(event.date.getTime()))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  },
+
+  async searchSymbols({ query, apiKey, fetch }: SymbolSearchRequest): Promise<SymbolMatch[]> {
+    const searchUrl = `${BASE_URL}?function=SYMBOL_SEARCH&keywords=${encodeURIComponent(query)}&apikey=${apiKey}`;
+
+    const searchResponse = await fetch(searchUrl);
+    const searchData = await searchResponse.json();
+
+    checkResponse(searchData, query);
+
+    // Alpha Vantage reports the region but not the listing exchange
+    return (searchData.bestMatches || []).map((match: any) => ({
+      symbol: match['1. symbol'],
+      name: match['2. name'],
+      exchange: null,
+      assetType: match['3. type'] || null,
+      currency: match['8. currency'] || null,
+      region: match['4. region'] || null
+    }));
+  },
+
+  quoteStream(): QuoteStreamProtocol {
+    throw new DataFetchError('Alpha Vantage does not offer a live quote stream', { provider: 'alphavantage' });
+  },
+
+  // Realtime rate; "Last Refreshed" is in UTC
+  async fetchFxRate({ base, quote, apiKey, fetch }: FxRateRequest): Promise<FxRate> {
+    const response = await fetch(`${BASE_URL}?function=CURRENCY_EXCHANGE_RATE&from_currency=${base}&to_currency=${quote}&apikey=${apiKey}`);
+    const data = await response.json();
+
+    checkResponse(data, `${base}/${quote}`);
+
+    const exchangeRate = data['Realtime Currency Exchange Rate'] || {};
+    const rate = toNumber(exchangeRate['5. Exchange Rate']);
+    if (rate === null || rate <= 0) {
+      throw new DataFetchError(`Alpha Vantage has no exchange rate for ${base}/${quote}`, { provider: 'alphavantage' });
+    }
+    const refreshed = new Date(`${String(exchangeRate['6. Last Refreshed']).replace(' ', 'T')}Z`);
+    return { base, quote, rate, asOf: isNaN(refreshed.getTime()) ? new Date() : refreshed, source: 'alphavantage' };
+  },
+
+  // Every call counts against the daily quota; a quote is the smallest response
+  async testConnection({ apiKey, fetch }: ConnectionRequest): Promise<void> {
+    const response = await fetch(`${BASE_URL}?function=GLOBAL_QUOTE&symbol=IBM&apikey=${apiKey}`);
+    checkResponse(await response.json(), 'IBM');
+  }
+};
+
+// Endpoint and response key for a bar series. Pairs are requested by their
+// two currencies (BTC-USD: symbol=BTC, market=USD).
+function seriesRequest(
+  ticker: string,
+  assetType: AssetType,
+  interval: BarInterval,
+  outputSize: string
+): { query: string; key: string; utc: boolean } {
+  const daily = INTERVAL_MINUTES[interval] === null;
+  const pair = AssetClass.pair(ticker);
+
+  if (assetType === 'crypto' && pair) {
+    return daily
+      ? { query: `function=DIGITAL_CURRENCY_DAILY&symbol=${pair.base}&market=${pair.quote}`, key: 'Time Series (Digital Currency Daily)', utc: true }
+      : { query: `function=CRYPTO_INTRADAY&symbol=${pair.base}&market=${pair.quote}&interval=${interval}&outputsize=${outputSize}`, key: `Time Series Crypto (${interval})`, utc: true };
+  }
+  if (assetType === 'fx' && pair) {
+    return daily
+      ? { query: `function=FX_DAILY&from_symbol=${pair.base}&to_symbol=${pair.quote}&outputsize=${outputSize}`, key: 'Time Series FX (Daily)', utc: true }
+      : { query: `function=FX_INTRADAY&from_symbol=${pair.base}&to_symbol=${pair.quote}&interval=${interval}&outputsize=${outputSize}`, key: `Time Series FX (${interval})`, utc: true };
+  }
+  return daily
+    ? { query: `function=TIME_SERIES_DAILY&symbol=${ticker}&outputsize=${outputSize}`, key: 'Time Series (Daily)', utc: false }
+    : { query: `function=TIME_SERIES_INTRADAY&symbol=${ticker}&interval=${interval}&extended_hours=false&outputsize=${outputSize}`, key: `Time Series (${interval})`, utc: false };
+}
+
+// Older digital currency responses label fields by market: "1a. open (USD)"
+function barField(bar: any, index: string, name: string): string {
+  const plain = bar[`${index}. ${name}`];
+  if (plain !== undefined) return plain;
+  const key = Object.keys(bar).find(field => field.startsWith(`${index}a. ${name}`));
+  return key ? bar[key] : plain;
+}
+
+// Release timing as written on the earnings calendar
+function parseReportTime(value: string | undefined): EarningsEvent['timing'] {
+  if (!value) return null;
+  if (/pre|before|bmo/i.test(value)) return 'pre-market';
+  if (/post|after|amc/i.test(value)) return 'post-market';
+  return null;
+}
+
+// Join the three statements on their fiscal period end
+function statementHistory(
+  period: FinancialStatement['period'],
+  income: any[] = [],
+  balance: any[] = [],
+  cashFlow: any[] = []
+): FinancialStatement[] {
+  const byDate = new Map<string, { income?: any; balance?: any; cashFlow?: any }>();
+  const add = (reports: any[], key: 'income' | 'balance' | 'cashFlow') => reports.forEach(report => {
+    const entry = byDate.get(report.fiscalDateEnding) || {};
+    entry[key] = report;
+    byDate.set(report.fiscalDateEnding, entry);
+  });
+  add(income, 'income');
+  add(balance, 'balance');
+  add(cashFlow, 'cashFlow');
+
+  return FundamentalAnalysis.sortHistory(Array.from(byDate.entries()).map(([date, { income = {}, balance = {}, cashFlow = {} }]) =>
+    FundamentalAnalysis.statement({
+      fiscalDateEnding: new Date(date),
+      period,
+      revenue: toNumber(income.totalRevenue),
+      grossProfit: toNumber(income.grossProfit),
+      operatingIncome: toNumber(income.operatingIncome),
+      netIncome: toNumber(income.netIncome),
+      totalAssets: toNumber(balance.totalAssets),
+      totalLiabilities: toNumber(balance.totalLiabilities),
+      shareholderEquity: toNumber(balance.totalShareholderEquity),
+      totalDebt: toNumber(balance.shortLongTermDebtTotal),
+      sharesOutstanding: toNumber(balance.commonStockSharesOutstanding),
+      operatingCashFlow: toNumber(cashFlow.operatingCashflow),
+      capitalExpenditures: toNumber(cashFlow.capitalExpenditures)
+    })
+  ));
+}
+
+// Failures come back as HTTP 200 with a message. Throttling notes can name
+// both limits, so the shorter waits are matched first.
+function checkResponse(data: any, ticker: string): void {
+  const throttled = data.Note || data.Information;
+  if (throttled) {
+    if (/per second|spreading out/i.test(throttled)) {
+      throw new RateLimitError('Rate limit exceeded. Please wait and try again.', { provider: 'alphavantage', retryAfterMs: 1000 });
+    }
+    if (/per minute/i.test(throttled)) {
+      // The retry then waits for the drained request scheduler to refill
+      throw new RateLimitError('Rate limit exceeded. Please wait and try again.', { provider: 'alphavantage' });
+    }
+    if (/per day|daily/i.test(throttled)) {
+      throw new QuotaExceededError('The Alpha Vantage daily request limit is used up.', {
+        provider: 'alphavantage',
+        retryAfterMs: msUntilUtcMidnight()
+      });
+    }
+    throw new DataFetchError(throttled, { provider: 'alphavantage' });
+  }
+
+  const message = data['Error Message'] || data.Error;
+  if (message) {
+    if (/apikey/i.test(message)) {
+      throw new AuthError('The Alpha Vantage API key is invalid or missing.', { provider: 'alphavantage' });
+    }
+    if (/invalid api call/i.test(message)) {
+      throw new UnknownTickerError(ticker, undefined, { provider: 'alphavantage' });
+    }
+    throw new DataFetchError(message, { provider: 'alphavantage' });
+  }
+}
+
+// Convert "YYYY-MM-DD HH:MM:SS" in US/Eastern to a UTC Date. US daylight time
+// runs from the second Sunday in March to the first Sunday in November.
+export function easternToUtc(timestamp: string): Date {
+  const [datePart, timePart = '00:00:00'] = timestamp.split(' ');
+  const [y, m, d] = datePart.split('-').map(Number);
+  const [hh, mm, ss = 0] = timePart.split(':').map(Number);
+
+  const nthSunday = (month: number, n: number) => {
+    const firstDay = new Date(Date.UTC(y, month, 1)).getUTCDay();
+    return 1 + ((7 - firstDay) % 7) + (n - 1) * 7;
+  };
+  const dstStart = Date.UTC(y, 2, nthSunday(2, 2), 2);
+  const dstEnd = Date.UTC(y, 10, nthSunday(10, 1), 2);
+  const wallClock = Date.UTC(y, m - 1, d, hh, mm, ss);
+  const offsetHours = wallClock >= dstStart && wallClock < dstEnd ? 4 : 5;
+
+  return new Date(wallClock + offsetHours * 60 * 60 * 1000);
+}
@@ -0,0 +1,52 @@
+// src/providers/FixtureFxRates.ts
+import { FxRate } from '../types';
+import { DataFetchError } from '../DataErrors';
+
+// Approximate closing rates on the date below, in units per US dollar.
+// Bundled so conversion works offline and without a key; a configured
+// provider's live rate always wins.
+const AS_OF = new Date('2024-06-28T00:00:00Z');
+
+const UNITS_PER_USD: Record<string, number> = {
+  USD: 1,
+  EUR: 0.9335,
+  GBP: 0.7908,
+  JPY: 160.88,
+  CHF: 0.8985,
+  CAD: 1.3679,
+  AUD: 1.4993,
+  NZD: 1.6424,
+  HKD: 7.8074,
+  CNY: 7.2672,
+  TWD: 32.44,
+  KRW: 1376.6,
+  SGD: 1.3554,
+  INR: 83.39,
+  SEK: 10.59,
+  NOK: 10.65,
+  DKK: 6.9615,
+  ILS: 3.7664,
+  ZAR: 18.26,
+  BRL: 5.5905,
+  MXN: 18.33
+};
+
+// Rates between any two bundled currencies, crossed through the dollar
+export const fixtureFxRates = {
+  id: 'fixture',
+  name: 'Bundled reference rates',
+  asOf: AS_OF,
+
+  currencies(): string[] {
+    return Object.keys(UNITS_PER_USD);
+  },
+
+  rate(base: string, quote: string): FxRate {
+    const perBase = UNITS_PER_USD[base];
+    const perQuote = UNITS_PER_USD[quote];
+    if (perBase === undefined || perQuote === undefined) {
+      throw new DataFetchError(`No reference exchange rate for ${base}/${quote}`, { provider: 'fixture' });
+    }
+    return { base, quote, rate: perQuote / perBase, asOf: AS_OF, source: 'fixture' };
+  }
+};
@@ -0,0 +1,277 @@
+// src/providers/PolygonProvider.ts
+import {
+  MarketDataProvider,
+  BarsRequest,
+  FundamentalsRequest,
+  CorporateActionsRequest,
+  EarningsRequest,
+  SymbolSearchRequest,
+  FxRateRequest,
+  ConnectionRequest,
+  PricePoint,
+  Fundamentals,
+  CorporateAction,
+  EarningsEvent,
+  FinancialStatement,
+  SymbolMatch,
+  FxRate,
+  Quote,
+  QuoteStreamProtocol,
+  AssetType
+} from '../types';
+import { AuthError, DataFetchError, UnknownTickerError } from '../DataErrors';
+import { FundamentalAnalysis, toNumber } from '../FundamentalAnalysis';
+import { INTERVAL_MINUTES, sessionDate } from '../TimeRange';
+import { AssetClass } from '../AssetClass';
+
+const BASE_URL = 'https://api.polygon.io';
+const STREAM_URL = 'wss://socket.polygon.io/stocks';
+
+// Start of the request window for 'max'; Polygon trims to what the plan allows
+const EARLIEST_DATE = '1980-01-01';
+
+export const polygonProvider: MarketDataProvider = {
+  id: 'polygon',
+  name: 'Polygon',
+  signupUrl: 'https://polygon.io',
+  capabilities: {
+    fundamentals: true,
+    intraday: true,
+    corporateActions: true,
+    earnings: false,
+    symbolSearch: true,
+    streaming: true,
+    adjustedPrices: true,
+    fx: true,
+    assetTypes: ['equity', 'crypto', 'fx'],
+    requiresApiKey: true
+  },
+  rateLimit: {
+    requestsPerMinute: 5,
+    requestsPerDay: null
+  },
+
+  async fetchBars({ ticker, assetType, range, interval, apiKey, since, fetch }: BarsRequest): Promise<PricePoint[]> {
+    const endDate = range.end.toISOString().split('T')[0];
+    const windowStart = range.start || new Date(EARLIEST_DATE);
+    const startDate = (since && since > windowStart ? since : windowStart).toISOString().split('T')[0];
+
+    // Intraday requests sort newest-first so the 50,000-bar cap keeps the most recent bars
+    const intervalMinutes = INTERVAL_MINUTES[interval];
+    const [multiplier, timespan, sort] = intervalMinutes === null
+      ? [1, 'day', 'asc']
+      : intervalMinutes % 60 === 0 ? [intervalMinutes / 60, 'hour', 'desc'] : [intervalMinutes, 'minute', 'desc'];
+    const aggregatesUrl = `${BASE_URL}/v2/aggs/ticker/${aggregatesTicker(ticker, assetType)}/range/${multiplier}/${timespan}/${startDate}/${endDate}?adjusted=true&sort=${sort}&limit=50000&apikey=${apiKey}`;
+
+    const aggregatesResponse = await fetch(aggregatesUrl);
+    const aggregatesData = await aggregatesResponse.json();
+
+    if (aggregatesData.status === 'NOT_AUTHORIZED') {
+      throw new AuthError(aggregatesData.message || 'The Polygon API key is not authorized for this data.', { provider: 'polygon' });
+    }
+
+    if (aggregatesData.status === 'ERROR') {
+      throw new DataFetchError(aggregatesData.error || 'API error', { provider: 'polygon' });
+    }
+
+    if (!aggregatesData.results || aggregatesData.results.length === 0) {
+      throw new UnknownTickerError(ticker, 'No data available for this ticker', { provider: 'polygon' });
+    }
+
+    const prices: PricePoint[] = aggregatesData.results.map((result: any) => ({
+      date: intervalMinutes === null ? sessionDate(new Date(result.t)) : new Date(result.t),
+      open: result.o,
+      high: result.h,
+      low: result.l,
+      close: result.c,
+      volume: result.v
+    }));
+    return sort === 'desc' ? prices.reverse() : prices;
+  },
+
+  // Ticker details carry the market cap and share count; the vX financials
+  // carry quarterly and annual statements. Ratios are derived by the DataFetcher.
+  async fetchFundamentals({ ticker, apiKey, fetch }: FundamentalsRequest): Promise<Fundamentals> {
+    const tickerDetailsUrl = `${BASE_URL}/v3/reference/tickers/${ticker}?apikey=${apiKey}`;
+    const financialsUrl = (timeframe: string, limit: number) =>
+      `${BASE_URL}/vX/reference/financials?ticker=${ticker}&timeframe=${timeframe}&limit=${limit}&apikey=${apiKey}`;
+
+    const [tickerDetailsData, quarterlyData, annualData] = await Promise.all([
+      fetch(tickerDetailsUrl).then(r => r.json()),
+      fetch(financialsUrl('quarterly', 12)).then(r => r.json()),
+      fetch(financialsUrl('annual', 5)).then(r => r.json())
+    ]);
+
+    if ([tickerDetailsData, quarterlyData, annualData].some(data => data.status === 'NOT_AUTHORIZED')) {
+      throw new AuthError('The Polygon API key was rejected.', { provider: 'polygon' });
+    }
+
+    const details = tickerDetailsData.results && !tickerDetailsData.error ? tickerDetailsData.results : {};
+
+    return {
+      pe: null,
+      pb: null,
+      peg: null,
+      dividendYield: null,
+      marketCap: toNumber(details.market_cap),
+      eps: null,
+      revenue: null,
+      grossMargin: null,
+      operatingMargin: null,
+      profitMargin: null,
+      returnOnEquity: null,
+      debtToEquity: null,
+      freeCashFlow: null,
+      sharesOutstanding: toNumber(details.share_class_shares_outstanding ?? details.weighted_shares_outstanding),
+      forwardPe: null,
+      forwardEps: null,
+      targetPrice: null,
+      history: {
+        quarterly: statementHistory('quarterly', quarterlyData.results),
+        annual: statementHistory('annual', annualData.results)
+      },
+      currency: details.currency_name ? details.currency_name.toUpperCase() : null
+    };
+  },
+
+  async fetchCorporateActions({ ticker, apiKey, fetch }: CorporateActionsRequest): Promise<CorporateAction[]> {
+    const splitsUrl = `${BASE_URL}/v3/reference/splits?ticker=${ticker}&limit=1000&apikey=${apiKey}`;
+    const dividendsUrl = `${BASE_URL}/v3/reference/dividends?ticker=${ticker}&limit=1000&apikey=${apiKey}`;
+
+    const [splitsData, dividendsData] = await Promise.all([
+      fetch(splitsUrl).then(r => r.json()),
+      fetch(dividendsUrl).then(r => r.json())
+    ]);
+
+    if (splitsData.status === 'NOT_AUTHORIZED' || dividendsData.status === 'NOT_AUTHORIZED') {
+      throw new AuthError('Your Polygon plan does not include corporate actions.', { provider: 'polygon' });
+    }
+
+    const splits: CorporateAction[] = (splitsData.results || []).map((split: any) => ({
+      date: new Date(split.execution_date),
+      type: 'split',
+      value: split.split_to / split.split_from,
+      source: 'provider'
+    }));
+    const dividends: CorporateAction[] = (dividendsData.results || []).map((dividend: any) => ({
+      date: new Date(dividend.ex_dividend_date),
+      type: 'dividend',
+      value: dividend.cash_amount,
+      source: 'provider'
+    }));
+
+    return [...splits, ...dividends].filter(action => !isNaN(action.date.getTime()) && action.value > 0);
+  },
+
+  // Polygon has no earnings calendar on its reference endpoints
+  async fetchEarnings({ ticker }: EarningsRequest): Promise<EarningsEvent[]> {
+    throw new DataFetchError(`Polygon does not provide earnings dates for ${ticker}`, { provider: 'polygon' });
+  },
+
+  async searchSymbols({ query, apiKey, fetch }: SymbolSearchRequest): Promise<SymbolMatch[]> {
+    const searchUrl = `${BASE_URL}/v3/reference/tickers?search=${encodeURIComponent(query)}&active=true&limit=10&apikey=${apiKey}`;
+
+    const searchResponse = await fetch(searchUrl);
+    const searchData = await searchResponse.json();
+
+    if (searchData.status === 'NOT_AUTHORIZED') {
+      throw new AuthError('The Polygon API key was rejected.', { provider: 'polygon' });
+    }
+
+    return (searchData.results || []).map((result: any) => ({
+      symbol: result.ticker,
+      name: result.name,
+      exchange: result.primary_exchange || null,
+      assetType: POLYGON_ASSET_TYPES[result.type] || result.type || null,
+      currency: result.currency_name ? result.currency_name.toUpperCase() : null,
+      region: result.locale ? result.locale.toUpperCase() : null
+    }));
+  },
+
+  // Trades ("T.<ticker>" channels) from the real-time stocks cluster. Every
+  // message is an array of events; status events report the auth outcome.
+  quoteStream(apiKey: string | null): QuoteStreamProtocol {
+    const channels = (tickers: string[]) => tickers.map(ticker => `T.${ticker}`).join(',');
+    return {
+      url: STREAM_URL,
+      handshake: [JSON.stringify({ action: 'auth', params: apiKey })],
+      subscribe: tickers => JSON.stringify({ action: 'subscribe', params: channels(tickers) }),
+      unsubscribe: tickers => JSON.stringify({ action: 'unsubscribe', params: channels(tickers) }),
+      parse(message: string): Quote[] {
+        const events = JSON.parse(message);
+        return (Array.isArray(events) ? events : [events]).flatMap((event: any): Quote[] => {
+          if (event.ev === 'status' && event.status === 'auth_failed') {
+            throw new AuthError(event.message || 'The Polygon API key was rejected for streaming.', { provider: 'polygon' });
+          }
+          if (event.ev !== 'T' || typeof event.p !== 'number') return [];
+          return [{ ticker: event.sym, price: event.p, size: event.s || 0, timestamp: new Date(event.t) }];
+        });
+      }
+    };
+  },
+
+  // Previous day's close of the currency pair ("C:EURUSD")
+  async fetchFxRate({ base, quote, apiKey, fetch }: FxRateRequest): Promise<FxRate> {
+    const response = await fetch(`${BASE_URL}/v2/aggs/ticker/C:${base}${quote}/prev?apikey=${apiKey}`);
+    const data = await response.json();
+
+    if (data.status === 'NOT_AUTHORIZED') {
+      throw new AuthError('The Polygon API key was rejected.', { provider: 'polygon' });
+    }
+    const [bar] = data.results || [];
+    if (!bar || typeof bar.c !== 'number' || bar.c <= 0) {
+      throw new DataFetchError(`Polygon has no exchange rate for ${base}/${quote}`, { provider: 'polygon' });
+    }
+    return { base, quote, rate: bar.c, asOf: new Date(bar.t), source: 'polygon' };
+  },
+
+  // Market status is available on every plan; a rejected key is a 401
+  async testConnection({ apiKey, fetch }: ConnectionRequest): Promise<void> {
+    const response = await fetch(`${BASE_URL}/v1/marketstatus/now?apikey=${apiKey}`);
+    const data = await response.json();
+    if (data.status === 'NOT_AUTHORIZED' || data.status === 'ERROR') {
+      throw new AuthError(data.message || data.error || 'The Polygon API key was rejected.', { provider: 'polygon' });
+    }
+  }
+};
+
+// Polygon prefixes crypto pairs with X: and currency pairs with C:
+function aggregatesTicker(ticker: string, assetType: AssetType): string {
+  const pair = AssetClass.pair(ticker);
+  if (!pair || assetType === 'equity') return ticker;
+  return `${assetType === 'crypto' ? 'X' : 'C'}:${pair.base}${pair.quote}`;
+}
+
+// Polygon reports each line item as { value, unit, label }. It has no capital
+// expenditure line, so free cash flow stays unknown.
+function statementHistory(period: FinancialStatement['period'], results: any[] = []): FinancialStatement[] {
+  return FundamentalAnalysis.sortHistory(results.map(result => {
+    const { income_statement: income = {}, balance_sheet: balance = {}, cash_flow_statement: cashFlow = {} } = result.financials || {};
+    const value = (section: any, field: string) => toNumber(section[field]?.value);
+
+    return FundamentalAnalysis.statement({
+      fiscalDateEnding: new Date(result.end_date),
+      period,
+      revenue: value(income, 'revenues'),
+      grossProfit: value(income, 'gross_profit'),
+      operatingIncome: value(income, 'operating_income_loss'),
+      netIncome: value(income, 'net_income_loss_attributable_to_parent') ?? value(income, 'net_income_loss'),
+      eps: value(income, 'diluted_earnings_per_share') ?? value(income, 'basic_earnings_per_share'),
+      totalAssets: value(balance, 'assets'),
+      totalLiabilities: value(balance, 'liabilities'),
+      shareholderEquity: value(balance, 'equity_attributable_to_parent') ?? value(balance, 'equity'),
+      totalDebt: value(balance, 'long_term_debt'),
+      operatingCashFlow: value(cashFlow, 'net_cash_flow_from_operating_activities')
+    });
+  }));
+}
+
+// Polygon's type codes for the common security types
+const POLYGON_ASSET_TYPES: Record<string, string> = {
+  CS: 'Equity',
+  ETF: 'ETF',
+  ADRC: 'ADR',
+  PFD: 'Preferred',
+  FUND: 'Fund',
+  INDEX: 'Index'
+};
@@ -0,0 +1,37 @@
+// src/providers/ProviderRegistry.ts
+import { ApiProvider, MarketDataProvider } from '../types';
+
+export class ProviderRegistry {
+  private providers = new Map<ApiProvider, MarketDataProvider>();
+
+  register(provider: MarketDataProvider): void {
+    if (!provider.id) {
+      throw new Error('Provider must have an id');
+    }
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Provider "${provider.id}" is already registered`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  unregister(id: ApiProvider): boolean {
+    return this.providers.delete(id);
+  }
+
+  has(id: ApiProvider): boolean {
+    return this.providers.has(id);
+  }
+
+  get(id: ApiProvider): MarketDataProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown data provider: ${id}`);
+    }
+    return provider;
+  }
+
+  // Providers in registration order
+  list(): MarketDataProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
@@ -0,0 +1,12 @@
+// src/providers/index.ts
+import { ProviderRegistry } from './ProviderRegistry';
+import { alphaVantageProvider } from './AlphaVantageProvider';
+import { polygonProvider } from './PolygonProvider';
+
+// Shared registry used by DataFetcher and the Settings drawer. In-house feeds
+// can be added with providerRegistry.register() before the app renders.
+export const providerRegistry = new ProviderRegistry();
+providerRegistry.register(alphaVantageProvider);
+providerRegistry.register(polygonProvider);
+
+export { ProviderRegistry, alphaVantageProvider, polygonProvider };
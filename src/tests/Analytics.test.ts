@@ -1,5 +1,6 @@
 import { Analytics } from '../Analytics';
-import { AnalyticsParams, PricePoint } from '../types';
+import { AnalyticsParams, AnalyticsResult, PricePoint } from '../types';
+import { Random } from '../Random';
 
 describe('Analytics', () => {
   // Generate synthetic walk for testing
@@ -173,5 +174,200 @@ describe('Analytics', () => {
     expect(isFinite(trend)).toBe(true);
     expect(isFinite(drift)).toBe(true);
   });
-});
 
+  test('Monte Carlo drift should scale with bars per year', () => {
+    const params: AnalyticsParams = {
+      alpha: 0.1,
+      beta: 0.8,
+      theta: 0.05,
+      switchProb: 0.05,
+      numPaths: 100,
+      numSteps: 10
+    };
+
+    // Near-zero volatility isolates the drift term: 10 steps of an annual 50% drift
+    const daily = Analytics.runMonteCarloSimulation(100, params, 1e-4, 0.5);
+    const intraday = Analytics.runMonteCarloSimulation(100, { ...params, barsPerYear: 252 * 78 }, 1e-4, 0.5);
+
+    expect(daily.percentiles.p50).toBeCloseTo(100 * Math.exp(0.5 * 10 / 252), 1);
+    expect(intraday.percentiles.p50).toBeCloseTo(100 * Math.exp(0.5 * 10 / (252 * 78)), 1);
+    expect(() => Analytics.runMonteCarloSimulation(100, { ...params, barsPerYear: 0 }, 0.01, 0)).toThrow('Bars per year must be positive');
+  });
+
+  test('Monte Carlo shocks should use the per-bar volatility without a √dt factor', () => {
+    // No GARCH feedback: every step's volatility stays at the initial 1% a bar
+    const params: AnalyticsParams = {
+      alpha: 0,
+      beta: 0,
+      theta: 0.05,
+      switchProb: 0,
+      numPaths: 2000,
+      numSteps: 100,
+      seed: 7
+    };
+    const dispersion = (result: AnalyticsResult) => {
+      const logReturns = result.paths.map(path => Math.log(path[path.length - 1] / path[0]));
+      const mean = logReturns.reduce((sum, r) => sum + r, 0) / logReturns.length;
+      return Math.sqrt(logReturns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (logReturns.length - 1));
+    };
+
+    // 100 bars of 1% volatility spread log returns by 1% · √100, whatever the bar length
+    const daily = Analytics.runMonteCarloSimulation(100, params, 0.01, 0);
+    const intraday = Analytics.runMonteCarloSimulation(100, { ...params, barsPerYear: 252 * 78 }, 0.01, 0);
+    expect(dispersion(daily)).toBeGreaterThan(0.09);
+    expect(dispersion(daily)).toBeLessThan(0.11);
+    expect(dispersion(intraday)).toBeCloseTo(dispersion(daily), 6);
+  });
+
+  test('Monte Carlo runs should be reproducible from their seed', () => {
+    const params: AnalyticsParams = {
+      alpha: 0.1,
+      beta: 0.8,
+      theta: 0.05,
+      switchProb: 0.05,
+      numPaths: 200,
+      numSteps: 20,
+      seed: 20240628
+    };
+
+    const first = Analytics.runMonteCarloSimulation(100, params, 0.02, 0.05);
+    const again = Analytics.runMonteCarloSimulation(100, params, 0.02, 0.05);
+    const other = Analytics.runMonteCarloSimulation(100, { ...params, seed: 1 }, 0.02, 0.05);
+    const unseeded = Analytics.runMonteCarloSimulation(100, { ...params, seed: undefined }, 0.02, 0.05);
+
+    expect(first.seed).toBe(20240628);
+    expect(again.paths).toEqual(first.paths);
+    expect(again.var95).toBe(first.var95);
+    expect(other.var95).not.toBe(first.var95);
+    // Unseeded runs report the seed they drew
+    expect(Analytics.runMonteCarloSimulation(100, { ...params, seed: unseeded.seed }, 0.02, 0.05).paths).toEqual(unseeded.paths);
+    expect(Analytics.generateMarkovRegime(new Array(50).fill(0.01), 0.2, new Random(5)))
+      .toEqual(Analytics.generateMarkovRegime(new Array(50).fill(0.01), 0.2, new Random(5)));
+    expect(() => Analytics.runMonteCarloSimulation(100, { ...params, seed: -1 }, 0.02, 0.05)).toThrow('Seed must be an integer');
+  });
+
+  test('fitGARCH should recover the parameters of a simulated GARCH(1,1)', () => {
+    const random = new Random(42);
+    const omega = 2e-6;
+    const alpha = 0.1;
+    const beta = 0.85;
+    let variance = omega / (1 - alpha - beta);
+    const returns: number[] = [];
+    for (let t = 0; t < 2000; t++) {
+      const r = Math.sqrt(variance) * random.normal();
+      returns.push(r);
+      variance = omega + alpha * r * r + beta * variance;
+    }
+
+    const fit = Analytics.fitGARCH(returns);
+
+    expect(fit.alpha).toBeCloseTo(alpha, 1);
+    expect(fit.beta).toBeCloseTo(beta, 1);
+    expect(fit.persistence).toBeCloseTo(fit.alpha + fit.beta, 12);
+    expect(fit.persistence).toBeLessThan(1);
+    expect(fit.longRunVolatility).toBeCloseTo(Math.sqrt(omega / (1 - alpha - beta)), 3);
+    // True values within three standard errors
+    expect(Math.abs(fit.alpha - alpha)).toBeLessThan(3 * fit.standardErrors.alpha);
+    expect(Math.abs(fit.beta - beta)).toBeLessThan(3 * fit.standardErrors.beta);
+    expect(fit.standardErrors.omega).toBeGreaterThan(0);
+    expect(isFinite(fit.logLikelihood)).toBe(true);
+    expect(() => Analytics.fitGARCH(returns.slice(0, 5))).toThrow('Need at least 10 returns');
+  });
+
+  test('detectRegimes should recover calm rallies and volatile selloffs', () => {
+    const random = new Random(11);
+    const stretch = (length: number, mean: number, sd: number) =>
+      Array.from({ length }, () => mean + sd * random.normal());
+    const returns = [...stretch(150, 0.002, 0.005), ...stretch(100, -0.004, 0.025), ...stretch(150, 0.002, 0.005)];
+    const truth = returns.map((_, t) => (t >= 150 && t < 250 ? -1 : 1));
+
+    const analysis = Analytics.detectRegimes(returns);
+    const matches = analysis.regimes.filter((r, t) => r === truth[t]).length;
+
+    expect(matches / returns.length).toBeGreaterThan(0.9);
+    expect(analysis.regimeReturns.bull).toBeGreaterThan(analysis.regimeReturns.bear);
+    expect(analysis.regimeVolatility.bear).toBeGreaterThan(analysis.regimeVolatility.bull);
+    expect(analysis.bullProbabilities).toHaveLength(returns.length);
+    expect(analysis.bullProbabilities.every(p => p >= 0 && p <= 1)).toBe(true);
+    expect(analysis.bullProbabilities[200]).toBeLessThan(0.5);
+    analysis.transitionMatrix.forEach(row => expect(row[0] + row[1]).toBeCloseTo(1, 10));
+    // Long stretches mean regimes that rarely change
+    expect(analysis.transitionMatrix[0][0]).toBeGreaterThan(0.9);
+    expect(analysis.regimeDuration.bear).toBeGreaterThan(10);
+    expect(isFinite(analysis.logLikelihood!)).toBe(true);
+    expect(Analytics.detectRegimes(new Array(30).fill(0.01)).bullProbabilities.every(p => isFinite(p))).toBe(true);
+    expect(() => Analytics.detectRegimes([0.01])).toThrow('Need at least 2 returns');
+  });
+
+  test('Regime parameters should be estimated from trailing returns', () => {
+    const returns = [...new Array(40).fill(0.01), ...new Array(40).fill(-0.02)];
+    // Small wiggles give each regime a measurable volatility
+    const noisy = returns.map((r, i) => r + (i % 2 === 0 ? 0.001 : -0.001));
+    const regimes = Analytics.estimateRegimeParams(noisy, 252);
+
+    expect(regimes.bull.drift).toBeGreaterThan(0);
+    expect(regimes.bear.drift).toBeLessThan(0);
+    expect(regimes.bull.volatility).toBeGreaterThan(0);
+    expect(regimes.initial).toBe('bear');
+    expect(() => Analytics.estimateRegimeParams([0.01])).toThrow('Need at least 2 returns');
+  });
+
+  test('Monte Carlo paths should switch between regime drifts', () => {
+    const params: AnalyticsParams = {
+      alpha: 0.01,
+      beta: 0.01,
+      theta: 0.05,
+      switchProb: 0,
+      numPaths: 100,
+      numSteps: 20,
+      seed: 3,
+      regimes: {
+        bull: { drift: 0.5, volatility: 1e-4 },
+        bear: { drift: -0.5, volatility: 1e-4 },
+        initial: 'bull'
+      }
+    };
+
+    // Never switching, every path keeps the bull drift instead of the trend drift
+    const stay = Analytics.runMonteCarloSimulation(100, params, 1e-4, 0);
+    expect(stay.regimeOccupancy).toEqual(new Array(100).fill(1));
+    expect(stay.percentiles.p50).toBeCloseTo(100 * Math.exp(0.5 * 20 / 252), 1);
+
+    // Switching after every step alternates bull, bear, ... so the drifts cancel
+    const flip = Analytics.runMonteCarloSimulation(100, { ...params, switchProb: 1 }, 1e-4, 0);
+    expect(flip.regimeOccupancy).toEqual(new Array(100).fill(0.5));
+    expect(flip.percentiles.p50).toBeCloseTo(100, 1);
+
+    // The first step is in the regime estimated from history: starting in
+    // bear, 11 alternating steps spend 6 in bear and 5 in bull
+    const first = Analytics.runMonteCarloSimulation(100, { ...params, switchProb: 1, numSteps: 11, regimes: { ...params.regimes!, initial: 'bear' } }, 1e-4, 0);
+    expect(first.regimeOccupancy).toEqual(new Array(100).fill(5 / 11));
+    expect(first.percentiles.p50).toBeLessThan(100);
+
+    const single = Analytics.runMonteCarloSimulation(100, { ...params, regimes: undefined }, 1e-4, 0);
+    expect(single.regimeOccupancy).toBeUndefined();
+    expect(() => Analytics.runMonteCarloSimulation(100, { ...params, regimes: { ...params.regimes!, bear: { drift: 0, volatility: 0 } } }, 1e-4, 0))
+      .toThrow('Regime volatilities must be positive');
+  });
+
+  test('Monte Carlo event jumps should widen the distribution only from the event step', () => {
+    const params: AnalyticsParams = {
+      alpha: 0.01,
+      beta: 0.01,
+      theta: 0.05,
+      switchProb: 0.05,
+      numPaths: 500,
+      numSteps: 10
+    };
+
+    const calm = Analytics.runMonteCarloSimulation(100, params, 1e-4, 0);
+    const jumpy = Analytics.runMonteCarloSimulation(100, { ...params, eventJumps: { steps: [5], stdDev: 0.1 } }, 1e-4, 0);
+
+    expect(calm.percentiles.p95 / calm.percentiles.p5).toBeLessThan(1.01);
+    expect(jumpy.percentiles.p95 / jumpy.percentiles.p5).toBeGreaterThan(1.2);
+    // Prices before the event step are untouched by the jump
+    jumpy.paths.forEach(path => expect(path[4]).toBeCloseTo(100, 0));
+    expect(() => Analytics.runMonteCarloSimulation(100, { ...params, eventJumps: { steps: [5], stdDev: -0.1 } }, 0.01, 0))
+      .toThrow('Event jump size must be between 0 and 1');
+  });
+});
@@ -0,0 +1,15 @@
+import { AssetClass } from '../AssetClass';
+
+describe('AssetClass', () => {
+  it('should detect crypto and FX pairs', () => {
+    expect(AssetClass.detect('BTC-USD')).toBe('crypto');
+    expect(AssetClass.detect('eth/eur')).toBe('crypto');
+    expect(AssetClass.detect('EUR/USD')).toBe('fx');
+    expect(AssetClass.detect('GBPJPY=X')).toBe('fx');
+    expect(AssetClass.detect('AAPL')).toBe('equity');
+    expect(AssetClass.detect('BRK-B')).toBe('equity');
+    expect(AssetClass.pair('BTC-USD')).toEqual({ base: 'BTC', quote: 'USD' });
+    expect(AssetClass.currency('EUR/GBP')).toBe('GBP');
+    expect(AssetClass.exchanges().map(calendar => calendar.id)).not.toContain('CRYPTO');
+  });
+});
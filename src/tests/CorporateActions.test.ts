@@ -0,0 +1,92 @@
+import { CorporateActions } from '../CorporateActions';
+import { Analytics } from '../Analytics';
+import { emptyFundamentals } from '../DataFetch';
+import { CorporateAction, PricePoint } from '../types';
+
+describe('CorporateActions', () => {
+  const bar = (day: number, close: number, volume = 1000): PricePoint => ({
+    date: new Date(Date.UTC(2024, 5, day)),
+    open: close, high: close, low: close, close, volume
+  });
+
+  // A 4-for-1 split on June 5 shows up as a 75% "crash" in the raw closes
+  const rawPrices = [bar(3, 400), bar(4, 404), bar(5, 102, 4000), bar(6, 103, 4000)];
+  const split: CorporateAction = { date: new Date('2024-06-05'), type: 'split', value: 4, source: 'provider' };
+  const dividend: CorporateAction = { date: new Date('2024-06-06'), type: 'dividend', value: 1.02, source: 'provider' };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should back-adjust prices and volume before a split', () => {
+    const adjusted = CorporateActions.adjust(rawPrices, [split], 'split');
+
+    expect(adjusted.map(p => p.close)).toEqual([100, 101, 102, 103]);
+    expect(adjusted[0].volume).toBe(4000);
+    expect(adjusted[3]).toEqual(rawPrices[3]);
+    expect(Math.min(...Analytics.calculateReturns(adjusted))).toBeGreaterThan(0);
+  });
+
+  it('should leave raw prices untouched', () => {
+    expect(CorporateActions.adjust(rawPrices, [split, dividend], 'raw')).toBe(rawPrices);
+  });
+
+  it('should reinvest dividends in the total-return series', () => {
+    const adjusted = CorporateActions.adjust(rawPrices, [split, dividend], 'total');
+
+    // The $1.02 dividend is 1% of the prior close, so earlier bars drop 1%
+    expect(adjusted[2].close).toBeCloseTo(102 * 0.99, 10);
+    expect(adjusted[0].close).toBeCloseTo(100 * 0.99, 10);
+    expect(adjusted[3].close).toBe(103);
+  });
+
+  it('should recover traded prices from provider-adjusted bars', () => {
+    const adjusted = CorporateActions.adjust(rawPrices, [split], 'split');
+    const unadjusted = CorporateActions.unadjustSplits(adjusted, [split]);
+
+    expect(unadjusted.map(p => p.close)).toEqual(rawPrices.map(p => p.close));
+  });
+
+  it('should ignore splits that take effect after the last bar', () => {
+    const future: CorporateAction = { ...split, date: new Date('2024-07-01') };
+    expect(CorporateActions.adjust(rawPrices, [future], 'split').map(p => p.close)).toEqual([400, 404, 102, 103]);
+  });
+
+  it('should let manual events override provider events on the same day', () => {
+    const manual: CorporateAction = { ...split, value: 2, source: 'manual' };
+    const merged = CorporateActions.merge([split, dividend], [manual]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toBe(manual);
+  });
+
+  it('should persist manual events per ticker', () => {
+    const manual: CorporateAction = { ...split, source: 'manual' };
+    CorporateActions.saveManual('acme', [manual]);
+
+    const loaded = CorporateActions.loadManual('ACME');
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0].date.toISOString()).toBe('2024-06-05T00:00:00.000Z');
+    expect(CorporateActions.loadManual('OTHER')).toEqual([]);
+
+    CorporateActions.saveManual('ACME', []);
+    expect(CorporateActions.loadManual('ACME')).toEqual([]);
+  });
+
+  it('should re-derive prices from raw bars when the mode changes', () => {
+    const data = {
+      ticker: 'ACME',
+      currentPrice: 103,
+      prices: rawPrices,
+      fundamentals: emptyFundamentals(),
+      corporateActions: [split]
+    };
+
+    const total = CorporateActions.applyTo(data, [dividend], 'total');
+    const raw = CorporateActions.applyTo(total, [], 'raw');
+
+    expect(total.rawPrices).toBe(rawPrices);
+    expect(total.adjustment).toBe('total');
+    expect(raw.prices).toBe(rawPrices);
+  });
+});
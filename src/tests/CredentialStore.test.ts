@@ -0,0 +1,81 @@
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { CredentialStore } from '../CredentialStore';
+
+// jsdom has neither WebCrypto's subtle API nor the text codecs
+Object.assign(global, { TextEncoder, TextDecoder });
+const crypto = webcrypto as unknown as Crypto;
+
+// Few iterations keep the key derivation fast in tests
+const createStore = () => new CredentialStore(crypto, 1000);
+
+describe('CredentialStore', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+    localStorage.clear();
+  });
+
+  it('should keep one key per provider for the session', async () => {
+    const store = createStore();
+    await store.set('alphavantage', 'av-key');
+    await store.set('polygon', ' poly-key ');
+
+    const reloaded = createStore();
+    expect(reloaded.get('alphavantage')).toBe('av-key');
+    expect(reloaded.get('polygon')).toBe('poly-key');
+
+    await reloaded.set('polygon', '');
+    expect(reloaded.providers()).toEqual(['alphavantage']);
+  });
+
+  it('should move the single key of earlier versions to its provider', () => {
+    sessionStorage.setItem('finance-api-key', 'old-key');
+    sessionStorage.setItem('finance-api-provider', 'polygon');
+
+    const store = createStore();
+
+    expect(store.get('polygon')).toBe('old-key');
+    expect(sessionStorage.getItem('finance-api-key')).toBeNull();
+    expect(sessionStorage.getItem('finance-api-provider')).toBe('polygon');
+  });
+
+  it('should restore encrypted keys in a later session with the passphrase', async () => {
+    const store = createStore();
+    await store.set('alphavantage', 'av-key');
+    await store.remember('correct horse');
+    await store.set('polygon', 'poly-key');
+
+    expect(localStorage.getItem('finance-credentials')).not.toContain('av-key');
+
+    sessionStorage.clear();
+    const later = createStore();
+    expect(later.isLocked()).toBe(true);
+    expect(later.get('alphavantage')).toBeNull();
+
+    await expect(later.unlock('wrong')).rejects.toThrow('Wrong passphrase');
+    await later.set('alphavantage', 'typed-this-session');
+    await later.unlock('correct horse');
+
+    expect(later.isLocked()).toBe(false);
+    expect(later.get('alphavantage')).toBe('typed-this-session');
+    expect(later.get('polygon')).toBe('poly-key');
+  });
+
+  it('should forget the encrypted copy but keep the session keys', async () => {
+    const store = createStore();
+    await store.set('polygon', 'poly-key');
+    await store.remember('passphrase');
+
+    store.forget();
+
+    expect(store.hasVault()).toBe(false);
+    expect(store.get('polygon')).toBe('poly-key');
+  });
+
+  it('should refuse to encrypt without WebCrypto', async () => {
+    const store = new CredentialStore(undefined);
+
+    expect(store.isEncryptionSupported()).toBe(false);
+    await expect(store.remember('passphrase')).rejects.toThrow('WebCrypto');
+  });
+});
@@ -0,0 +1,886 @@
+import { DataFetcher, alignByDate, emptyFundamentals, SECONDARY_QUOTA_RESERVE } from '../DataFetch';
+import { ProviderRegistry } from '../providers/ProviderRegistry';
+import { PriceCache, MemoryCacheStore } from '../PriceCache';
+import { resolveRange } from '../TimeRange';
+import { alphaVantageProvider } from '../providers/AlphaVantageProvider';
+import { polygonProvider } from '../providers/PolygonProvider';
+import {
+  AuthError,
+  UnknownTickerError,
+  NetworkError,
+  PartialDataError,
+  RateLimitError,
+  QuotaExceededError,
+  backoffDelay,
+  errorFromResponse,
+  withRetry,
+  DEFAULT_RETRY_OPTIONS
+} from '../DataErrors';
+import { Fundamentals, MarketDataProvider, PricePoint, ProviderCapabilities, StockData } from '../types';
+
+describe('DataFetcher', () => {
+  const mockPrices: PricePoint[] = [
+    { date: new Date('2024-01-02'), open: 100, high: 102, low: 99, close: 101, volume: 1000 },
+    { date: new Date('2024-01-03'), open: 101, high: 104, low: 100, close: 103, volume: 1200 },
+    { date: new Date('2024-01-04'), open: 103, high: 105, low: 102, close: 104, volume: 900 }
+  ];
+
+  const createCapabilities = (overrides: Partial<ProviderCapabilities> = {}): ProviderCapabilities => ({
+    fundamentals: true,
+    intraday: true,
+    corporateActions: false,
+    earnings: false,
+    symbolSearch: false,
+    streaming: false,
+    adjustedPrices: true,
+    fx: false,
+    assetTypes: ['equity'],
+    requiresApiKey: false,
+    ...overrides
+  });
+
+  const createProvider = (overrides: Partial<MarketDataProvider> = {}): MarketDataProvider => ({
+    id: 'in-house',
+    name: 'In-House Feed',
+    capabilities: createCapabilities(),
+    rateLimit: { requestsPerMinute: 60, requestsPerDay: null },
+    fetchBars: jest.fn().mockResolvedValue(mockPrices),
+    fetchFundamentals: jest.fn().mockResolvedValue({
+      ...emptyFundamentals(), pb: 2, marketCap: 1e9, eps: 5.2
+    }),
+    fetchCorporateActions: jest.fn().mockResolvedValue([]),
+    fetchEarnings: jest.fn().mockResolvedValue([]),
+    searchSymbols: jest.fn().mockResolvedValue([]),
+    quoteStream: jest.fn(),
+    fetchFxRate: jest.fn(),
+    testConnection: jest.fn().mockResolvedValue(undefined),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    sessionStorage.clear();
+    localStorage.clear();
+  });
+
+  describe('ProviderRegistry', () => {
+    it('should list providers in registration order', () => {
+      const registry = new ProviderRegistry();
+      registry.register(createProvider({ id: 'a', name: 'A' }));
+      registry.register(createProvider({ id: 'b', name: 'B' }));
+
+      expect(registry.list().map(p => p.id)).toEqual(['a', 'b']);
+      expect(registry.has('a')).toBe(true);
+    });
+
+    it('should reject duplicate and unknown providers', () => {
+      const registry = new ProviderRegistry();
+      registry.register(createProvider());
+
+      expect(() => registry.register(createProvider())).toThrow('already registered');
+      expect(() => registry.get('missing')).toThrow('Unknown data provider');
+    });
+  });
+
+  describe('fetchStockData', () => {
+    it('should dispatch to the selected registered provider', async () => {
+      const registry = new ProviderRegistry();
+      const provider = createProvider();
+      registry.register(provider);
+
+      const fetcher = new DataFetcher(registry);
+      fetcher.setProvider('in-house');
+      const data = await fetcher.fetchStockData('ACME', '6m');
+
+      expect(provider.fetchBars).toHaveBeenCalledWith(expect.objectContaining({ ticker: 'ACME', timeline: '6m', apiKey: null }));
+      expect(data.currentPrice).toBe(104);
+      expect(data.prices).toHaveLength(3);
+      expect(data.fundamentals.marketCap).toBe(1e9);
+    });
+
+    it('should derive P/E from EPS when the provider omits it', async () => {
+      const registry = new ProviderRegistry();
+      registry.register(createProvider());
+
+      const fetcher = new DataFetcher(registry);
+      fetcher.setProvider('in-house');
+      const data = await fetcher.fetchStockData('ACME');
+
+      expect(data.fundamentals.pe).toBeCloseTo(104 / 5.2, 6);
+    });
+
+    it('should record where the data came from and which fields are missing', async () => {
+      const registry = new ProviderRegistry();
+      registry.register(createProvider({
+        capabilities: createCapabilities({ earnings: true }),
+        fetchEarnings: jest.fn().mockRejectedValue(new Error('calendar unavailable'))
+      }));
+      const fetcher = new DataFetcher(registry, new PriceCache(new MemoryCacheStore()), { maxAttempts: 1 });
+      fetcher.setProvider('in-house');
+      fetcher.setExchange('LSE');
+
+      const error = await fetcher.fetchStockData('AAPL').catch(e => e);
+      const provenance = error.data.provenance;
+
+      expect(provenance).toEqual(expect.objectContaining({
+        provider: 'in-house',
+        importedFrom: null,
+        cacheStatus: 'miss',
+        adjustment: 'split',
+        providerAdjusted: true,
+        // Not reported by the provider; taken from the bundled symbol list
+        currency: 'USD',
+        exchange: 'LSE',
+        timeZone: 'Europe/London'
+      }));
+      expect(provenance.fields).toEqual(expect.objectContaining({
+        close: 'reported',
+        volume: 'reported',
+        eps: 'reported',
+        pe: 'derived',
+        revenue: 'missing',
+        corporateActions: 'unsupported',
+        earnings: 'missing'
+      }));
+
+      const cached = await fetcher.fetchStockData('AAPL').catch(e => e.data);
+      expect(cached.provenance.cacheStatus).toBe('hit');
+    });
+
+    it('should skip fundamentals for providers without them', async () => {
+      const registry = new ProviderRegistry();
+      const provider = createProvider({
+        capabilities: createCapabilities({ fundamentals: false, intraday: false, adjustedPrices: false })
+      });
+      registry.register(provider);
+
+      const fetcher = new DataFetcher(registry);
+      fetcher.setProvider('in-house');
+      const data = await fetcher.fetchStockData('ACME');
+
+      expect(provider.fetchFundamentals).not.toHaveBeenCalled();
+      expect(data.fundamentals.pe).toBeNull();
+    });
+
+    it('should return the bars before fundamentals and earnings load and share the pending load', async () => {
+      let resolveFundamentals: (fundamentals: Fundamentals) => void = () => {};
+      const release = {
+        date: new Date('2024-04-25T00:00:00Z'), fiscalDateEnding: null, timing: 'post-market' as const, epsEstimate: 1.5, epsActual: 1.6
+      };
+      const provider = createProvider({
+        capabilities: createCapabilities({ earnings: true }),
+        fetchFundamentals: jest.fn(() => new Promise<Fundamentals>(resolve => { resolveFundamentals = resolve; })),
+        fetchEarnings: jest.fn().mockResolvedValue([release])
+      });
+      const registry = new ProviderRegistry();
+      registry.register(provider);
+      const fetcher = new DataFetcher(registry, new PriceCache(new MemoryCacheStore()));
+      fetcher.setProvider('in-house');
+
+      const first = await fetcher.loadStockData('ACME');
+      const again = await fetcher.loadStockData('ACME', '5y');
+
+      expect(first.data.prices).toHaveLength(3);
+      expect(first.data.fundamentals.marketCap).toBeNull();
+      expect(first.data.sources?.fundamentals).toBeNull();
+      expect(first.data.earnings).toEqual([]);
+      expect(provider.fetchFundamentals).toHaveBeenCalledTimes(1);
+      expect(provider.fetchEarnings).toHaveBeenCalledTimes(1);
+
+      resolveFundamentals({ ...emptyFundamentals(), marketCap: 2e9 });
+      const [completed, other] = await Promise.all([first.secondary, again.secondary]);
+
+      expect(completed?.fundamentals.marketCap).toBe(2e9);
+      expect(completed?.earnings).toHaveLength(1);
+      expect(other?.fundamentals.marketCap).toBe(2e9);
+      const cached = await fetcher.loadStockData('ACME');
+      expect(cached.data.cache?.status).toBe('hit');
+      expect(cached.data.fundamentals.marketCap).toBe(2e9);
+      expect(cached.secondary).toBeNull();
+    });
+
+    it('should split-adjust unadjusted bars and keep the raw series', async () => {
+      const registry = new ProviderRegistry();
+      const provider = createProvider({
+        capabilities: createCapabilities({ fundamentals: false, intraday: false, corporateActions: true, adjustedPrices: false }),
+        fetchCorporateActions: jest.fn().mockResolvedValue([
+          { date: new Date('2024-01-04'), type: 'split', value: 2, source: 'provider' }
+        ])
+      });
+      registry.register(provider);
+
+      const fetcher = new DataFetcher(registry, null);
+      fetcher.setProvider('in-house');
+      const data = await fetcher.fetchStockData('ACME');
+
+      expect(data.adjustment).toBe('split');
+      expect(data.prices.map(p => p.close)).toEqual([50.5, 51.5, 104]);
+      expect(data.rawPrices?.map(p => p.close)).toEqual([101, 103, 104]);
+      expect(data.corporateActions).toHaveLength(1);
+    });
+
+    it('should require an API key for providers that need one', async () => {
+      const registry = new ProviderRegistry();
+      registry.register(createProvider({
+        capabilities: createCapabilities({ adjustedPrices: false, requiresApiKey: true })
+      }));
+
+      const fetcher = new DataFetcher(registry);
+      fetcher.setProvider('in-house');
+
+      expect(fetcher.canFetch()).toBe(false);
+      await expect(fetcher.fetchStockData('ACME')).rejects.toThrow('API key not set');
+    });
+  });
+
+  describe('credentials', () => {
+    const needsKey = createCapabilities({ fundamentals: false, requiresApiKey: true });
+
+    it('should keep a key per provider and restore the active provider', async () => {
+      const registry = new ProviderRegistry();
+      const a = createProvider({ id: 'a', capabilities: needsKey });
+      const b = createProvider({ id: 'b', capabilities: needsKey });
+      registry.register(a);
+      registry.register(b);
+
+      const fetcher = new DataFetcher(registry, null);
+      fetcher.setProvider('b');
+      await fetcher.setApiKey('key-a', 'a');
+      await fetcher.setApiKey('key-b', 'b');
+
+      const reloaded = new DataFetcher(registry, null);
+      expect(reloaded.getProvider()).toBe('b');
+      expect(reloaded.hasApiKey('a')).toBe(true);
+      await reloaded.fetchStockData('ACME');
+      expect(b.fetchBars).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'key-b' }));
+
+      await reloaded.clearApiKey('b');
+      expect(reloaded.canFetch()).toBe(false);
+    });
+
+    it('should test a key with one scheduled request', async () => {
+      const registry = new ProviderRegistry();
+      const provider = createProvider({
+        capabilities: needsKey,
+        rateLimit: { requestsPerMinute: 5, requestsPerDay: null },
+        testConnection: jest.fn().mockRejectedValue(new AuthError('The API key was rejected.'))
+      });
+      registry.register(provider);
+      const fetcher = new DataFetcher(registry, null);
+
+      await expect(fetcher.testConnection('in-house')).rejects.toThrow('API key not set');
+      await expect(fetcher.testConnection('in-house', 'typed-key')).rejects.toBeInstanceOf(AuthError);
+      expect(provider.testConnection).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'typed-key' }));
+      expect(fetcher.getQuota('in-house')).toEqual({ provider: 'in-house', minute: { remaining: 5, limit: 5 }, day: null });
+    });
+  });
+
+  describe('PriceCache', () => {
+    const setup = (maxAgeMs: number) => {
+      const registry = new ProviderRegistry();
+      const provider = createProvider();
+      registry.register(provider);
+      const cache = new PriceCache(new MemoryCacheStore(), { maxAgeMs });
+      const fetcher = new DataFetcher(registry, cache);
+      fetcher.setProvider('in-house');
+      return { provider, fetcher };
+    };
+
+    it('should serve fresh entries without refetching', async () => {
+      const { provider, fetcher } = setup(60 * 60 * 1000);
+
+      const first = await fetcher.fetchStockData('ACME', '1y');
+      const second = await fetcher.fetchStockData('ACME', '1y');
+
+      expect(first.cache?.status).toBe('miss');
+      expect(second.cache?.status).toBe('hit');
+      expect(second.prices).toHaveLength(3);
+      expect(provider.fetchBars).toHaveBeenCalledTimes(1);
+      expect(provider.fetchFundamentals).toHaveBeenCalledTimes(1);
+    });
+
+    it('should key entries by timeline', async () => {
+      const { provider, fetcher } = setup(60 * 60 * 1000);
+
+      await fetcher.fetchStockData('ACME', '1y');
+      await fetcher.fetchStockData('ACME', '5y');
+
+      expect(provider.fetchBars).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reuse secondary data fetched under another timeline', async () => {
+      const { provider, fetcher } = setup(60 * 60 * 1000);
+
+      await fetcher.fetchStockData('ACME', '1y');
+      const data = await fetcher.fetchStockData('ACME', '5y');
+
+      expect(data.cache?.status).toBe('miss');
+      expect(data.fundamentals.marketCap).toBe(1e9);
+      expect(provider.fetchFundamentals).toHaveBeenCalledTimes(1);
+    });
+
+    it('should top up stale entries with only the missing bars', async () => {
+      const { provider, fetcher } = setup(0);
+      await fetcher.fetchStockData('ACME', '1y');
+
+      const newBars: PricePoint[] = [
+        { date: new Date('2024-01-04'), open: 103, high: 106, low: 102, close: 105, volume: 950 },
+        { date: new Date('2024-01-05'), open: 105, high: 107, low: 104, close: 106, volume: 800 }
+      ];
+      (provider.fetchBars as jest.Mock).mockResolvedValueOnce(newBars);
+
+      const data = await fetcher.fetchStockData('ACME', '1y');
+
+      expect(data.cache?.status).toBe('topup');
+      expect((provider.fetchBars as jest.Mock).mock.calls[1][0].since).toEqual(new Date('2024-01-04'));
+      expect(data.prices.map(p => p.close)).toEqual([101, 103, 105, 106]);
+      expect(data.currentPrice).toBe(106);
+      // Fundamentals are still fresh, so only bars were requested
+      expect(provider.fetchFundamentals).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch after the cache is cleared', async () => {
+      const { provider, fetcher } = setup(60 * 60 * 1000);
+
+      await fetcher.fetchStockData('ACME');
+      await fetcher.clearCache();
+      const data = await fetcher.fetchStockData('ACME');
+
+      expect(data.cache?.status).toBe('miss');
+      expect(provider.fetchBars).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('error handling', () => {
+    const fastRetry = { baseDelayMs: 1, maxDelayMs: 5 };
+
+    it('should retry transient failures with backoff', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new NetworkError('offline'))
+        .mockRejectedValueOnce(new RateLimitError('slow down', { retryAfterMs: 2 }))
+        .mockResolvedValue('ok');
+
+      await expect(withRetry(operation, fastRetry)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry permanent failures', async () => {
+      const operation = jest.fn().mockRejectedValue(new AuthError('bad key'));
+
+      await expect(withRetry(operation, fastRetry)).rejects.toBeInstanceOf(AuthError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up when retry-after exceeds the backoff ceiling', async () => {
+      const operation = jest.fn().mockRejectedValue(new RateLimitError('slow down', { retryAfterMs: 60000 }));
+
+      await expect(withRetry(operation, fastRetry)).rejects.toBeInstanceOf(RateLimitError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry an exhausted daily quota', async () => {
+      const operation = jest.fn().mockRejectedValue(new QuotaExceededError('daily quota'));
+
+      await expect(withRetry(operation, fastRetry)).rejects.toBeInstanceOf(QuotaExceededError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should tell Alpha Vantage throttling from its daily cap', async () => {
+      const reply = (body: object) => alphaVantageProvider.testConnection({
+        apiKey: 'demo',
+        fetch: jest.fn().mockResolvedValue({ json: () => Promise.resolve(body) })
+      }).catch(error => error);
+
+      const perMinute = await reply({ Note: 'Thank you for using Alpha Vantage! Our standard API call frequency is 5 calls per minute and 500 calls per day. Please visit https://www.alphavantage.co/premium/ if you would like to target a higher API call frequency.' });
+      const burst = await reply({ Information: 'Thank you for using Alpha Vantage! Please consider spreading out your free API requests more sparingly (1 request per second). You may subscribe to any of the premium plans at https://www.alphavantage.co/premium/ to lift the free key rate limit (25 requests per day) and instantly remove all daily rate limits.' });
+      const daily = await reply({ Information: 'Thank you for using Alpha Vantage! Our standard API rate limit is 25 requests per day. Please subscribe to any of the premium plans at https://www.alphavantage.co/premium/ to instantly remove all daily rate limits.' });
+
+      expect(perMinute).toBeInstanceOf(RateLimitError);
+      expect(perMinute.retryable).toBe(true);
+      expect(perMinute.retryAfterMs).toBeNull();
+      expect(burst.retryable).toBe(true);
+      expect(burst.retryAfterMs).toBeLessThanOrEqual(DEFAULT_RETRY_OPTIONS.maxDelayMs);
+      expect(daily).toBeInstanceOf(QuotaExceededError);
+      expect(daily.retryable).toBe(false);
+      expect(daily.retryAfterMs).toBeGreaterThan(0);
+      expect(daily.retryAfterMs).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+    });
+
+    it('should honour retry-after hints in the backoff delay', () => {
+      expect(backoffDelay(1, DEFAULT_RETRY_OPTIONS, 5000)).toBe(5000);
+      const delay = backoffDelay(3, DEFAULT_RETRY_OPTIONS);
+      expect(delay).toBeGreaterThanOrEqual(2000);
+      expect(delay).toBeLessThanOrEqual(4000);
+    });
+
+    it('should map HTTP statuses onto typed errors', () => {
+      const response = (status: number, headers: Record<string, string> = {}) =>
+        ({ ok: status < 400, status, headers: new Headers(headers) } as Response);
+
+      const rateLimited = errorFromResponse(response(429, { 'Retry-After': '30' }));
+      expect(rateLimited).toBeInstanceOf(RateLimitError);
+      expect(rateLimited?.retryAfterMs).toBe(30000);
+      expect(errorFromResponse(response(429))?.retryAfterMs).toBeNull();
+      expect(errorFromResponse(response(401))).toBeInstanceOf(AuthError);
+      expect(errorFromResponse(response(503))).toBeInstanceOf(NetworkError);
+      expect(errorFromResponse(response(200))).toBeNull();
+    });
+
+    it('should return partial data when fundamentals fail', async () => {
+      const registry = new ProviderRegistry();
+      registry.register(createProvider({
+        fetchFundamentals: jest.fn().mockRejectedValue(new Error('financials unavailable'))
+      }));
+      const fetcher = new DataFetcher(registry, new PriceCache(new MemoryCacheStore()), fastRetry);
+      fetcher.setProvider('in-house');
+
+      const error = await fetcher.fetchStockData('ACME').catch(e => e);
+
+      expect(error).toBeInstanceOf(PartialDataError);
+      expect(error.missing).toEqual(['fundamentals']);
+      expect(error.data.prices).toHaveLength(3);
+      expect(error.data.fundamentals.marketCap).toBeNull();
+    });
+
+    it('should skip secondary data when the daily quota runs low', async () => {
+      const provider = createProvider({ rateLimit: { requestsPerMinute: 60, requestsPerDay: 25 } });
+      const registry = new ProviderRegistry();
+      registry.register(provider);
+      const fetcher = new DataFetcher(registry, null);
+      fetcher.setProvider('in-house');
+      const today = new Date().toISOString().split('T')[0];
+      localStorage.setItem('finance-rate-limit:in-house', JSON.stringify({ date: today, count: 25 - SECONDARY_QUOTA_RESERVE + 1 }));
+
+      const error = await fetcher.fetchStockData('ACME').catch(e => e);
+
+      expect(error).toBeInstanceOf(PartialDataError);
+      expect(error.missing).toEqual(['fundamentals']);
+      expect(error.data.prices).toHaveLength(3);
+      expect(error.data.providerFailures[0].message).toContain('daily request quota');
+      expect(provider.fetchFundamentals).not.toHaveBeenCalled();
+    });
+
+    it('should attach earnings dates and report them as missing when they fail', async () => {
+      const release = {
+        date: new Date('2024-04-25T00:00:00Z'), fiscalDateEnding: null, timing: 'post-market' as const, epsEstimate: 1.5, epsActual: 1.6
+      };
+      const capabilities = createCapabilities({ earnings: true });
+
+      const registry = new ProviderRegistry();
+      registry.register(createProvider({ capabilities, fetchEarnings: jest.fn().mockResolvedValue([release]) }));
+      const fetcher = new DataFetcher(registry, new PriceCache(new MemoryCacheStore()), fastRetry);
+      fetcher.setProvider('in-house');
+      expect((await fetcher.fetchStockData('ACME')).earnings).toEqual([release]);
+
+      const failing = new ProviderRegistry();
+      failing.register(createProvider({ capabilities, fetchEarnings: jest.fn().mockRejectedValue(new Error('calendar unavailable')) }));
+      const partial = new DataFetcher(failing, new PriceCache(new MemoryCacheStore()), fastRetry);
+      partial.setProvider('in-house');
+      const error = await partial.fetchStockData('ACME').catch(e => e);
+
+      expect(error).toBeInstanceOf(PartialDataError);
+      expect(error.missing).toEqual(['earnings dates']);
+      expect(error.data.earnings).toEqual([]);
+    });
+
+    it('should surface typed provider errors after retrying', async () => {
+      const registry = new ProviderRegistry();
+      const provider = createProvider({
+        fetchBars: jest.fn().mockRejectedValue(new NetworkError('offline'))
+      });
+      registry.register(provider);
+      const fetcher = new DataFetcher(registry, null, fastRetry);
+      fetcher.setProvider('in-house');
+
+      await expect(fetcher.fetchStockData('ACME')).rejects.toBeInstanceOf(NetworkError);
+      expect(provider.fetchBars).toHaveBeenCalledTimes(DEFAULT_RETRY_OPTIONS.maxAttempts);
+    });
+  });
+
+  describe('provider failover', () => {
+    const fastRetry = { baseDelayMs: 1, maxDelayMs: 5, maxAttempts: 1 };
+    const backupPrices = mockPrices.map(bar => ({ ...bar, close: bar.close + 1 }));
+
+    const setup = (primary: Partial<MarketDataProvider>, backup: Partial<MarketDataProvider> = {}) => {
+      const registry = new ProviderRegistry();
+      const providers = {
+        primary: createProvider({ id: 'primary', name: 'Primary', ...primary }),
+        backup: createProvider({ id: 'backup', name: 'Backup', fetchBars: jest.fn().mockResolvedValue(backupPrices), ...backup })
+      };
+      registry.register(providers.primary);
+      registry.register(providers.backup);
+      return { registry, ...providers };
+    };
+
+    it('should only try the active provider unless fallbacks are configured', async () => {
+      const { registry, backup } = setup({ fetchBars: jest.fn().mockRejectedValue(new RateLimitError('limit reached')) });
+      const fetcher = new DataFetcher(registry, null, fastRetry);
+      fetcher.setProvider('primary');
+
+      expect(fetcher.getProviderOrder()).toEqual(['primary']);
+      await expect(fetcher.fetchStockData('ACME')).rejects.toBeInstanceOf(RateLimitError);
+      expect(backup.fetchBars).not.toHaveBeenCalled();
+    });
+
+    it('should fall through to the next provider and record who served each dataset', async () => {
+      const { registry } = setup({ fetchBars: jest.fn().mockRejectedValue(new UnknownTickerError('ACME')) });
+      const fetcher = new DataFetcher(registry, new PriceCache(new MemoryCacheStore()), fastRetry);
+      fetcher.setProviderOrder(['primary', 'backup']);
+
+      const data = await fetcher.fetchStockData('ACME');
+
+      expect(data.currentPrice).toBe(105);
+      expect(data.sources).toEqual({ prices: 'backup', fundamentals: 'backup', corporateActions: null, earnings: null });
+      expect(data.providerFailures).toEqual([{ provider: 'primary', dataset: 'prices', message: 'Unknown ticker symbol: ACME' }]);
+
+      // The fallback's entry is cached under its own id
+      const cached = await fetcher.fetchStockData('ACME');
+      expect(cached.cache?.status).toBe('hit');
+      expect(cached.sources?.prices).toBe('backup');
+    });
+
+    it('should fall through for secondary data the serving provider lacks or fails on', async () => {
+      const capabilities = createCapabilities({ earnings: true });
+      const release = {
+        date: new Date('2024-04-25T00:00:00Z'), fiscalDateEnding: null, timing: 'post-market' as const, epsEstimate: 1.5, epsActual: 1.6
+      };
+      const { registry } = setup(
+        { fetchFundamentals: jest.fn().mockRejectedValue(new RateLimitError('limit reached')) },
+        { capabilities, fetchEarnings: jest.fn().mockResolvedValue([release]) }
+      );
+      const fetcher = new DataFetcher(registry, null, fastRetry);
+      fetcher.setProviderOrder(['primary', 'backup']);
+
+      const data = await fetcher.fetchStockData('ACME');
+
+      expect(data.currentPrice).toBe(104);
+      expect(data.earnings).toEqual([release]);
+      expect(data.sources).toEqual({ prices: 'primary', fundamentals: 'backup', corporateActions: null, earnings: 'backup' });
+      expect(data.providerFailures).toEqual([{ provider: 'primary', dataset: 'fundamentals', message: 'limit reached' }]);
+    });
+
+    it('should report the active provider\'s error when every provider fails', async () => {
+      const { registry } = setup(
+        { fetchBars: jest.fn().mockRejectedValue(new RateLimitError('limit reached')) },
+        { fetchBars: jest.fn().mockRejectedValue(new NetworkError('offline')) }
+      );
+      const fetcher = new DataFetcher(registry, null, fastRetry);
+      fetcher.setProviderOrder(['primary', 'backup']);
+
+      await expect(fetcher.fetchStockData('ACME')).rejects.toBeInstanceOf(RateLimitError);
+    });
+
+    it('should skip fallbacks without credentials and keep them when switching providers', () => {
+      const needsKey = createCapabilities({ requiresApiKey: true });
+      const { registry } = setup({ capabilities: needsKey });
+      const fetcher = new DataFetcher(registry, null, fastRetry);
+      fetcher.setProviderOrder(['primary', 'backup', 'primary']);
+
+      expect(fetcher.getProviderOrder()).toEqual(['primary', 'backup']);
+      expect(fetcher.canFetch()).toBe(true);
+
+      fetcher.setProvider('backup');
+      expect(fetcher.getProviderOrder()).toEqual(['backup']);
+      expect(() => fetcher.setProviderOrder(['missing'])).toThrow('Unknown data provider');
+    });
+  });
+
+  describe('reporting currency', () => {
+    const fastRetry = { baseDelayMs: 1, maxDelayMs: 5, maxAttempts: 1 };
+    const fundamentalsIn = (currency: string) => jest.fn().mockResolvedValue({
+      ...emptyFundamentals(), pb: 2, marketCap: 1e9, eps: 5.2, currency
+    });
+
+    it('should convert at the bundled reference rate and keep the cache in the trading currency', async () => {
+      const registry = new ProviderRegistry();
+      registry.register(createProvider({ fetchFundamentals: fundamentalsIn('EUR') }));
+      const fetcher = new DataFetcher(registry, new PriceCache(new MemoryCacheStore()), fastRetry);
+      fetcher.setProvider('in-house');
+
+      const native = await fetcher.fetchStockData('ACME');
+      expect(native.currency).toBe('EUR');
+      expect(native.fx).toBeUndefined();
+
+      fetcher.setReportingCurrency('USD');
+      const converted = await fetcher.fetchStockData('ACME');
+      const rate = 1 / 0.9335;
+
+      expect(converted.cache?.status).toBe('hit');
+      expect(converted.currency).toBe('USD');
+      expect(converted.fx).toMatchObject({ base: 'EUR', quote: 'USD', source: 'fixture' });
+      expect(converted.currentPrice).toBeCloseTo(104 * rate);
+      expect(converted.fundamentals.marketCap).toBeCloseTo(1e9 * rate);
+      expect(converted.fundamentals.pb).toBe(2);
+      expect(converted.prices[0].volume).toBe(1000);
+      expect(converted.provenance?.currency).toBe('EUR');
+    });
+
+    it('should ask providers for major currencies and remember the rate', async () => {
+      const registry = new ProviderRegistry();
+      const fetchFxRate = jest.fn().mockResolvedValue({ base: 'GBP', quote: 'USD', rate: 1.25, asOf: new Date('2024-06-14'), source: 'in-house' });
+      registry.register(createProvider({
+        capabilities: createCapabilities({ fx: true }),
+        fetchFundamentals: fundamentalsIn('GBX'),
+        fetchFxRate
+      }));
+      const fetcher = new DataFetcher(registry, null, fastRetry);
+      fetcher.setProvider('in-house');
+      fetcher.setReportingCurrency('USD');
+
+      const data = await fetcher.fetchStockData('ACME');
+      await fetcher.fetchStockData('ACME');
+
+      // Prices in pence convert through the pound
+      expect(fetchFxRate).toHaveBeenCalledTimes(1);
+      expect(fetchFxRate).toHaveBeenCalledWith(expect.objectContaining({ base: 'GBP', quote: 'USD' }));
+      expect(data.fx).toMatchObject({ base: 'GBX', quote: 'USD', rate: 0.0125, source: 'in-house' });
+      expect(data.currentPrice).toBeCloseTo(1.3);
+    });
+
+    it('should leave data in an unknown currency unconverted', async () => {
+      const registry = new ProviderRegistry();
+      registry.register(createProvider({ fetchFundamentals: fundamentalsIn('XYZ') }));
+      const fetcher = new DataFetcher(registry, null, fastRetry);
+      fetcher.setProvider('in-house');
+      fetcher.setReportingCurrency('USD');
+
+      const data = await fetcher.fetchStockData('ACME');
+
+      expect(data.currency).toBe('XYZ');
+      expect(data.currentPrice).toBe(104);
+      expect(() => fetcher.setReportingCurrency('dollars')).toThrow('Unknown currency');
+    });
+  });
+
+  describe('range resolution', () => {
+    const dailyBars = (count: number): PricePoint[] => Array.from({ length: count }, (_, i) => ({
+      date: new Date(Date.UTC(2020, 0, 1 + i)),
+      open: 100, high: 101, low: 99, close: 100 + i, volume: 1000
+    }));
+
+    it('should trim provider responses to the requested window', async () => {
+      const registry = new ProviderRegistry();
+      const provider = createProvider({ fetchBars: jest.fn().mockResolvedValue(dailyBars(300)) });
+      registry.register(provider);
+      const fetcher = new DataFetcher(registry, null);
+      fetcher.setProvider('in-house');
+
+      const data = await fetcher.fetchStockData('ACME', '6m');
+
+      expect(data.prices).toHaveLength(127);
+      expect((provider.fetchBars as jest.Mock).mock.calls[0][0].range.tradingDays).toBe(126);
+    });
+  });
+
+  describe('intraday bars', () => {
+    // Three sessions of 5-minute bars starting at 09:30 Eastern (13:30 UTC)
+    const fiveMinuteBars = (): PricePoint[] => [26, 27, 28].flatMap(day =>
+      Array.from({ length: 78 }, (_, i) => ({
+        date: new Date(Date.UTC(2024, 5, day, 13, 30 + i * 5)),
+        open: 100, high: 101, low: 99, close: 100 + i / 100, volume: 500
+      }))
+    );
+
+    it('should cache intraday series separately and mark the interval', async () => {
+      const registry = new ProviderRegistry();
+      const provider = createProvider({ fetchBars: jest.fn().mockResolvedValue(fiveMinuteBars()) });
+      registry.register(provider);
+      const fetcher = new DataFetcher(registry, new PriceCache(new MemoryCacheStore()));
+      fetcher.setProvider('in-house');
+
+      await fetcher.fetchStockData('ACME', '1w');
+      const data = await fetcher.fetchStockData('ACME', '1w', '5min');
+
+      expect(provider.fetchBars).toHaveBeenCalledTimes(2);
+      expect((provider.fetchBars as jest.Mock).mock.calls[1][0].interval).toBe('5min');
+      expect(data.interval).toBe('5min');
+      expect(data.prices).toHaveLength(234);
+    });
+
+    it('should reject intraday requests for providers without intraday data', async () => {
+      const registry = new ProviderRegistry();
+      registry.register(createProvider({
+        capabilities: createCapabilities({ intraday: false })
+      }));
+      const fetcher = new DataFetcher(registry, null);
+      fetcher.setProvider('in-house');
+
+      await expect(fetcher.fetchStockData('ACME', '1d', '1min')).rejects.toThrow('does not provide intraday bars');
+    });
+  });
+
+  describe('asset types', () => {
+    // Forty consecutive days, weekends included
+    const cryptoBars: PricePoint[] = Array.from({ length: 40 }, (_, i) => ({
+      date: new Date(Date.UTC(2024, 4, 20 + i)),
+      open: 60000, high: 61000, low: 59000, close: 60000 + i * 10, volume: 25
+    }));
+
+    it('should fetch crypto bars on the 24/7 calendar without fundamentals', async () => {
+      const registry = new ProviderRegistry();
+      const provider = createProvider({
+        capabilities: createCapabilities({ corporateActions: true, earnings: true, assetTypes: ['equity', 'crypto'] }),
+        fetchBars: jest.fn().mockResolvedValue(cryptoBars)
+      });
+      registry.register(provider);
+      const fetcher = new DataFetcher(registry, null);
+      fetcher.setProvider('in-house');
+
+      const data = await fetcher.fetchStockData('BTC-USD', '1m');
+      const request = (provider.fetchBars as jest.Mock).mock.calls[0][0];
+
+      expect(request.assetType).toBe('crypto');
+      // 21 equity sessions are a month; crypto trades 30 days in one
+      expect(request.range.tradingDays).toBe(30);
+      expect(data.prices).toHaveLength(31);
+      expect(provider.fetchFundamentals).not.toHaveBeenCalled();
+      expect(provider.fetchEarnings).not.toHaveBeenCalled();
+      expect(data.assetType).toBe('crypto');
+      expect(data.currency).toBe('USD');
+      expect(data.quality?.missingSessions).toEqual([]);
+      expect(data.provenance?.exchange).toBe('CRYPTO');
+      expect(data.provenance?.fields.earnings).toBe('unsupported');
+    });
+
+    it('should skip providers that do not serve the asset type', async () => {
+      const registry = new ProviderRegistry();
+      registry.register(createProvider());
+      const fetcher = new DataFetcher(registry, null);
+      fetcher.setProvider('in-house');
+
+      await expect(fetcher.fetchStockData('EUR/USD')).rejects.toThrow('does not provide FX prices');
+    });
+  });
+
+  describe('fetchBatch', () => {
+    const barsFor = (ticker: string): PricePoint[] => ticker === 'BETA'
+      // BETA did not trade on Jan 3
+      ? [mockPrices[0], mockPrices[2]]
+      : mockPrices;
+
+    const setup = () => {
+      const registry = new ProviderRegistry();
+      const provider = createProvider({
+        fetchBars: jest.fn().mockImplementation(async ({ ticker }) => {
+          if (ticker === 'NOPE') {
+            throw new UnknownTickerError(ticker);
+          }
+          return barsFor(ticker);
+        })
+      });
+      registry.register(provider);
+      const fetcher = new DataFetcher(registry, null);
+      fetcher.setProvider('in-house');
+      return { provider, fetcher };
+    };
+
+    it('should report each ticker separately without failing the batch', async () => {
+      const { fetcher } = setup();
+      const progress: number[] = [];
+
+      const batch = await fetcher.fetchBatch(['acme', 'NOPE', 'BETA', 'ACME'], '1y', 'daily', {
+        onProgress: completed => progress.push(completed)
+      });
+
+      expect(batch.results.map(r => [r.ticker, r.status])).toEqual([
+        ['ACME', 'fulfilled'],
+        ['NOPE', 'rejected'],
+        ['BETA', 'fulfilled']
+      ]);
+      const failed = batch.results[1];
+      expect(failed.status === 'rejected' && failed.error).toBeInstanceOf(UnknownTickerError);
+      expect(progress).toEqual([1, 2, 3]);
+    });
+
+    it('should align successful series on shared dates', async () => {
+      const { fetcher } = setup();
+      const batch = await fetcher.fetchBatch(['ACME', 'BETA']);
+
+      expect(batch.aligned.dates).toEqual([mockPrices[0].date, mockPrices[2].date]);
+      expect(batch.aligned.prices.ACME.map(p => p.close)).toEqual([101, 104]);
+      expect(batch.aligned.prices.BETA).toHaveLength(2);
+    });
+
+    it('should limit how many tickers are fetched at once', async () => {
+      const { provider, fetcher } = setup();
+      let inFlight = 0;
+      let maxInFlight = 0;
+      (provider.fetchBars as jest.Mock).mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return mockPrices;
+      });
+
+      await fetcher.fetchBatch(['A', 'B', 'C', 'D', 'E'], '1y', 'daily', { concurrency: 2 });
+
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should line up Polygon daily bars with other providers by session date', async () => {
+      // Polygon stamps daily bars at midnight New York (05:00 UTC in winter)
+      const results = mockPrices.map(bar => ({ t: bar.date.getTime() + 5 * 3600000, o: bar.open, h: bar.high, l: bar.low, c: bar.close, v: bar.volume }));
+      const bars = await polygonProvider.fetchBars({
+        ticker: 'BETA',
+        assetType: 'equity',
+        timeline: '1m',
+        range: resolveRange('1m', new Date('2024-01-05')),
+        interval: 'daily',
+        apiKey: 'key',
+        fetch: jest.fn().mockResolvedValue({ json: () => Promise.resolve({ status: 'OK', results }) })
+      });
+      const stockData = (ticker: string, prices: PricePoint[]) => ({ ticker, prices } as StockData);
+
+      expect(bars.map(bar => bar.date)).toEqual(mockPrices.map(bar => bar.date));
+      expect(alignByDate([stockData('ACME', mockPrices), stockData('BETA', bars)]).dates).toHaveLength(3);
+    });
+
+    it('should return empty alignment for no series', () => {
+      expect(alignByDate([])).toEqual({ dates: [], prices: {} });
+    });
+  });
+
+  describe('symbol search', () => {
+    const widget = { symbol: 'WDGT', name: 'Widget Works Inc.', exchange: 'XNYS', assetType: 'Equity', currency: 'USD', region: 'US' };
+
+    const setup = (searchSymbols: jest.Mock) => {
+      const registry = new ProviderRegistry();
+      registry.register(createProvider({
+        capabilities: createCapabilities({ symbolSearch: true }),
+        searchSymbols
+      }));
+      const fetcher = new DataFetcher(registry, null);
+      fetcher.setProvider('in-house');
+      return fetcher;
+    };
+
+    it('should answer from the bundled list without calling the provider', async () => {
+      const searchSymbols = jest.fn().mockResolvedValue([widget]);
+      const fetcher = setup(searchSymbols);
+
+      const results = await fetcher.searchSymbols('a');
+      expect(results[0].symbol).toBe('AAPL');
+      expect(searchSymbols).not.toHaveBeenCalled();
+    });
+
+    it('should put provider matches first and remember them', async () => {
+      const searchSymbols = jest.fn().mockResolvedValue([widget]);
+      const fetcher = setup(searchSymbols);
+
+      const results = await fetcher.searchSymbols('widg');
+      await fetcher.searchSymbols('WIDG');
+
+      expect(results[0]).toEqual(widget);
+      expect(searchSymbols).toHaveBeenCalledTimes(1);
+      expect(searchSymbols.mock.calls[0][0].query).toBe('WIDG');
+    });
+
+    it('should fall back to offline matches when the provider fails', async () => {
+      const searchSymbols = jest.fn().mockRejectedValue(new NetworkError('offline'));
+      const fetcher = setup(searchSymbols);
+
+      const results = await fetcher.searchSymbols('apple');
+      expect(results.map(r => r.symbol)).toEqual(['AAPL']);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { EventCalendar, DEFAULT_EARNINGS_JUMP } from '../EventCalendar';
+import { getCalendar } from '../TradingCalendar';
+import { CorporateAction, EarningsEvent, PricePoint } from '../types';
+
+describe('EventCalendar', () => {
+  const nyse = getCalendar('NYSE');
+  const release = (
+    day: string,
+    timing: EarningsEvent['timing'],
+    epsActual: number | null = null
+  ): EarningsEvent => ({
+    date: new Date(`${day}T00:00:00Z`),
+    fiscalDateEnding: null,
+    timing,
+    epsEstimate: 1.5,
+    epsActual
+  });
+
+  it('should move after-close releases to the next session', () => {
+    // Juneteenth falls between the release and the reaction
+    expect(EventCalendar.reactionSession(release('2024-06-18', 'post-market'), nyse).toISOString()).toBe('2024-06-20T00:00:00.000Z');
+    expect(EventCalendar.reactionSession(release('2024-06-18', 'pre-market'), nyse).toISOString()).toBe('2024-06-18T00:00:00.000Z');
+    // Weekend dates roll forward to Monday
+    expect(EventCalendar.reactionSession(release('2024-06-22', null), nyse).toISOString()).toBe('2024-06-24T00:00:00.000Z');
+  });
+
+  it('should place releases on simulation steps within the horizon', () => {
+    const lastBar = new Date('2024-06-14T00:00:00Z'); // Friday
+    const earnings = [
+      release('2024-06-22', null), // reacts Mon 24th: 5 sessions out
+      release('2024-06-18', 'post-market'), // reacts Thu 20th: 3 sessions out
+      release('2024-06-10', 'pre-market', 1.4), // already in the history
+      release('2024-09-01', null) // beyond the horizon
+    ];
+
+    const daily = EventCalendar.horizonEvents(earnings, lastBar, 30, nyse);
+    expect(daily.map(h => h.step)).toEqual([3, 5]);
+    expect(daily[0].session.toISOString()).toBe('2024-06-20T00:00:00.000Z');
+
+    // Hourly bars: seven per NYSE session, the reaction lands on its first bar
+    const hourly = EventCalendar.horizonEvents(earnings, lastBar, 30, nyse, '60min');
+    expect(hourly.map(h => h.step)).toEqual([15, 29]);
+  });
+
+  it('should list earnings and ex-dividend dates in order', () => {
+    const dividends: CorporateAction[] = [
+      { date: new Date('2024-05-10T00:00:00Z'), type: 'dividend', value: 0.25, source: 'provider' },
+      { date: new Date('2024-05-20T00:00:00Z'), type: 'split', value: 2, source: 'provider' }
+    ];
+    const events = EventCalendar.events(
+      [release('2024-07-25', 'post-market'), release('2024-04-25', 'post-market', 1.62)],
+      dividends,
+      'USD',
+      new Date('2024-06-01T00:00:00Z')
+    );
+
+    expect(events.map(e => e.type)).toEqual(['earnings', 'ex-dividend', 'earnings']);
+    expect(events[0].upcoming).toBe(false);
+    expect(events[0].label).toBe('Earnings: EPS 1.62 vs 1.50 est.');
+    expect(events[1].label).toBe('Ex-dividend $0.25');
+    expect(events[2].upcoming).toBe(true);
+    expect(events[2].label).toBe('Earnings (est. EPS 1.50)');
+  });
+
+  it('should measure the earnings jump beyond ordinary volatility', () => {
+    // Alternating 1% moves, with 8% moves on the two reaction sessions
+    const sessions: Date[] = [nyse.nextSession(new Date('2024-01-02T00:00:00Z'))];
+    while (sessions.length < 60) sessions.push(nyse.addTradingDays(sessions[sessions.length - 1], 1));
+    const earnings = [
+      release(sessions[19].toISOString().split('T')[0], 'post-market', 1.1),
+      release(sessions[40].toISOString().split('T')[0], 'pre-market', 1.2)
+    ];
+
+    let close = 100;
+    const prices: PricePoint[] = sessions.map((date, i) => {
+      if (i > 0) close *= Math.exp(i === 20 || i === 40 ? 0.08 : (i % 2 === 0 ? 0.01 : -0.01));
+      return { date, open: close, high: close, low: close, close, volume: 1000 };
+    });
+
+    const jump = EventCalendar.estimateJumpStdDev(prices, earnings, nyse);
+    expect(jump).toBeCloseTo(Math.sqrt(0.08 * 0.08 - 0.01 * 0.01), 4);
+
+    // One reported release is too few to measure
+    expect(EventCalendar.estimateJumpStdDev(prices, earnings.slice(0, 1), nyse)).toBe(DEFAULT_EARNINGS_JUMP);
+  });
+});
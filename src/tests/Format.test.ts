@@ -0,0 +1,24 @@
+import { Format } from '../Format';
+
+describe('Format', () => {
+  it('should format amounts in the currency and locale given', () => {
+    expect(Format.money(1234.5, 'USD', 2, 'en-US')).toBe('$1,234.50');
+    expect(Format.money(1234.5, 'EUR', 2, 'de-DE')).toBe('1.234,50 €');
+    expect(Format.money(-3.2, 'JPY', 0, 'en-US')).toBe('-¥3');
+  });
+
+  it('should not guess a symbol for unknown currencies or minor units', () => {
+    expect(Format.money(12.5, null, 2, 'en-US')).toBe('12.50');
+    expect(Format.money(1234.5, 'GBX', 2, 'en-GB')).toBe('1,234.50 GBX');
+    expect(Format.money(null, 'USD')).toBe('N/A');
+    expect(Format.money(NaN, 'USD')).toBe('N/A');
+  });
+
+  it('should abbreviate large amounts and format fractions as percentages', () => {
+    expect(Format.compactMoney(2.5e12, 'USD', 'en-US')).toBe('$2.50T');
+    expect(Format.compactMoney(45.6e9, 'GBP', 'en-GB')).toBe('£45.60B');
+    expect(Format.percent(0.1234, 1, 'en-US')).toBe('12.3%');
+    expect(Format.percent(0.0044, 2, 'de-DE')).toBe('0,44 %');
+    expect(Format.number(1234567.891, 2, 'de-DE')).toBe('1.234.567,89');
+  });
+});
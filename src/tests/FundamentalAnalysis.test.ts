@@ -0,0 +1,86 @@
+import { FundamentalAnalysis, toNumber } from '../FundamentalAnalysis';
+import { emptyFundamentals } from '../DataFetch';
+import { FinancialStatement } from '../types';
+
+describe('FundamentalAnalysis', () => {
+  // Eight quarters: revenue steps from 100 to 120 a quarter, margins widen
+  const quarter = (i: number, revenue: number, operatingIncome: number): FinancialStatement =>
+    FundamentalAnalysis.statement({
+      fiscalDateEnding: new Date(Date.UTC(2023, i * 3 + 2, 28)),
+      period: 'quarterly',
+      revenue,
+      grossProfit: revenue * 0.5,
+      operatingIncome,
+      netIncome: operatingIncome * 0.8,
+      shareholderEquity: 1000,
+      totalDebt: i < 4 ? 800 : 400,
+      sharesOutstanding: 100,
+      operatingCashFlow: operatingIncome,
+      capitalExpenditures: -10
+    });
+
+  const quarterly = [
+    quarter(0, 100, 20), quarter(1, 100, 20), quarter(2, 100, 20), quarter(3, 100, 20),
+    quarter(4, 120, 30), quarter(5, 120, 30), quarter(6, 120, 30), quarter(7, 120, 30)
+  ];
+
+  it('should parse provider numbers and treat placeholders as missing', () => {
+    expect(toNumber('12.5')).toBe(12.5);
+    expect(toNumber(0)).toBe(0);
+    expect(toNumber('None')).toBeNull();
+    expect(toNumber(undefined)).toBeNull();
+  });
+
+  it('should derive free cash flow and EPS from statement lines', () => {
+    const [first] = quarterly;
+    expect(first.freeCashFlow).toBe(10);
+    expect(first.eps).toBeCloseTo(0.16, 10);
+  });
+
+  it('should roll four quarters into a trailing year', () => {
+    const year = FundamentalAnalysis.trailingYear(quarterly)!;
+    expect(year.revenue).toBe(480);
+    expect(year.operatingIncome).toBe(120);
+    expect(year.shareholderEquity).toBe(1000);
+    expect(FundamentalAnalysis.trailingYear(quarterly.slice(0, 3))).toBeNull();
+  });
+
+  it('should compare the trailing year with the year before', () => {
+    const trends = FundamentalAnalysis.trends({ quarterly, annual: [] });
+
+    expect(trends.basis).toBe('ttm');
+    expect(trends.revenueGrowth).toBeCloseTo(0.2, 10);
+    expect(trends.epsGrowth).toBeCloseTo(0.5, 10);
+    expect(trends.operatingMarginChange).toBeCloseTo(0.25 - 0.2, 10);
+    expect(trends.debtToEquityChange).toBeCloseTo(-0.4, 10);
+  });
+
+  it('should fall back to annual reports and report no trend without two years', () => {
+    const annual = [quarterly[3], quarterly[7]].map(s => ({ ...s, period: 'annual' as const }));
+
+    expect(FundamentalAnalysis.trends({ quarterly: [], annual }).basis).toBe('annual');
+    expect(FundamentalAnalysis.trends({ quarterly: [], annual: annual.slice(1) }).basis).toBeNull();
+  });
+
+  it('should fill missing figures from history and the latest price', () => {
+    const completed = FundamentalAnalysis.complete({ ...emptyFundamentals(), history: { quarterly, annual: [] } }, 24);
+
+    expect(completed.revenue).toBe(480);
+    expect(completed.operatingMargin).toBeCloseTo(0.25, 10);
+    expect(completed.eps).toBeCloseTo(0.96, 10);
+    expect(completed.pe).toBeCloseTo(25, 10);
+    expect(completed.marketCap).toBe(2400);
+    expect(completed.pb).toBeCloseTo(2.4, 10);
+    // P/E of 25 against 50% EPS growth
+    expect(completed.peg).toBeCloseTo(0.5, 10);
+  });
+
+  it('should keep values the provider reported', () => {
+    const completed = FundamentalAnalysis.complete(
+      { ...emptyFundamentals(), pe: 40, revenue: 500, history: { quarterly, annual: [] } },
+      24
+    );
+    expect(completed.pe).toBe(40);
+    expect(completed.revenue).toBe(500);
+  });
+});
@@ -0,0 +1,107 @@
+import { LiveSeries } from '../LiveSeries';
+import { TechnicalAnalysis } from '../TechnicalAnalysis';
+import { getCalendar } from '../TradingCalendar';
+import { PricePoint, Quote, TechnicalIndicators } from '../types';
+
+describe('LiveSeries', () => {
+  const nyse = getCalendar('NYSE');
+  const trade = (timestamp: string, price: number, size = 100, ticker = 'ACME'): Quote => ({
+    ticker, price, size, timestamp: new Date(timestamp)
+  });
+
+  // 80 sessions ending Friday 2024-06-14
+  const dailyBars = (): PricePoint[] => {
+    const sessions = [nyse.nextSession(new Date('2024-06-14T00:00:00Z'))];
+    while (sessions.length < 80) sessions.unshift(nyse.subtractTradingDays(sessions[0], 1));
+    return sessions.map((date, i) => {
+      const close = 100 + 10 * Math.sin(i / 7) + i * 0.1;
+      return { date, open: close - 0.5, high: close + 1, low: close - 1, close, volume: 1000 + (i % 5) * 100 };
+    });
+  };
+
+  const expectSameIndicators = (actual: TechnicalIndicators, expected: TechnicalIndicators) => {
+    const flatten = (indicators: TechnicalIndicators) => [
+      indicators.rsi,
+      ...Object.values(indicators.macd),
+      ...Object.values(indicators.bollingerBands),
+      ...Object.values(indicators.movingAverages),
+      ...Object.values(indicators.volume),
+      ...Object.values(indicators.supportResistance)
+    ];
+    const expectedSeries = flatten(expected);
+    flatten(actual).forEach((series, s) => {
+      expect(series).toHaveLength(expectedSeries[s].length);
+      series.forEach((value, i) => expect(value).toBeCloseTo(expectedSeries[s][i], 8));
+    });
+  };
+
+  it('should update the last daily candle with trades from the same session', () => {
+    const series = new LiveSeries('ACME', dailyBars(), nyse);
+    const before = series.prices[79].close;
+
+    expect(series.apply(trade('2024-06-14T14:00:00Z', before + 3, 500))).toBe(true);
+    // 19:30 in New York is still the 14th there
+    expect(series.apply(trade('2024-06-14T23:30:00Z', before - 2, 200))).toBe(true);
+
+    const last = series.prices[79];
+    expect(series.prices).toHaveLength(80);
+    expect(last.high).toBe(before + 3);
+    expect(last.low).toBe(before - 2);
+    expect(last.close).toBe(before - 2);
+    expect(last.volume).toBe(1000 + (79 % 5) * 100 + 700);
+    expect(series.currentPrice).toBe(before - 2);
+  });
+
+  it('should open a new candle for the next session and ignore stale or foreign trades', () => {
+    const series = new LiveSeries('ACME', dailyBars(), nyse);
+
+    expect(series.apply(trade('2024-06-13T15:00:00Z', 50))).toBe(false);
+    expect(series.apply(trade('2024-06-17T14:00:00Z', 50, 100, 'OTHER'))).toBe(false);
+    expect(series.apply(trade('2024-06-17T14:00:00Z', 120, 300))).toBe(true);
+
+    expect(series.prices).toHaveLength(81);
+    expect(series.prices[80]).toEqual({
+      date: new Date('2024-06-17T00:00:00Z'), open: 120, high: 120, low: 120, close: 120, volume: 300
+    });
+  });
+
+  it('should bucket intraday trades on the bar grid', () => {
+    const bars: PricePoint[] = [0, 5, 10].map(minutes => ({
+      date: new Date(Date.UTC(2024, 5, 14, 14, 30 + minutes)),
+      open: 100, high: 100, low: 100, close: 100, volume: 10
+    }));
+    const series = new LiveSeries('ACME', bars, nyse, '5min');
+
+    series.apply(trade('2024-06-14T14:43:00Z', 101));
+    series.apply(trade('2024-06-14T14:47:30Z', 102));
+
+    expect(series.prices.map(bar => bar.date.toISOString().slice(11, 16))).toEqual(['14:30', '14:35', '14:40', '14:45']);
+    expect(series.prices[2].close).toBe(101);
+    expect(series.prices[3].open).toBe(102);
+  });
+
+  it('should advance indicators incrementally to match a full recalculation', () => {
+    const series = new LiveSeries('ACME', dailyBars(), nyse);
+    // Computed once here, then advanced trade by trade
+    expect(series.technicalIndicators.rsi).toHaveLength(80);
+
+    series.apply(trade('2024-06-14T15:00:00Z', 95, 400));
+    series.apply(trade('2024-06-17T14:00:00Z', 112, 900));
+    series.apply(trade('2024-06-17T18:00:00Z', 108, 300));
+    series.apply(trade('2024-06-18T14:00:00Z', 104, 100));
+
+    expectSameIndicators(series.technicalIndicators, TechnicalAnalysis.calculateAllIndicators(series.prices));
+  });
+
+  it('should hand out snapshots that later trades do not change', () => {
+    const series = new LiveSeries('ACME', dailyBars(), nyse);
+    series.apply(trade('2024-06-14T15:00:00Z', 95));
+    const snapshot = series.snapshot();
+
+    series.apply(trade('2024-06-14T16:00:00Z', 99));
+
+    expect(snapshot.currentPrice).toBe(95);
+    expect(snapshot.prices[79].close).toBe(95);
+    expect(snapshot.indicators.rsi[79]).not.toBe(series.technicalIndicators.rsi[79]);
+  });
+});
@@ -0,0 +1,113 @@
+import { PriceImporter } from '../PriceImport';
+
+describe('PriceImporter', () => {
+  describe('CSV parsing', () => {
+    it('should detect columns and parse rows in date order', () => {
+      const csv = [
+        'Date,Open,High,Low,Close,Volume',
+        '2024-01-03,101,104,100,103,1200',
+        '2024-01-02,100,102,99,101,1000'
+      ].join('\n');
+
+      const result = PriceImporter.parseFile(csv, 'ACME.csv');
+
+      expect(result.format).toBe('csv');
+      expect(result.columns.close).toBe('Close');
+      expect(result.errors).toHaveLength(0);
+      expect(result.prices).toHaveLength(2);
+      expect(result.prices[0].date.toISOString().startsWith('2024-01-02')).toBe(true);
+      expect(result.prices[1].close).toBe(103);
+    });
+
+    it('should handle semicolons, quoted values and US dates', () => {
+      const csv = [
+        'Trade Date;Adj Close;Vol',
+        '01/02/2024;"1,234.50";500',
+        '01/03/2024;"1,240.00";600'
+      ].join('\n');
+
+      const result = PriceImporter.parseCSV(csv);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.prices[0].close).toBe(1234.5);
+      expect(result.prices[0].open).toBe(1234.5);
+      expect(result.prices[0].date.getUTCMonth()).toBe(0);
+      expect(result.prices[0].date.getUTCDate()).toBe(2);
+    });
+
+    it('should report invalid rows by line number', () => {
+      const csv = [
+        'date,open,high,low,close,volume',
+        '2024-01-02,100,102,99,101,1000',
+        'not-a-date,100,102,99,101,1000',
+        '2024-01-04,100,95,99,101,1000',
+        '2024-01-05,100,102,99,abc,1000',
+        '2024-01-06,100,102,99,101,1000'
+      ].join('\n');
+
+      const result = PriceImporter.parseCSV(csv);
+
+      expect(result.prices).toHaveLength(2);
+      expect(result.errors.map(e => e.row)).toEqual([3, 4, 5]);
+      expect(result.errors[1].message).toContain('below low');
+    });
+
+    it('should fail when no close column exists', () => {
+      expect(() => PriceImporter.parseCSV('date,foo\n2024-01-01,1')).toThrow('close price column');
+    });
+  });
+
+  describe('JSON parsing', () => {
+    it('should parse wrapped records with unix timestamps', () => {
+      // Polygon stamps daily bars at midnight New York (05:00 UTC in winter)
+      const json = JSON.stringify({
+        prices: [
+          { t: 1704171600000, o: 100, h: 102, l: 99, c: 101, v: 1000 },
+          { t: 1704258000000, o: 101, h: 104, l: 100, c: 103, v: 1200 }
+        ]
+      });
+
+      const result = PriceImporter.parseFile(json);
+
+      expect(result.format).toBe('json');
+      expect(result.prices).toHaveLength(2);
+      expect(result.prices[1].high).toBe(104);
+      expect(result.prices.map(bar => bar.date.toISOString())).toEqual(['2024-01-02T00:00:00.000Z', '2024-01-03T00:00:00.000Z']);
+    });
+
+    it('should convert an import into StockData', () => {
+      const json = JSON.stringify([
+        { date: '2024-01-02', close: 10 },
+        { date: '2024-01-03', close: 11 }
+      ]);
+
+      const stockData = PriceImporter.toStockData(PriceImporter.parseJSON(json), 'acme');
+
+      expect(stockData.ticker).toBe('ACME');
+      expect(stockData.currentPrice).toBe(11);
+      expect(stockData.fundamentals.pe).toBeNull();
+    });
+
+    it('should describe an import as raw data with derived and missing columns', () => {
+      const csv = ['Date,Close', '2024-01-02,10', '2024-01-03,11'].join('\n');
+
+      const { provenance } = PriceImporter.toStockData(PriceImporter.parseCSV(csv), 'acme', undefined, 'acme.csv');
+
+      expect(provenance).toEqual(expect.objectContaining({ provider: null, importedFrom: 'acme.csv', cacheStatus: null, adjustment: 'raw' }));
+      expect(provenance?.fields).toEqual(expect.objectContaining({
+        open: 'derived',
+        close: 'reported',
+        volume: 'missing',
+        pe: 'unsupported',
+        earnings: 'unsupported'
+      }));
+    });
+  });
+
+  describe('parseDate', () => {
+    it('should reject impossible calendar dates', () => {
+      expect(PriceImporter.parseDate('2024-02-31')).toBeNull();
+      expect(PriceImporter.parseDate('31.01.2024')?.getUTCDate()).toBe(31);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { PriceValidator } from '../PriceValidation';
+import { CorporateAction, PricePoint } from '../types';
+
+describe('PriceValidator', () => {
+  const bar = (day: number, close: number, overrides: Partial<PricePoint> = {}): PricePoint => ({
+    date: new Date(Date.UTC(2024, 0, day)),
+    open: close, high: close + 1, low: close - 1, close, volume: 1000,
+    ...overrides
+  });
+
+  // Smooth, irregular moves so the robust spread of returns is well defined
+  const walk = (days: number): PricePoint[] =>
+    Array.from({ length: days }, (_, i) => bar(i + 1, 100 + 2 * Math.sin(i * 1.3) + i * 0.1));
+
+  it('should pass clean data through unchanged', () => {
+    const prices = walk(30);
+    const { prices: cleaned, report } = PriceValidator.clean(prices);
+
+    expect(cleaned).toEqual(prices);
+    expect(report.issues).toHaveLength(0);
+    expect(report.validRows).toBe(30);
+  });
+
+  it('should drop rows with unusable dates or closes', () => {
+    const prices = [bar(1, 100), bar(2, NaN), { ...bar(3, 101), date: new Date('not a date') }, bar(4, 0), bar(5, 102)];
+    const { prices: cleaned, report } = PriceValidator.clean(prices);
+
+    expect(cleaned.map(p => p.close)).toEqual([100, 102]);
+    expect(report.dropped).toBe(3);
+    expect(report.issues.map(i => i.type)).toEqual(['invalid-price', 'invalid-date', 'invalid-price']);
+  });
+
+  it('should repair inverted ranges, missing fields and bad volume', () => {
+    const prices = [
+      bar(1, 100, { high: 95, low: 105 }),
+      bar(2, 101, { open: NaN }),
+      bar(3, 102, { high: 101.5 }),
+      bar(4, 103, { volume: -5 })
+    ];
+    const { prices: cleaned, report } = PriceValidator.clean(prices);
+
+    expect(cleaned[0]).toMatchObject({ high: 105, low: 95 });
+    expect(cleaned[1].open).toBe(101);
+    expect(cleaned[2].high).toBe(102);
+    expect(cleaned[3].volume).toBe(0);
+    expect(report.repaired).toBe(4);
+    expect(report.dropped).toBe(0);
+  });
+
+  it('should sort out-of-order bars and keep the later duplicate', () => {
+    const prices = [bar(3, 103), bar(1, 101), bar(2, 102), bar(2, 102.5)];
+    const { prices: cleaned, report } = PriceValidator.clean(prices);
+
+    expect(cleaned.map(p => p.close)).toEqual([101, 102.5, 103]);
+    expect(report.issues.map(i => i.type)).toEqual(['out-of-order', 'duplicate']);
+  });
+
+  it('should flag zero volume only when the series reports volume', () => {
+    expect(PriceValidator.clean([bar(1, 100), bar(2, 101, { volume: 0 })]).report.flagged).toBe(1);
+    expect(PriceValidator.clean([bar(1, 100, { volume: 0 }), bar(2, 101, { volume: 0 })]).report.flagged).toBe(0);
+  });
+
+  it('should flag outlier returns without changing them', () => {
+    const prices = walk(30);
+    prices[20] = { ...prices[20], close: prices[19].close / 2, low: prices[19].close / 2 - 1 };
+    const { prices: cleaned, report } = PriceValidator.clean(prices);
+
+    expect(cleaned[20].close).toBe(prices[20].close);
+    expect(report.outliers.map(o => o.date)).toContainEqual(prices[20].date);
+    expect(report.issues.some(i => i.type === 'outlier-return' && i.action === 'flagged')).toBe(true);
+  });
+
+  it('should not flag jumps explained by a known split', () => {
+    const prices = walk(30).map((p, i) => i < 20 ? { ...p, close: p.close * 2, high: p.high * 2, low: p.low * 2, open: p.open * 2 } : p);
+    const split: CorporateAction = { date: prices[20].date, type: 'split', value: 2, source: 'provider' };
+
+    expect(PriceValidator.findOutliers(prices)).toHaveLength(1);
+    expect(PriceValidator.findOutliers(prices, [split])).toHaveLength(0);
+  });
+});
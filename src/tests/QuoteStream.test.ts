@@ -0,0 +1,181 @@
+import { genericQuoteProtocol, MOCK_QUOTE_SERVER_URL, QuoteStream, QuoteStreamStatus } from '../QuoteStream';
+import { polygonProvider } from '../providers';
+import { ProviderRegistry } from '../providers/ProviderRegistry';
+import { DataFetcher } from '../DataFetch';
+import { AuthError } from '../DataErrors';
+import { Quote } from '../types';
+
+// Stands in for the browser WebSocket
+class FakeSocket {
+  static instances: FakeSocket[] = [];
+  sent: string[] = [];
+  closed = false;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  receive(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+const createSocket = (url: string) => new FakeSocket(url) as unknown as WebSocket;
+const latestSocket = () => FakeSocket.instances[FakeSocket.instances.length - 1];
+
+describe('QuoteStream', () => {
+  beforeEach(() => {
+    FakeSocket.instances = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should subscribe once connected and deliver trades for subscribed tickers', () => {
+    const stream = new QuoteStream(genericQuoteProtocol('ws://quotes.test', 'secret'), createSocket);
+    const quotes: Quote[] = [];
+    stream.onQuote(quote => quotes.push(quote));
+    stream.subscribe('acme');
+    stream.connect();
+
+    const socket = latestSocket();
+    expect(socket.url).toBe('ws://quotes.test');
+    expect(stream.status).toBe('connecting');
+    socket.onopen!();
+
+    expect(stream.status).toBe('live');
+    expect(socket.sent.map(message => JSON.parse(message))).toEqual([
+      { type: 'auth', apiKey: 'secret' },
+      { type: 'subscribe', symbols: ['ACME'] }
+    ]);
+
+    socket.receive([
+      { type: 'trade', symbol: 'ACME', price: 101.5, size: 200, timestamp: 1718380800000 },
+      { type: 'trade', symbol: 'OTHER', price: 9, size: 1, timestamp: 1718380800000 },
+      { type: 'heartbeat' }
+    ]);
+    expect(quotes).toEqual([{ ticker: 'ACME', price: 101.5, size: 200, timestamp: new Date(1718380800000) }]);
+
+    stream.subscribe('WIDG');
+    expect(JSON.parse(socket.sent[2])).toEqual({ type: 'subscribe', symbols: ['WIDG'] });
+  });
+
+  it('should reconnect and resubscribe after the connection drops', () => {
+    jest.useFakeTimers();
+    const stream = new QuoteStream(genericQuoteProtocol('ws://quotes.test'), createSocket, { baseDelayMs: 10, maxDelayMs: 10 });
+    const statuses: QuoteStreamStatus[] = [];
+    stream.onStatus(status => statuses.push(status));
+    stream.subscribe('ACME');
+    stream.connect();
+    latestSocket().onopen!();
+
+    latestSocket().onclose!();
+    expect(stream.status).toBe('reconnecting');
+    jest.advanceTimersByTime(10);
+
+    expect(FakeSocket.instances).toHaveLength(2);
+    latestSocket().onopen!();
+    expect(latestSocket().sent).toEqual([JSON.stringify({ type: 'subscribe', symbols: ['ACME'] })]);
+    expect(statuses).toEqual(['connecting', 'live', 'reconnecting', 'live']);
+  });
+
+  it('should give up after repeated failed connections', () => {
+    jest.useFakeTimers();
+    const stream = new QuoteStream(genericQuoteProtocol('ws://quotes.test'), createSocket, { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 10 });
+    stream.connect();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      latestSocket().onclose!();
+      jest.advanceTimersByTime(10);
+    }
+
+    expect(FakeSocket.instances).toHaveLength(3);
+    expect(stream.status).toBe('error');
+  });
+
+  it('should stop without reconnecting when credentials are rejected', () => {
+    const stream = new QuoteStream(polygonProvider.quoteStream('bad-key'), createSocket);
+    let failure: unknown = null;
+    stream.onStatus((status, error) => {
+      if (status === 'error') failure = error;
+    });
+    stream.connect();
+    const socket = latestSocket();
+    socket.onopen!();
+
+    socket.receive([{ ev: 'status', status: 'auth_failed', message: 'authentication failed' }]);
+
+    expect(failure).toBeInstanceOf(AuthError);
+    expect(socket.closed).toBe(true);
+    expect(stream.status).toBe('error');
+    expect(FakeSocket.instances).toHaveLength(1);
+  });
+
+  it('should speak the Polygon trade channel protocol', () => {
+    const protocol = polygonProvider.quoteStream('key');
+
+    expect(protocol.url).toBe('wss://socket.polygon.io/stocks');
+    expect(protocol.handshake).toEqual([JSON.stringify({ action: 'auth', params: 'key' })]);
+    expect(JSON.parse(protocol.subscribe(['AAPL', 'MSFT']))).toEqual({ action: 'subscribe', params: 'T.AAPL,T.MSFT' });
+    expect(protocol.parse(JSON.stringify([
+      { ev: 'status', status: 'auth_success' },
+      { ev: 'T', sym: 'AAPL', p: 190.25, s: 50, t: 1718380800000 }
+    ]))).toEqual([{ ticker: 'AAPL', price: 190.25, size: 50, timestamp: new Date(1718380800000) }]);
+  });
+
+  describe('quote sources', () => {
+    const setup = (streaming: boolean) => {
+      const registry = new ProviderRegistry();
+      const quoteStream = jest.fn().mockReturnValue(genericQuoteProtocol('wss://feed.test'));
+      registry.register({
+        ...polygonProvider,
+        id: 'in-house',
+        capabilities: { ...polygonProvider.capabilities, streaming, requiresApiKey: false },
+        quoteStream
+      });
+      const fetcher = new DataFetcher(registry, null);
+      fetcher.setProvider('in-house');
+      return { fetcher, quoteStream };
+    };
+
+    it('should stay off until a source is chosen', () => {
+      const { fetcher, quoteStream } = setup(true);
+
+      expect(fetcher.getQuoteSource()).toBe('off');
+      expect(fetcher.createQuoteStream()).toBeNull();
+      expect(quoteStream).not.toHaveBeenCalled();
+    });
+
+    it('should use the provider stream only when the provider has one', () => {
+      const streaming = setup(true);
+      streaming.fetcher.setQuoteSource('provider');
+      expect(streaming.fetcher.createQuoteStream()?.url).toBe('wss://feed.test');
+
+      const polling = setup(false);
+      expect(polling.fetcher.createQuoteStream()).toBeNull();
+      expect(polling.quoteStream).not.toHaveBeenCalled();
+    });
+
+    it('should connect custom feeds to the mock server by default', () => {
+      const { fetcher } = setup(false);
+
+      fetcher.setQuoteSource('custom');
+      expect(fetcher.createQuoteStream()?.url).toBe(MOCK_QUOTE_SERVER_URL);
+
+      fetcher.setQuoteSource('custom', 'ws://quotes.internal:9000');
+      expect(fetcher.createQuoteStream()?.url).toBe('ws://quotes.internal:9000');
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { Random, MAX_SEED } from '../Random';
+
+describe('Random', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const a = new Random(42);
+    const b = new Random(42);
+    const c = new Random(43);
+
+    const first = Array.from({ length: 5 }, () => a.next());
+    expect(Array.from({ length: 5 }, () => b.next())).toEqual(first);
+    expect(Array.from({ length: 5 }, () => c.next())).not.toEqual(first);
+    expect(first.every(u => u >= 0 && u < 1)).toBe(true);
+  });
+
+  it('should draw standard normal variates', () => {
+    const random = new Random(7);
+    const draws = Array.from({ length: 20000 }, () => random.normal());
+    const mean = draws.reduce((sum, z) => sum + z, 0) / draws.length;
+    const variance = draws.reduce((sum, z) => sum + (z - mean) ** 2, 0) / draws.length;
+
+    expect(draws.every(isFinite)).toBe(true);
+    expect(Math.abs(mean)).toBeLessThan(0.03);
+    expect(variance).toBeCloseTo(1, 1);
+  });
+
+  it('should only accept unsigned 32-bit seeds', () => {
+    expect(Random.isSeed(0)).toBe(true);
+    expect(Random.isSeed(MAX_SEED)).toBe(true);
+    expect(Random.isSeed(MAX_SEED + 1)).toBe(false);
+    expect(Random.isSeed(1.5)).toBe(false);
+    expect(Random.isSeed(Random.randomSeed())).toBe(true);
+    expect(() => new Random(-1)).toThrow('Seed must be an integer');
+  });
+});
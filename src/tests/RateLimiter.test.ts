@@ -0,0 +1,114 @@
+import { TokenBucket, RequestScheduler, SchedulerStatus } from '../RateLimiter';
+import { QuotaExceededError } from '../DataErrors';
+
+describe('RateLimiter', () => {
+  let now = 0;
+  const clock = () => now;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = 0;
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = async (ms: number) => {
+    now += ms;
+    jest.advanceTimersByTime(ms);
+    // Let resolved tasks settle
+    await Promise.resolve();
+    await Promise.resolve();
+  };
+
+  describe('TokenBucket', () => {
+    it('should allow a burst up to capacity then refill over time', () => {
+      const bucket = new TokenBucket(2, 1 / 1000, clock);
+
+      expect(bucket.tryTake()).toBe(true);
+      expect(bucket.tryTake()).toBe(true);
+      expect(bucket.tryTake()).toBe(false);
+      expect(bucket.msUntilToken()).toBe(1000);
+
+      now = 1000;
+      expect(bucket.tryTake()).toBe(true);
+    });
+  });
+
+  describe('RequestScheduler', () => {
+    it('should space queued requests to stay under the per-minute limit', async () => {
+      const scheduler = new RequestScheduler('test', { requestsPerMinute: 2, requestsPerDay: null }, clock);
+      const started: number[] = [];
+      const task = (id: number) => () => {
+        started.push(id);
+        return Promise.resolve(id);
+      };
+
+      const results = Promise.all([1, 2, 3].map(id => scheduler.schedule(task(id))));
+
+      expect(started).toEqual([1, 2]);
+      expect(scheduler.getStatus().queued).toBe(1);
+      expect(scheduler.getStatus().waitMs).toBe(30000);
+
+      await advance(30000);
+
+      expect(started).toEqual([1, 2, 3]);
+      await expect(results).resolves.toEqual([1, 2, 3]);
+    });
+
+    it('should report queue status to subscribers', async () => {
+      const scheduler = new RequestScheduler('test', { requestsPerMinute: 1, requestsPerDay: null }, clock);
+      const statuses: SchedulerStatus[] = [];
+      scheduler.subscribe(status => statuses.push(status));
+
+      scheduler.schedule(() => Promise.resolve());
+      scheduler.schedule(() => Promise.resolve());
+
+      expect(statuses[statuses.length - 1]).toEqual({ provider: 'test', queued: 1, waitMs: 60000 });
+
+      await advance(60000);
+
+      expect(statuses[statuses.length - 1].queued).toBe(0);
+    });
+
+    it('should reject once the daily quota is used up', async () => {
+      const scheduler = new RequestScheduler('test', { requestsPerMinute: 10, requestsPerDay: 1 }, clock);
+
+      await expect(scheduler.schedule(() => Promise.resolve('ok'))).resolves.toBe('ok');
+      await expect(scheduler.schedule(() => Promise.resolve('ok'))).rejects.toThrow('Daily request limit');
+      await expect(scheduler.schedule(() => Promise.resolve('ok'))).rejects.toBeInstanceOf(QuotaExceededError);
+      expect(scheduler.getDailyUsage()).toEqual({ used: 1, limit: 1 });
+      expect(scheduler.getQuota()).toEqual({
+        provider: 'test',
+        minute: { remaining: 9, limit: 10 },
+        day: { remaining: 0, limit: 1 }
+      });
+    });
+
+    it('should keep one daily count per provider and reset it each UTC day', async () => {
+      const scheduler = new RequestScheduler('test', { requestsPerMinute: 10, requestsPerDay: 5 }, clock);
+
+      await scheduler.schedule(() => Promise.resolve());
+      await scheduler.schedule(() => Promise.resolve());
+      expect(scheduler.getDailyUsage()).toEqual({ used: 2, limit: 5 });
+
+      now = 24 * 60 * 60 * 1000;
+      expect(scheduler.getDailyUsage()).toEqual({ used: 0, limit: 5 });
+      await scheduler.schedule(() => Promise.resolve());
+      expect(Object.keys(localStorage)).toEqual(['finance-rate-limit:test']);
+    });
+
+    it('should hold requests back after being penalized', () => {
+      const scheduler = new RequestScheduler('test', { requestsPerMinute: 5, requestsPerDay: null }, clock);
+      const run = jest.fn(() => Promise.resolve());
+
+      scheduler.penalize();
+      scheduler.schedule(run);
+
+      expect(run).not.toHaveBeenCalled();
+      expect(scheduler.getStatus().waitMs).toBe(12000);
+    });
+  });
+});
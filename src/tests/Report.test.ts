@@ -0,0 +1,39 @@
+import { Report } from '../Report';
+import { PriceImporter } from '../PriceImport';
+import { CorporateActions } from '../CorporateActions';
+import { AnalyticsParams } from '../types';
+
+describe('Report', () => {
+  const params: AnalyticsParams = { alpha: 0.1, beta: 0.85, theta: 0.05, switchProb: 0.02, numPaths: 100, numSteps: 20 };
+  const imported = () => {
+    const csv = ['Date,Open,High,Low,Close', '2024-01-02,10,11,9,10', '2024-01-03,10,12,10,11'].join('\n');
+    return PriceImporter.toStockData(PriceImporter.parseCSV(csv), 'acme', undefined, 'acme.csv');
+  };
+
+  it('should carry the provenance of the data, including later adjustments', () => {
+    const data = CorporateActions.applyTo(imported(), [], 'split');
+
+    const report = Report.build(data, null, params, null, new Date('2024-06-14T12:00:00Z'));
+
+    expect(report.provenance?.importedFrom).toBe('acme.csv');
+    expect(report.provenance?.adjustment).toBe('split');
+    expect(report.prices).toEqual({
+      current: 11,
+      interval: 'daily',
+      bars: 2,
+      first: new Date('2024-01-02'),
+      last: new Date('2024-01-03')
+    });
+    expect(report.simulation).toBeNull();
+    expect(Report.fileName(report)).toBe('ACME-report-2024-06-14.json');
+  });
+
+  it('should serialize to JSON without the statement history', () => {
+    const report = Report.build(imported(), null, params, null);
+    const json = JSON.parse(Report.toJSON(report));
+
+    expect(json.fundamentals).not.toHaveProperty('history');
+    expect(json.provenance.fields.volume).toBe('missing');
+    expect(typeof json.provenance.fetchedAt).toBe('string');
+  });
+});
@@ -0,0 +1,71 @@
+import { handleWorkerMessage } from '../SimulationWorker';
+import { Analytics } from '../Analytics';
+import { AnalyticsParams, PricePoint } from '../types';
+
+describe('SimulationWorker', () => {
+  const params: AnalyticsParams = { alpha: 0.1, beta: 0.8, theta: 0.05, switchProb: 0.05, numPaths: 200, numSteps: 20, seed: 7 };
+  const series = (closes: number[]): PricePoint[] => closes.map((close, i) => ({
+    date: new Date(Date.UTC(2024, 0, 2 + i)),
+    open: close, high: close, low: close, close, volume: 1000
+  }));
+  const closes = [100, 101, 99, 102, 104, 103, 105, 104, 106, 108];
+  const prices = series(closes);
+
+  it('should run the Analytics simulation from the price history', () => {
+    const response = handleWorkerMessage({ type: 'RUN_SIMULATION', payload: { prices, params } });
+
+    const returns = Analytics.calculateReturns(prices);
+    const volatilities = Analytics.calculateGARCHVolatility(returns, params.alpha, params.beta);
+    const { trend, drift } = Analytics.calculateTrendAndDrift(prices, params.theta);
+    const expected = Analytics.runMonteCarloSimulation(108, params, volatilities[volatilities.length - 1], drift);
+
+    expect(response.type).toBe('SIMULATION_COMPLETE');
+    expect(response.payload.paths).toEqual(expected.paths);
+    expect(response.payload.var95).toBe(expected.var95);
+    expect(response.payload.currentVolatility).toBe(volatilities[volatilities.length - 1]);
+    expect(response.payload.trend).toBe(trend);
+    expect(response.payload.seed).toBe(7);
+  });
+
+  it('should run stress tests from explicit starting values', () => {
+    const scenarios = [
+      { name: 'Calm', volatilityShock: 1, driftShock: 0, correlationShock: 0 },
+      { name: 'Crash', volatilityShock: 3, driftShock: -0.5, correlationShock: 0 }
+    ];
+    const response = handleWorkerMessage({
+      type: 'RUN_STRESS_TEST',
+      payload: { initialPrice: 100, initialVolatility: 0.02, drift: 0, params, scenarios }
+    });
+
+    expect(response.type).toBe('STRESS_TEST_COMPLETE');
+    expect(response.payload.map((r: { scenario: { name: string } }) => r.scenario.name)).toEqual(['Calm', 'Crash']);
+    expect(response.payload[1].var95).toBeGreaterThan(response.payload[0].var95);
+  });
+
+  it('should calculate correlations of aligned series', () => {
+    const response = handleWorkerMessage({
+      type: 'CALCULATE_CORRELATIONS',
+      payload: {
+        assetPrices: {
+          AAA: prices,
+          BBB: series(closes.map(c => c * 2)),
+          CCC: series(closes.map(c => 10000 / c))
+        }
+      }
+    });
+
+    expect(response.type).toBe('CORRELATIONS_COMPLETE');
+    expect(response.payload.assets).toEqual(['AAA', 'BBB', 'CCC']);
+    expect(response.payload.matrix[0][1]).toBeCloseTo(1, 10);
+    expect(response.payload.matrix[0][2]).toBeCloseTo(-1, 10);
+    expect(response.payload.averageCorrelation).toBeCloseTo(-1 / 3, 10);
+  });
+
+  it('should report invalid requests as errors', () => {
+    expect(handleWorkerMessage({ type: 'RUN_SIMULATION', payload: { prices, params: { ...params, numPaths: 5 } } }))
+      .toEqual({ type: 'ERROR', payload: 'Number of paths must be between 100 and 10000' });
+    expect(handleWorkerMessage({ type: 'RUN_SIMULATION', payload: { params } }).type).toBe('ERROR');
+    expect(handleWorkerMessage({ type: 'CALCULATE_CORRELATIONS', payload: { assetPrices: { AAA: prices, BBB: prices.slice(1) } } }))
+      .toEqual({ type: 'ERROR', payload: 'Price series must be aligned by date' });
+  });
+});
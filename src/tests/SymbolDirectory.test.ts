@@ -0,0 +1,35 @@
+import { SymbolDirectory } from '../SymbolDirectory';
+import { SymbolMatch } from '../types';
+
+describe('SymbolDirectory', () => {
+  const symbol = (ticker: string, name: string): SymbolMatch => ({
+    symbol: ticker, name, exchange: 'NYSE', assetType: 'Equity', currency: 'USD', region: 'United States'
+  });
+
+  const symbols = [
+    symbol('GMED', 'Globus Medical Inc.'),
+    symbol('MGM', 'MGM Resorts International'),
+    symbol('GM', 'General Motors Company'),
+    symbol('AGM', 'Federal Agricultural Mortgage Corporation')
+  ];
+
+  it('should rank exact symbols, then prefixes, then name words, then substrings', () => {
+    expect(SymbolDirectory.search('gm', 8, symbols).map(s => s.symbol)).toEqual(['GM', 'GMED', 'MGM', 'AGM']);
+    expect(SymbolDirectory.search('motors', 8, symbols).map(s => s.symbol)).toEqual(['GM']);
+  });
+
+  it('should return nothing for an empty query', () => {
+    expect(SymbolDirectory.search('  ', 8, symbols)).toEqual([]);
+  });
+
+  it('should search the bundled list by company name', () => {
+    const [first] = SymbolDirectory.search('microsoft');
+    expect(first).toMatchObject({ symbol: 'MSFT', exchange: 'NASDAQ', currency: 'USD' });
+  });
+
+  it('should merge without duplicating symbols', () => {
+    const merged = SymbolDirectory.merge([symbols[2]], [symbol('GM', 'General Motors'), symbols[0]], 8);
+    expect(merged.map(s => s.symbol)).toEqual(['GM', 'GMED']);
+    expect(merged[0].name).toBe('General Motors Company');
+  });
+});
@@ -1,6 +1,8 @@
 // src/tests/TechnicalAnalysis.test.ts
 import { TechnicalAnalysis } from '../TechnicalAnalysis';
-import { PricePoint } from '../types';
+import { FundamentalAnalysis } from '../FundamentalAnalysis';
+import { emptyFundamentals } from '../DataFetch';
+import { Fundamentals, PricePoint } from '../types';
 
 describe('TechnicalAnalysis', () => {
   // Mock price data for testing
@@ -215,6 +217,51 @@ describe('TechnicalAnalysis', () => {
     });
   });
 
+  describe('Fundamental Trends', () => {
+    const year = (end: number, revenue: number, netIncome: number, totalDebt = 200) => FundamentalAnalysis.statement({
+      fiscalDateEnding: new Date(Date.UTC(end, 11, 31)),
+      period: 'annual',
+      revenue,
+      operatingIncome: netIncome * 1.25,
+      netIncome,
+      shareholderEquity: 1000,
+      totalDebt,
+      sharesOutstanding: 100
+    });
+
+    const recommend = (history: Fundamentals['history']) => TechnicalAnalysis.generateRecommendations(
+      mockPrices,
+      TechnicalAnalysis.calculateAllIndicators(mockPrices),
+      // A P/E of 30 would be "high" on its own
+      { ...emptyFundamentals(), pe: 30, history },
+      132
+    );
+
+    it('should score growth instead of single-point valuation', () => {
+      const growing = recommend({ quarterly: [], annual: [year(2022, 1000, 100), year(2023, 1300, 200)] });
+
+      expect(growing.signals.bullish.some(s => s.startsWith('Revenue grew 30.0%'))).toBe(true);
+      expect(growing.signals.bullish.some(s => s.includes('low relative to earnings growth'))).toBe(true);
+      expect(growing.signals.bearish.some(s => s.startsWith('P/E ratio is high'))).toBe(false);
+      expect(growing.fundamental.action).toBe('BUY');
+    });
+
+    it('should flag shrinking, more leveraged businesses', () => {
+      const shrinking = recommend({ quarterly: [], annual: [year(2022, 1000, 100, 200), year(2023, 900, 60, 800)] });
+
+      expect(shrinking.signals.bearish).toEqual(expect.arrayContaining([
+        'Revenue fell 10.0% year over year (last fiscal year)',
+        'Leverage is rising (debt/equity up 0.60)'
+      ]));
+      expect(shrinking.fundamental.action).toBe('SELL');
+    });
+
+    it('should fall back to valuation thresholds without history', () => {
+      const pointInTime = recommend({ quarterly: [], annual: [] });
+      expect(pointInTime.signals.bearish).toContain('P/E ratio is high (P/E: 30.0)');
+    });
+  });
+
   describe('All Indicators Integration', () => {
     it('should calculate all indicators without errors', () => {
       const indicators = TechnicalAnalysis.calculateAllIndicators(mockPrices);
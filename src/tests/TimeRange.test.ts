@@ -0,0 +1,75 @@
+import { barsPerYear, fitsCompactOutput, inferInterval, resolveRange, sliceToRange } from '../TimeRange';
+import { easternToUtc } from '../providers/AlphaVantageProvider';
+import { PricePoint } from '../types';
+
+describe('TimeRange', () => {
+  const dailyBars = (count: number): PricePoint[] => Array.from({ length: count }, (_, i) => ({
+    date: new Date(Date.UTC(2020, 0, 1 + i)),
+    open: 100, high: 101, low: 99, close: 100 + i, volume: 1000
+  }));
+
+  describe('range resolution', () => {
+    const now = new Date('2024-06-28T12:00:00Z');
+
+    it('should map timelines to trading-day windows', () => {
+      expect(resolveRange('1m', now).tradingDays).toBe(21);
+      expect(resolveRange('5y', now).tradingDays).toBe(1260);
+      expect(resolveRange('max', now).start).toBeNull();
+      expect(resolveRange('bogus', now).timeline).toBe('1y');
+
+      // 126 trading days need roughly six calendar months plus padding
+      const start = resolveRange('6m', now).start!;
+      expect(start.getTime()).toBeLessThan(new Date('2024-01-01').getTime());
+      expect(start.getTime()).toBeGreaterThan(new Date('2023-12-01').getTime());
+    });
+
+    it('should slice to the same number of bars for every provider', () => {
+      const prices = dailyBars(400);
+
+      expect(sliceToRange(prices, resolveRange('1m', now))).toHaveLength(22);
+      expect(sliceToRange(prices, resolveRange('1y', now))).toHaveLength(253);
+      expect(sliceToRange(prices, resolveRange('max', now))).toHaveLength(400);
+    });
+
+    it('should only need compact output for short windows or recent top-ups', () => {
+      expect(fitsCompactOutput(resolveRange('1m', now), undefined, now)).toBe(true);
+      expect(fitsCompactOutput(resolveRange('1y', now), undefined, now)).toBe(false);
+      expect(fitsCompactOutput(resolveRange('5y', now), new Date('2024-06-20'), now)).toBe(true);
+      expect(fitsCompactOutput(resolveRange('5y', now), new Date('2023-06-20'), now)).toBe(false);
+    });
+  });
+
+  describe('intraday bars', () => {
+    const now = new Date('2024-06-28T20:00:00Z');
+    // Three sessions of 5-minute bars starting at 09:30 Eastern (13:30 UTC)
+    const fiveMinuteBars = (): PricePoint[] => [26, 27, 28].flatMap(day =>
+      Array.from({ length: 78 }, (_, i) => ({
+        date: new Date(Date.UTC(2024, 5, day, 13, 30 + i * 5)),
+        open: 100, high: 101, low: 99, close: 100 + i / 100, volume: 500
+      }))
+    );
+
+    it('should scale bars per year with the interval', () => {
+      expect(barsPerYear('daily')).toBe(252);
+      expect(barsPerYear('5min')).toBe(252 * 78);
+      expect(barsPerYear('60min')).toBe(252 * 7);
+    });
+
+    it('should infer the interval of imported series', () => {
+      expect(inferInterval(fiveMinuteBars())).toBe('5min');
+      expect(inferInterval(dailyBars(3))).toBe('daily');
+    });
+
+    it('should keep whole sessions when slicing intraday windows', () => {
+      const sliced = sliceToRange(fiveMinuteBars(), resolveRange('1d', now), '5min');
+
+      expect(sliced).toHaveLength(78);
+      expect(sliced[0].date.toISOString()).toBe('2024-06-28T13:30:00.000Z');
+    });
+
+    it('should convert Eastern timestamps across daylight saving time', () => {
+      expect(easternToUtc('2024-06-28 09:30:00').toISOString()).toBe('2024-06-28T13:30:00.000Z');
+      expect(easternToUtc('2024-01-05 09:30:00').toISOString()).toBe('2024-01-05T14:30:00.000Z');
+    });
+  });
+});
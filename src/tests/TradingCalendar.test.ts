@@ -0,0 +1,99 @@
+import { getCalendar, listCalendars } from '../TradingCalendar';
+import { barsPerYear, resolveRange } from '../TimeRange';
+import { Analytics } from '../Analytics';
+import { PricePoint } from '../types';
+
+describe('TradingCalendar', () => {
+  const nyse = getCalendar('NYSE');
+  const bar = (day: string, close: number, time = '00:00:00'): PricePoint => ({
+    date: new Date(`${day}T${time}Z`),
+    open: close, high: close, low: close, close, volume: 1000
+  });
+
+  it('should know the NYSE holidays for a year', () => {
+    ['2024-01-01', '2024-01-15', '2024-02-19', '2024-03-29', '2024-05-27', '2024-06-19',
+      '2024-07-04', '2024-09-02', '2024-11-28', '2024-12-25'].forEach(day => {
+      expect(nyse.isHoliday(day)).toBe(true);
+    });
+    expect(nyse.isTradingDay('2024-03-28')).toBe(true);
+    expect(nyse.isTradingDay('2024-03-30')).toBe(false); // Saturday
+  });
+
+  it('should apply observance rules for weekend holidays', () => {
+    expect(nyse.isHoliday('2021-12-24')).toBe(true); // Christmas on Saturday
+    expect(nyse.isHoliday('2023-01-02')).toBe(true); // New Year's Day on Sunday
+    expect(nyse.isHoliday('2021-12-31')).toBe(false); // New Year's Day 2022 on Saturday
+  });
+
+  it('should shorten half-day sessions', () => {
+    expect(nyse.sessionMinutes('2024-11-29')).toBe(210);
+    expect(nyse.sessionMinutes('2024-12-24')).toBe(210);
+    expect(nyse.sessionMinutes('2024-12-23')).toBe(390);
+    expect(nyse.sessionMinutes('2024-12-25')).toBe(0);
+  });
+
+  it('should support other exchanges', () => {
+    const lse = getCalendar('LSE');
+    expect(listCalendars().map(c => c.id)).toEqual(expect.arrayContaining(['NYSE', 'NASDAQ', 'LSE']));
+    expect(lse.isHoliday('2024-04-01')).toBe(true); // Easter Monday
+    expect(lse.isHoliday('2024-07-04')).toBe(false);
+    expect(lse.isHoliday('2021-12-28')).toBe(true); // Boxing Day observed after Christmas
+    expect(() => getCalendar('XXXX')).toThrow('Unknown exchange calendar');
+  });
+
+  it('should trade crypto every day and FX on weekdays', () => {
+    const crypto = getCalendar('CRYPTO');
+    const fx = getCalendar('FX');
+    const now = new Date('2024-06-28T12:00:00Z');
+
+    expect(crypto.isTradingDay('2024-06-29')).toBe(true); // Saturday
+    expect(crypto.isTradingDay('2024-12-25')).toBe(true);
+    expect(fx.isTradingDay('2024-06-29')).toBe(false);
+    expect(fx.isTradingDay('2024-12-25')).toBe(true);
+    expect(resolveRange('1y', now, crypto).tradingDays).toBe(365);
+    expect(resolveRange('1y', now, fx).tradingDays).toBe(260);
+    expect(barsPerYear('daily', crypto)).toBe(365);
+    expect(barsPerYear('60min', crypto)).toBe(365 * 24);
+    expect(barsPerYear('daily', fx)).toBe(260);
+    expect(barsPerYear('daily', nyse)).toBe(252);
+  });
+
+  it('should count and step through trading days', () => {
+    expect(nyse.tradingDaysBetween(new Date('2024-03-27'), new Date('2024-04-02'))).toBe(3);
+    expect(nyse.subtractTradingDays(new Date('2024-04-01'), 1).toISOString()).toBe('2024-03-28T00:00:00.000Z');
+    expect(nyse.subtractTradingDays(new Date('2024-03-30'), 0).toISOString()).toBe('2024-03-28T00:00:00.000Z');
+  });
+
+  it('should resolve timelines to exact session windows', () => {
+    const range = resolveRange('1w', new Date('2024-07-08T20:00:00Z'), nyse);
+    // Six sessions before Monday July 8 (one spare close), skipping July 4
+    expect(range.start?.toISOString()).toBe('2024-06-27T00:00:00.000Z');
+  });
+
+  it('should detect missing sessions', () => {
+    const prices = [bar('2024-03-26', 100), bar('2024-03-27', 101), bar('2024-04-01', 102)];
+    expect(nyse.findMissingSessions(prices).map(d => d.toISOString().split('T')[0])).toEqual(['2024-03-28']);
+  });
+
+  it('should measure elapsed bars between daily and intraday bars', () => {
+    const daily = [bar('2024-03-26', 100), bar('2024-03-27', 101), bar('2024-04-01', 102)];
+    expect(nyse.barGaps(daily)).toEqual([1, 2]);
+
+    const intraday = [
+      bar('2024-03-27', 100, '19:45:00'),
+      bar('2024-03-27', 101, '20:00:00'),
+      bar('2024-03-27', 101, '20:30:00'),
+      bar('2024-03-28', 102, '13:30:00'),
+      bar('2024-04-02', 103, '13:30:00') // skips the April 1 session
+    ];
+    expect(nyse.barGaps(intraday, '15min')).toEqual([1, 2, 1, 27]);
+  });
+
+  it('should rescale returns that span missing sessions', () => {
+    const prices = [bar('2024-03-26', 100), bar('2024-03-27', 101), bar('2024-04-01', 102)];
+    const returns = Analytics.calculateReturns(prices, nyse.barGaps(prices));
+
+    expect(returns[1]).toBeCloseTo(Math.log(102 / 101) / Math.SQRT2, 12);
+    expect(() => Analytics.calculateReturns(prices, [1])).toThrow('one entry per return');
+  });
+});
@@ -14,6 +14,149 @@ export interface Fundamentals {
   dividendYield: number | null;
   marketCap: number | null;
   eps: number | null;
+  // Trailing-twelve-month figures; margins and ROE are fractions (0.25 = 25%)
+  revenue: number | null;
+  grossMargin: number | null;
+  operatingMargin: number | null;
+  profitMargin: number | null;
+  returnOnEquity: number | null;
+  debtToEquity: number | null;
+  freeCashFlow: number | null;
+  sharesOutstanding: number | null;
+  // Analyst expectations
+  forwardPe: number | null;
+  forwardEps: number | null;
+  targetPrice: number | null;
+  history: FinancialHistory;
+  // ISO code of the trading currency, when the provider reports it
+  currency: string | null;
+}
+
+// One reporting period from the income statement, balance sheet and cash
+// flow statement. Flow items cover the period; balance items are at its end.
+export interface FinancialStatement {
+  fiscalDateEnding: Date;
+  period: 'quarterly' | 'annual';
+  revenue: number | null;
+  grossProfit: number | null;
+  operatingIncome: number | null;
+  netIncome: number | null;
+  eps: number | null;
+  totalAssets: number | null;
+  totalLiabilities: number | null;
+  shareholderEquity: number | null;
+  totalDebt: number | null;
+  operatingCashFlow: number | null;
+  capitalExpenditures: number | null;
+  freeCashFlow: number | null;
+  sharesOutstanding: number | null;
+}
+
+// Oldest period first, like price bars
+export interface FinancialHistory {
+  quarterly: FinancialStatement[];
+  annual: FinancialStatement[];
+}
+
+// Year-over-year changes, comparing the trailing four quarters with the four
+// before them, or the last two fiscal years when quarters are missing
+export interface FundamentalTrends {
+  basis: 'ttm' | 'annual' | null;
+  revenueGrowth: number | null;
+  epsGrowth: number | null;
+  operatingMarginChange: number | null;
+  returnOnEquityChange: number | null;
+  debtToEquityChange: number | null;
+  freeCashFlowGrowth: number | null;
+}
+
+// A past or scheduled earnings release. Upcoming reports have no actual EPS.
+export interface EarningsEvent {
+  date: Date;
+  fiscalDateEnding: Date | null;
+  // Releases outside the session move the price at the next open
+  timing: 'pre-market' | 'post-market' | null;
+  epsEstimate: number | null;
+  epsActual: number | null;
+}
+
+// Splits take effect and dividends go ex on `date`. `value` is the split
+// ratio (new shares per old share, 4 for a 4-for-1) or the cash dividend per share.
+export type CorporateActionType = 'split' | 'dividend';
+
+export interface CorporateAction {
+  date: Date;
+  type: CorporateActionType;
+  value: number;
+  source: 'provider' | 'manual';
+}
+
+// raw: prices as traded; split: back-adjusted for splits;
+// total: also back-adjusted for dividends, so returns include reinvestment
+export type PriceAdjustment = 'raw' | 'split' | 'total';
+
+// Data-quality report produced by PriceValidator before analysis
+export type DataQualityIssueType =
+  | 'invalid-date'
+  | 'invalid-price'
+  | 'invalid-volume'
+  | 'high-low'
+  | 'ohlc-range'
+  | 'duplicate'
+  | 'out-of-order'
+  | 'zero-volume'
+  | 'missing-session'
+  | 'outlier-return';
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  action: 'dropped' | 'repaired' | 'flagged';
+  date: Date | null;
+  message: string;
+}
+
+export interface OutlierReturn {
+  date: Date;
+  logReturn: number;
+  zScore: number; // robust (median/MAD) z-score
+}
+
+export interface DataQualityReport {
+  totalRows: number;
+  validRows: number;
+  dropped: number;
+  repaired: number;
+  flagged: number;
+  issues: DataQualityIssue[]; // capped at PriceValidator.MAX_ISSUES
+  outliers: OutlierReturn[];
+  // Exchange sessions inside the series with no bars (when a calendar is known)
+  missingSessions: Date[];
+}
+
+export type BarInterval = '1min' | '5min' | '15min' | '60min' | 'daily';
+
+// Crypto pairs (BTC-USD) trade around the clock and FX pairs (EUR/USD)
+// through the week; neither has fundamentals, corporate actions or earnings
+export type AssetType = 'equity' | 'crypto' | 'fx';
+
+export type CacheStatus = 'hit' | 'topup' | 'miss';
+
+export interface CacheInfo {
+  status: CacheStatus;
+  fetchedAt: Date;
+}
+
+// Parts of a StockData that can be served by different providers
+export type Dataset = 'prices' | 'fundamentals' | 'corporateActions' | 'earnings';
+
+// Provider that served each dataset; null when no provider in the order offers it
+export type DataSources = Record<Dataset, ApiProvider | null>;
+
+// A provider that failed for a dataset, so the next one in the order was tried
+export interface ProviderFailure {
+  provider: ApiProvider;
+  dataset: Dataset;
+  message: string;
 }
 
 export interface StockData {
@@ -21,9 +164,186 @@ export interface StockData {
   currentPrice: number;
   prices: PricePoint[];
   fundamentals: Fundamentals;
+  interval?: BarInterval; // defaults to 'daily'
+  assetType?: AssetType; // defaults to 'equity'
+  // Unadjusted bars that `prices` was derived from, and the provider's events
+  rawPrices?: PricePoint[];
+  corporateActions?: CorporateAction[];
+  earnings?: EarningsEvent[];
+  adjustment?: PriceAdjustment;
+  quality?: DataQualityReport;
+  cache?: CacheInfo;
+  sources?: DataSources;
+  providerFailures?: ProviderFailure[];
+  provenance?: DataProvenance;
+  // ISO code of every price and monetary figure above; null when unknown
+  currency?: string | null;
+  // Conversion applied from the trading currency (provenance.currency)
+  fx?: FxRate;
 }
 
-export type ApiProvider = 'alphavantage' | 'polygon';
+// Units of `quote` per unit of `base`
+export interface FxRate {
+  base: string;
+  quote: string;
+  rate: number;
+  asOf: Date;
+  source: ApiProvider; // 'fixture' for the bundled reference rates
+}
+
+// Where a field's values came from: the source itself, computed from other
+// fields, absent although the source offers it, or not offered at all
+export type FieldAvailability = 'reported' | 'derived' | 'missing' | 'unsupported';
+
+// Where a dataset came from and what it holds, kept with the data so it can
+// be shown and exported alongside the analysis
+export interface DataProvenance {
+  provider: ApiProvider | null; // null for imported files
+  importedFrom: string | null; // file name of an import
+  fetchedAt: Date; // when the bars left the source; the original fetch for cache hits
+  cacheStatus: CacheStatus | null;
+  adjustment: PriceAdjustment; // applied to `prices`
+  providerAdjusted: boolean; // bars arrived split-adjusted from the source
+  currency: string | null;
+  exchange: string;
+  timeZone: string; // daily bar dates are sessions in this time zone
+  fields: Record<string, FieldAvailability>;
+}
+
+// Id of a provider registered with the ProviderRegistry (e.g. 'alphavantage', 'polygon')
+export type ApiProvider = string;
+
+// Market data providers
+export interface ProviderCapabilities {
+  fundamentals: boolean;
+  intraday: boolean;
+  corporateActions: boolean;
+  earnings: boolean;
+  symbolSearch: boolean;
+  // Live trades over a WebSocket (see quoteStream())
+  streaming: boolean;
+  // Bars arrive already split-adjusted
+  adjustedPrices: boolean;
+  // Currency exchange rates (see fetchFxRate())
+  fx: boolean;
+  // Kinds of instrument fetchBars() serves
+  assetTypes: AssetType[];
+  requiresApiKey: boolean;
+}
+
+export interface ProviderRateLimit {
+  requestsPerMinute: number;
+  requestsPerDay: number | null;
+}
+
+export type Timeline = '1d' | '1w' | '1m' | '6m' | '1y' | '2y' | '5y' | 'max';
+
+export interface ResolvedRange {
+  timeline: Timeline;
+  // Number of daily returns in the window (null = all available history)
+  tradingDays: number | null;
+  // Earliest calendar date a provider needs to request to cover the window
+  start: Date | null;
+  end: Date;
+}
+
+// fetch() routed through the provider's rate-limited request queue
+export type ScheduledFetch = (url: string) => Promise<Response>;
+
+export interface BarsRequest {
+  ticker: string;
+  assetType: AssetType;
+  timeline: string;
+  range: ResolvedRange;
+  interval: BarInterval;
+  apiKey: string | null;
+  // Only bars on or after this date are needed (incremental cache top-up)
+  since?: Date;
+  fetch: ScheduledFetch;
+}
+
+export interface FundamentalsRequest {
+  ticker: string;
+  apiKey: string | null;
+  fetch: ScheduledFetch;
+}
+
+export interface CorporateActionsRequest {
+  ticker: string;
+  apiKey: string | null;
+  fetch: ScheduledFetch;
+}
+
+export interface EarningsRequest {
+  ticker: string;
+  apiKey: string | null;
+  fetch: ScheduledFetch;
+}
+
+export interface SymbolSearchRequest {
+  query: string;
+  apiKey: string | null;
+  fetch: ScheduledFetch;
+}
+
+export interface FxRateRequest {
+  base: string;
+  quote: string;
+  apiKey: string | null;
+  fetch: ScheduledFetch;
+}
+
+export interface ConnectionRequest {
+  apiKey: string | null;
+  fetch: ScheduledFetch;
+}
+
+// A symbol search / autocomplete result
+export interface SymbolMatch {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  assetType: string | null;
+  currency: string | null;
+  region: string | null;
+}
+
+// A trade from a live quote feed
+export interface Quote {
+  ticker: string;
+  price: number;
+  size: number; // shares traded
+  timestamp: Date;
+}
+
+// Wire format of a WebSocket quote feed
+export interface QuoteStreamProtocol {
+  url: string;
+  // Sent as soon as the socket opens, before any subscription (e.g. authentication)
+  handshake: string[];
+  subscribe(tickers: string[]): string;
+  unsubscribe(tickers: string[]): string;
+  // Trades carried by one incoming message; throws AuthError when the
+  // server rejects the credentials
+  parse(message: string): Quote[];
+}
+
+export interface MarketDataProvider {
+  id: ApiProvider;
+  name: string;
+  signupUrl?: string;
+  capabilities: ProviderCapabilities;
+  rateLimit: ProviderRateLimit;
+  fetchBars(request: BarsRequest): Promise<PricePoint[]>;
+  fetchFundamentals(request: FundamentalsRequest): Promise<Fundamentals>;
+  fetchCorporateActions(request: CorporateActionsRequest): Promise<CorporateAction[]>;
+  fetchEarnings(request: EarningsRequest): Promise<EarningsEvent[]>;
+  searchSymbols(request: SymbolSearchRequest): Promise<SymbolMatch[]>;
+  quoteStream(apiKey: string | null): QuoteStreamProtocol;
+  fetchFxRate(request: FxRateRequest): Promise<FxRate>;
+  // One cheap authenticated request; throws AuthError when the key is rejected
+  testConnection(request: ConnectionRequest): Promise<void>;
+}
 
 export interface AnalyticsParams {
   alpha: number;
@@ -32,6 +352,41 @@ export interface AnalyticsParams {
   switchProb: number;
   numPaths: number;
   numSteps: number;
+  barsPerYear?: number; // simulation step size is 1 / barsPerYear (default 252 daily bars)
+  eventJumps?: EventJumpParams;
+  seed?: number; // random seed; a fresh one is drawn when absent
+  regimes?: RegimeSwitchingParams; // switch between them with switchProb per step
+}
+
+// GARCH(1,1) fitted by maximum likelihood: σ²_t = ω + α·r²_{t-1} + β·σ²_{t-1}
+export interface GarchFit {
+  omega: number;
+  alpha: number;
+  beta: number;
+  standardErrors: { omega: number; alpha: number; beta: number }; // NaN when the fit is on a boundary
+  logLikelihood: number;
+  persistence: number; // alpha + beta; near 1, volatility shocks barely decay
+  longRunVolatility: number; // per bar, sqrt(ω / (1 - α - β))
+}
+
+// Two-state Markov switching: each regime has its own annualized drift and
+// per-bar long-run volatility, which the GARCH variance reverts to
+export interface RegimeParams {
+  drift: number;
+  volatility: number;
+}
+
+export interface RegimeSwitchingParams {
+  bull: RegimeParams;
+  bear: RegimeParams;
+  initial: 'bull' | 'bear';
+}
+
+// Extra one-off move on the steps where a scheduled event (earnings) lands.
+// Steps count bars after the last observed one, starting at 1.
+export interface EventJumpParams {
+  steps: number[];
+  stdDev: number; // of the event-day log return, on top of normal volatility
 }
 
 export interface AnalyticsResult {
@@ -49,6 +404,8 @@ export interface AnalyticsResult {
   currentVolatility: number;
   trend: number;
   drift: number;
+  seed: number; // reproduces the paths with the same params and data
+  regimeOccupancy?: number[]; // per path, share of steps spent in the bull regime
 }
 
 // Technical Indicators
@@ -174,6 +531,10 @@ export interface RegimeAnalysis {
     bull: number;
     bear: number;
   };
+  regimes: number[]; // per return, 1 bull and -1 bear
+  bullProbabilities: number[]; // per return, chance it was in the bull regime
+  transitionMatrix: number[][]; // [from][to], bull first then bear
+  logLikelihood?: number; // hidden Markov model fits only
 }
 
 export interface OptionsMetrics {
@@ -185,6 +546,9 @@ export interface OptionsMetrics {
   rho: number;
 }
 
+// Messages to the simulation worker (src/SimulationWorker.ts). Simulations
+// and stress tests start from initialPrice, initialVolatility and drift,
+// or estimate whichever are missing from `prices`.
 export interface WorkerMessage {
   type: 'RUN_SIMULATION' | 'RUN_STRESS_TEST' | 'CALCULATE_CORRELATIONS';
   payload: {
@@ -192,8 +556,11 @@ export interface WorkerMessage {
     params?: AnalyticsParams;
     initialVolatility?: number;
     drift?: number;
+    prices?: PricePoint[];
+    elapsedBars?: number[]; // see TradingCalendar.barGaps
     scenarios?: StressTestScenario[];
     assets?: string[];
+    assetPrices?: Record<string, PricePoint[]>; // aligned by date (see alignByDate)
   };
 }
 